@@ -5,6 +5,7 @@ export { resetReflectionID } from "./lib/models/reflections/abstract";
 export { normalizePath } from "./lib/utils/fs";
 export * from "./lib/models/reflections";
 export { Converter } from "./lib/converter";
+export type { SourceLinkProvider, SourceLinkRemote } from "./lib/converter";
 export { Renderer } from "./lib/output/renderer";
 export {
     DefaultTheme,
@@ -12,6 +13,10 @@ export {
 } from "./lib/output/themes/DefaultTheme";
 export { NavigationItem } from "./lib/output/models/NavigationItem";
 export { UrlMapping } from "./lib/output/models/UrlMapping";
+export { DeprecatedIndex } from "./lib/output/models/DeprecatedIndex";
+export type { DeprecatedItem } from "./lib/output/models/DeprecatedIndex";
+export { SourcePage } from "./lib/output/models/SourcePage";
+export type { SourceLine } from "./lib/output/models/SourcePage";
 
 export {
     BindOption,
@@ -21,6 +26,10 @@ export {
     TSConfigReader,
     TypeDocReader,
     ArgumentsReader,
+    ConfigFileReader,
+    EnvironmentReader,
+    PackageJsonReader,
+    getOptionsSchema,
 } from "./lib/utils/options";
 
 export type {
@@ -41,5 +50,32 @@ export type {
 
 export { JSONOutput } from "./lib/serialization";
 
+export {
+    diffProjects,
+    printSignature,
+    DiffFormat,
+    describeChange,
+    formatDiff,
+    getDiffJson,
+    getDiffMarkdown,
+    getDiffText,
+    SemverBump,
+    getChangeBump,
+    getSemverReport,
+    getSemverSummary,
+    incrementVersion,
+    isAssignableTo,
+    isValidBump,
+    parseVersion,
+} from "./lib/diff";
+export type {
+    ApiChange,
+    ApiChangeJson,
+    ApiChangeTarget,
+    ApiDiff,
+    SemverChange,
+    SemverReport,
+} from "./lib/diff";
+
 import * as TypeScript from "typescript";
 export { TypeScript };
@@ -4,18 +4,45 @@ import * as ts from "typescript";
 
 import { Converter, DocumentationEntrypoint } from "./converter/index";
 import { Renderer } from "./output/renderer";
-import { Serializer } from "./serialization";
+import { Deserializer, JSONOutput, Serializer } from "./serialization";
 import { ProjectReflection } from "./models/index";
 import { getCommonDirectory } from "./utils/fs";
 import {
     Logger,
+    LogLevel,
     ConsoleLogger,
     CallbackLogger,
     PluginHost,
     normalizePath,
     ensureDirectoriesExist,
+    readFile,
 } from "./utils/index";
 import { createMinimatch } from "./utils/paths";
+import {
+    getCoverage,
+    getCoverageMarkdown,
+    getCoveragePercent,
+    getCoverageSummary,
+} from "./validation/coverage";
+import { getApiReport } from "./validation/api-report";
+import { validateExports } from "./validation/exports";
+import { BrokenLink, validateLinks } from "./validation/links";
+import { checkExamples } from "./validation/examples";
+import { ApiDiff, diffProjects } from "./diff/diff";
+import {
+    getSemverReport,
+    getSemverSummary,
+    incrementVersion,
+    isValidBump,
+    parseVersion,
+    SemverBump,
+} from "./diff/semver";
+import {
+    createProgramsForReferences,
+    createSharedCompilerHost,
+    getReferencedConfigFiles,
+} from "./utils/project-references";
+import type { WorkerData, WorkerResponse } from "./worker";
 
 import {
     AbstractComponent,
@@ -24,6 +51,9 @@ import {
     DUMMY_APPLICATION_OWNER,
 } from "./utils/component";
 import { Options, BindOption } from "./utils";
+import { getOptionsSchema } from "./utils/options/schema";
+import { getInitialConfig } from "./utils/options/init";
+import { findConfigModule } from "./utils/options/readers/config-file";
 import { TypeDocOptions } from "./utils/options/declaration";
 import { flatMap } from "./utils/array";
 import { basename, resolve } from "path";
@@ -32,6 +62,8 @@ import {
     getTsEntryPointForPackage,
     ignorePackage,
     loadPackageManifest,
+    loadPackageOptions,
+    PackageOptions,
 } from "./utils/package-manifest";
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -45,17 +77,34 @@ const supportedVersionMajorMinor = packageInfo.peerDependencies.typescript
     .map((version) => version.replace(/^\s*|\.x\s*$/g, ""));
 
 /**
- * Expand the provided packages configuration paths, determining the entry points
- * and creating the ts.Programs for any which are found.
+ * A package found when expanding the packages configuration paths.
+ */
+interface PackageEntryPoint {
+    displayName: string;
+    /** The directory containing the package's package.json file. */
+    packagePath: string;
+    /** The TypeScript source file of the package's entry point. */
+    path: string;
+    /** The tsconfig file which builds the entry point. */
+    tsconfigFile: string;
+    /** The options the package overrides. */
+    options: PackageOptions;
+}
+
+/**
+ * Expand the provided packages configuration paths, determining the entry point
+ * and tsconfig file for each package which is found.
  * @param logger
+ * @param options
  * @param packageGlobPaths
- * @returns The information about the discovered programs, undefined if an error occurs.
+ * @returns The discovered packages, undefined if an error occurs.
  */
-function getEntrypointsForPackages(
+function getPackageEntryPoints(
     logger: Logger,
+    options: Options,
     packageGlobPaths: string[]
-): DocumentationEntrypoint[] | undefined {
-    const results = new Array<DocumentationEntrypoint>();
+): PackageEntryPoint[] | undefined {
+    const results = new Array<PackageEntryPoint>();
     // --packages arguments are workspace tree roots, or glob patterns
     // This expands them to leave only leaf packages
     const expandedPackages = expandPackages(logger, ".", packageGlobPaths);
@@ -66,11 +115,24 @@ function getEntrypointsForPackages(
             logger.error(`Could not load package manifest ${packageJsonPath}`);
             return;
         }
-        const packageEntryPoint = getTsEntryPointForPackage(
+        const packageOptions = loadPackageOptions(
             logger,
+            options,
             packageJsonPath,
             packageJson
         );
+        if (
+            packageOptions.entryPoints &&
+            packageOptions.entryPoints.length !== 1
+        ) {
+            logger.error(
+                `The entryPoints option of package ${packageJsonPath} must contain exactly one file`
+            );
+            return;
+        }
+        const packageEntryPoint =
+            packageOptions.entryPoints?.[0] ??
+            getTsEntryPointForPackage(logger, packageJsonPath, packageJson);
         if (packageEntryPoint === undefined) {
             logger.error(
                 `Could not determine TS entry point for package ${packageJsonPath}`
@@ -90,10 +152,41 @@ function getEntrypointsForPackages(
             );
             return;
         }
+        results.push({
+            displayName: packageOptions.name || (packageJson.name as string),
+            packagePath,
+            path: packageEntryPoint,
+            tsconfigFile,
+            options: packageOptions,
+        });
+    }
+    return results;
+}
+
+/**
+ * Expand the provided packages configuration paths, determining the entry points
+ * and creating the ts.Programs for any which are found.
+ * @param logger
+ * @param options
+ * @param packageGlobPaths
+ * @returns The information about the discovered programs, undefined if an error occurs.
+ */
+function getEntrypointsForPackages(
+    logger: Logger,
+    options: Options,
+    packageGlobPaths: string[]
+): DocumentationEntrypoint[] | undefined {
+    const packages = getPackageEntryPoints(logger, options, packageGlobPaths);
+    if (packages === undefined) {
+        return;
+    }
+
+    const results = new Array<DocumentationEntrypoint>();
+    for (const pkg of packages) {
         // Consider deduplicating this with similar code in src/lib/utils/options/readers/tsconfig.ts
         let fatalError = false;
         const parsedCommandLine = ts.getParsedCommandLineOfConfigFile(
-            tsconfigFile,
+            pkg.tsconfigFile,
             {},
             {
                 ...ts.sys,
@@ -114,23 +207,30 @@ function getEntrypointsForPackages(
             rootNames: parsedCommandLine.fileNames,
             options: parsedCommandLine.options,
         });
-        const sourceFile = program.getSourceFile(packageEntryPoint);
-        if (sourceFile === undefined) {
-            logger.error(
-                `Entrypoint "${packageEntryPoint}" does not appear to be built by the tsconfig found at "${tsconfigFile}"`
-            );
+        const entrypoint = getEntrypointForPackage(logger, pkg, program);
+        if (entrypoint === undefined) {
             return;
         }
-        results.push({
-            displayName: packageJson.name as string,
-            path: packageEntryPoint,
-            program,
-            sourceFile,
-        });
+        results.push(entrypoint);
     }
     return results;
 }
 
+function getEntrypointForPackage(
+    logger: Logger,
+    { displayName, path, tsconfigFile, options }: PackageEntryPoint,
+    program: ts.Program
+): DocumentationEntrypoint | undefined {
+    const sourceFile = program.getSourceFile(path);
+    if (sourceFile === undefined) {
+        logger.error(
+            `Entrypoint "${path}" does not appear to be built by the tsconfig found at "${tsconfigFile}"`
+        );
+        return;
+    }
+    return { displayName, path, program, sourceFile, options };
+}
+
 function getModuleName(fileName: string, baseDir: string) {
     return normalizePath(Path.relative(baseDir, fileName)).replace(
         /(\/index)?(\.d)?\.[tj]sx?$/,
@@ -172,6 +272,11 @@ export class Application extends ChildableComponent<
      */
     serializer: Serializer;
 
+    /**
+     * The deserializer used to revive projects from JSON output.
+     */
+    deserializer: Deserializer;
+
     /**
      * The logger that should be used to output messages.
      */
@@ -213,6 +318,7 @@ export class Application extends ChildableComponent<
         this.options = new Options(this.logger);
         this.options.addDefaultDeclarations();
         this.serializer = new Serializer();
+        this.deserializer = new Deserializer();
         this.converter = this.addComponent<Converter>("converter", Converter);
         this.renderer = this.addComponent<Renderer>("renderer", Renderer);
         this.plugins = this.addComponent("plugins", PluginHost);
@@ -224,6 +330,28 @@ export class Application extends ChildableComponent<
      * @param options  The desired options to set.
      */
     bootstrap(options: Partial<TypeDocOptions> = {}): void {
+        this.setInitialOptions(options);
+        this.options.read(new Logger());
+        this.loadPlugins();
+        this.resetOptions(options);
+        this.options.read(this.logger);
+    }
+
+    /**
+     * Initialize TypeDoc with the given options object, like [[bootstrap]], but also support
+     * option readers which read asynchronously, like the reader of typedoc.config.mjs files.
+     *
+     * @param options  The desired options to set.
+     */
+    async bootstrapAsync(options: Partial<TypeDocOptions> = {}): Promise<void> {
+        this.setInitialOptions(options);
+        await this.options.readAsync(new Logger());
+        this.loadPlugins();
+        this.resetOptions(options);
+        await this.options.readAsync(this.logger);
+    }
+
+    private setInitialOptions(options: Partial<TypeDocOptions>) {
         for (const [key, val] of Object.entries(options)) {
             try {
                 this.options.setValue(key as keyof TypeDocOptions, val);
@@ -231,8 +359,12 @@ export class Application extends ChildableComponent<
                 // Ignore errors, plugins haven't been loaded yet and may declare an option.
             }
         }
-        this.options.read(new Logger());
+    }
 
+    /**
+     * Set up the logger given by the options read so far and load plugins.
+     */
+    private loadPlugins() {
         const logger = this.loggerType;
         if (typeof logger === "function") {
             this.logger = new CallbackLogger(<any>logger);
@@ -244,7 +376,12 @@ export class Application extends ChildableComponent<
         this.logger.level = this.options.getValue("logLevel");
 
         this.plugins.load();
+    }
 
+    /**
+     * Reset the options read before plugins were loaded, which may declare more options.
+     */
+    private resetOptions(options: Partial<TypeDocOptions>) {
         this.options.reset();
         for (const [key, val] of Object.entries(options)) {
             try {
@@ -253,7 +390,6 @@ export class Application extends ChildableComponent<
                 this.logger.error(error.message);
             }
         }
-        this.options.read(this.logger);
     }
 
     /**
@@ -310,7 +446,11 @@ export class Application extends ChildableComponent<
         const packages = this.application.options
             .getValue("packages")
             .map(normalizePath);
-        const entrypoints = getEntrypointsForPackages(this.logger, packages);
+        const entrypoints = getEntrypointsForPackages(
+            this.logger,
+            this.options,
+            packages
+        );
         if (entrypoints === undefined) {
             return;
         }
@@ -339,6 +479,331 @@ export class Application extends ChildableComponent<
         return this.converter.convert(entrypoints);
     }
 
+    /**
+     * Run the converter like [[convert]], but convert each package given with the `packages`
+     * option in a worker thread. The workers send back serialized projects which are merged
+     * like [[mergeJson]] merges JSON files. Packages are merged in the order they were found
+     * in, so reflection ids do not depend on which worker finishes first.
+     *
+     * If the `packages` option is not set, this converts the entry points in the main thread.
+     *
+     * @returns An instance of ProjectReflection on success, undefined otherwise.
+     */
+    public async convertInWorkers(): Promise<ProjectReflection | undefined> {
+        const packagePaths = this.options
+            .getValue("packages")
+            .map(normalizePath);
+        if (packagePaths.length === 0) {
+            return this.convert();
+        }
+
+        const packages = getPackageEntryPoints(
+            this.logger,
+            this.options,
+            packagePaths
+        );
+        if (packages === undefined) {
+            return;
+        }
+
+        // Only load worker_threads when it is needed, it is not available in all supported Node versions.
+        const { Worker } = await import("worker_threads");
+        const workerCount = Math.min(
+            Math.max(this.options.getValue("workers"), 1),
+            packages.length
+        );
+        this.logger.verbose(
+            `Converting ${packages.length} packages with ${workerCount} workers`
+        );
+
+        // Functions cannot be sent to a worker, workers send their messages back to be logged here.
+        const options = this.options.getRawValues();
+        delete options.logger;
+        const workerData: WorkerData = {
+            options,
+            basePath: getCommonDirectory(packages.map((pkg) => pkg.path)),
+        };
+
+        const inputs = new Array<JSONOutput.ProjectReflection | undefined>(
+            packages.length
+        );
+        let next = 0;
+        // Set once a worker fails, the remaining packages are not converted.
+        let failed = false;
+        const workers: InstanceType<typeof Worker>[] = [];
+        const runWorker = () =>
+            new Promise<void>((resolve, reject) => {
+                const worker = new Worker(Path.join(__dirname, "worker.js"), {
+                    workerData,
+                });
+                workers.push(worker);
+                // The package this worker is converting, if any.
+                let current: number | undefined;
+                const sendNext = () => {
+                    if (!failed && next < packages.length) {
+                        const index = next++;
+                        const { displayName, packagePath } = packages[index];
+                        current = index;
+                        worker.postMessage({ index, displayName, packagePath });
+                    } else {
+                        current = undefined;
+                        worker.postMessage(undefined);
+                    }
+                };
+
+                worker.on("message", (response: WorkerResponse) => {
+                    if (response.type === "log") {
+                        this.logger.log(response.message, response.level);
+                    } else {
+                        inputs[response.index] = response.project;
+                        sendNext();
+                    }
+                });
+                worker.on("error", (error) => {
+                    failed = true;
+                    reject(error);
+                });
+                worker.on("exit", (code: number) => {
+                    if (current === undefined) {
+                        resolve();
+                    } else {
+                        failed = true;
+                        reject(
+                            new Error(
+                                `Worker exited with code ${code} while converting ${packages[current].displayName}`
+                            )
+                        );
+                    }
+                });
+                sendNext();
+            });
+
+        try {
+            await Promise.all(Array.from({ length: workerCount }, runWorker));
+        } catch (error) {
+            await Promise.all(workers.map((worker) => worker.terminate()));
+            this.logger.error(
+                `Failed to convert packages in worker threads: ${
+                    error instanceof Error ? error.message : error
+                }`
+            );
+            return;
+        }
+
+        const unconverted = packages.filter((_, index) => !inputs[index]);
+        if (unconverted.length) {
+            this.logger.error(
+                `Failed to convert ${unconverted
+                    .map((pkg) => pkg.displayName)
+                    .join(", ")}`
+            );
+            return;
+        }
+
+        const project = this.revive(() =>
+            this.deserializer.mergeProjects(
+                this.options.getValue("name"),
+                inputs as JSONOutput.ProjectReflection[]
+            )
+        );
+        if (!project) {
+            return;
+        }
+
+        this.readReadme(project);
+
+        return project;
+    }
+
+    /**
+     * Revive a project from a JSON file previously written by [[generateJson]] so that it
+     * can be rendered without converting the source files again.
+     *
+     * @param path  The path to the JSON file.
+     * @returns An instance of ProjectReflection on success, undefined otherwise.
+     */
+    public convertFromJson(path: string): ProjectReflection | undefined {
+        const input = this.readJsonProject(path);
+        if (!input) {
+            return;
+        }
+
+        const project = this.revive(() =>
+            this.deserializer.reviveProject(input)
+        );
+        if (!project) {
+            return;
+        }
+
+        if (this.options.isSet("name")) {
+            project.name = this.options.getValue("name");
+        }
+        this.readReadme(project);
+
+        return project;
+    }
+
+    /**
+     * Merge several JSON files previously written by [[generateJson]] into a single project
+     * containing one module per file. Reflection ids are reassigned so that they do not
+     * collide, and references between the files are linked where possible.
+     *
+     * @param paths  The paths to the JSON files.
+     * @returns An instance of ProjectReflection on success, undefined otherwise.
+     */
+    public mergeJson(paths: readonly string[]): ProjectReflection | undefined {
+        const inputs: JSONOutput.ProjectReflection[] = [];
+        for (const path of paths) {
+            const input = this.readJsonProject(path);
+            if (!input) {
+                return;
+            }
+            inputs.push(input);
+        }
+
+        const project = this.revive(() =>
+            this.deserializer.mergeProjects(
+                this.options.getValue("name"),
+                inputs
+            )
+        );
+        if (!project) {
+            return;
+        }
+
+        this.readReadme(project);
+
+        return project;
+    }
+
+    /**
+     * Compare the API of two projects previously written by [[generateJson]].
+     *
+     * @param oldPath  The path to the JSON file of the previous version.
+     * @param newPath  The path to the JSON file of the current version.
+     * @returns The changes between the projects on success, undefined otherwise.
+     */
+    public diffJson(oldPath: string, newPath: string): ApiDiff | undefined {
+        const projects = this.reviveJsonProjects([oldPath, newPath]);
+        return projects && diffProjects(projects[0], projects[1]);
+    }
+
+    /**
+     * Log the release type the API changes between two projects previously written by
+     * [[generateJson]] require. The current version is read from the package.json file
+     * in the working directory.
+     *
+     * @param oldPath  The path to the JSON file of the current version.
+     * @param newPath  The path to the JSON file of the proposed version.
+     * @returns false if the projects could not be read, if the `proposedVersion` option
+     *          is a smaller release than the changes require, or if it is not set and the
+     *          changes are breaking.
+     */
+    public checkSemver(oldPath: string, newPath: string): boolean {
+        const projects = this.reviveJsonProjects([oldPath, newPath]);
+        if (!projects) {
+            return false;
+        }
+        const report = getSemverReport(projects[0], projects[1]);
+
+        const packageJsonPath = Path.resolve("package.json");
+        const manifest = FS.existsSync(packageJsonPath)
+            ? loadPackageManifest(this.logger, packageJsonPath)
+            : undefined;
+        const current =
+            typeof manifest?.version === "string" ? manifest.version : "";
+        this.logger.log(getSemverSummary(report, current), LogLevel.Info);
+
+        const proposed = this.options.getValue("proposedVersion");
+        if (!proposed) {
+            if (report.bump === SemverBump.Major) {
+                this.logger.error(
+                    "The API changes require a major release, set proposedVersion to the version they will be released as"
+                );
+                return false;
+            }
+            return true;
+        }
+        if (!parseVersion(current)) {
+            this.logger.error(
+                `Could not read the current version from ${packageJsonPath}`
+            );
+            return false;
+        }
+        if (!isValidBump(report, current, proposed)) {
+            this.logger.error(
+                `The API changes since ${current} require at least version ${incrementVersion(
+                    current,
+                    report.bump
+                )}, but ${proposed} was proposed`
+            );
+            return false;
+        }
+        return true;
+    }
+
+    private reviveJsonProjects(
+        paths: readonly string[]
+    ): ProjectReflection[] | undefined {
+        const projects: ProjectReflection[] = [];
+        for (const path of paths) {
+            const input = this.readJsonProject(path);
+            const project =
+                input &&
+                this.revive(() => this.deserializer.reviveProject(input));
+            if (!project) {
+                return;
+            }
+            projects.push(project);
+        }
+        return projects;
+    }
+
+    private readJsonProject(
+        path: string
+    ): JSONOutput.ProjectReflection | undefined {
+        path = Path.resolve(path);
+        this.logger.verbose(`Reading JSON project from ${path}`);
+
+        try {
+            return JSON.parse(readFile(path));
+        } catch (error) {
+            this.logger.error(
+                `Failed to read project from ${path}: ${
+                    error instanceof Error ? error.message : error
+                }`
+            );
+        }
+    }
+
+    private revive(
+        callback: () => ProjectReflection
+    ): ProjectReflection | undefined {
+        try {
+            return callback();
+        } catch (error) {
+            this.logger.error(
+                `Failed to revive project from JSON: ${
+                    error instanceof Error ? error.message : error
+                }`
+            );
+        }
+    }
+
+    /**
+     * The readme is not part of the JSON output, so it has to be read again when
+     * reviving a project.
+     */
+    private readReadme(project: ProjectReflection) {
+        const readme = this.options.getValue("readme");
+        if (readme && readme !== "none") {
+            const readmePath = Path.resolve(readme);
+            if (FS.existsSync(readmePath)) {
+                project.readme = readFile(readmePath);
+            }
+        }
+    }
+
     public convertAndWatch(
         success: (project: ProjectReflection) => Promise<void>
     ): void {
@@ -367,114 +832,161 @@ export class Application extends ChildableComponent<
             );
         }
 
-        if (Object.keys(this.options.getCompilerOptions()).length === 0) {
+        if (
+            Object.keys(this.options.getCompilerOptions()).length === 0 &&
+            this.application.options.getValue("packages").length === 0
+        ) {
             this.logger.warn(
                 `No compiler options set. This likely means that TypeDoc did not find your tsconfig.json. Generated documentation will probably be empty.`
             );
         }
 
-        // Doing this is considerably more complicated, we'd need to manage an array of programs, not convert until all programs
-        // have reported in the first time... just error out for now. I'm not convinced anyone will actually notice.
-        if (this.application.options.getFileNames().length === 0) {
-            this.logger.error(
-                "The provided tsconfig file looks like a solution style tsconfig, which is not supported in watch mode."
+        const packages = this.application.options
+            .getValue("packages")
+            .map(normalizePath);
+
+        // Each watch program is created from a tsconfig file. In packages mode, there is one
+        // for each package. If given a solution style tsconfig, there is one for each reference.
+        let tsconfigFiles: string[];
+        let getEntrypoints: (
+            programs: readonly ts.Program[]
+        ) => DocumentationEntrypoint[];
+
+        if (packages.length !== 0) {
+            const packageEntryPoints = getPackageEntryPoints(
+                this.logger,
+                this.options,
+                packages
             );
-            return;
+            if (packageEntryPoints === undefined) {
+                return;
+            }
+            tsconfigFiles = packageEntryPoints.map((pkg) => pkg.tsconfigFile);
+            getEntrypoints = (programs) =>
+                packageEntryPoints
+                    .map((pkg, i) =>
+                        getEntrypointForPackage(this.logger, pkg, programs[i])
+                    )
+                    .filter(
+                        (entry): entry is DocumentationEntrypoint => !!entry
+                    );
+        } else if (this.application.options.getFileNames().length === 0) {
+            this.logger.verbose(
+                "tsconfig appears to be a solution style tsconfig - watching programs for references"
+            );
+            tsconfigFiles = getReferencedConfigFiles(
+                this.application.options.getProjectReferences()
+            );
+            getEntrypoints = (programs) =>
+                this.getEntrypointsForPrograms(programs, this.entryPoints);
+        } else {
+            // Matches the behavior of the tsconfig option reader.
+            let tsconfigFile = this.options.getValue("tsconfig");
+            tsconfigFile =
+                ts.findConfigFile(
+                    tsconfigFile,
+                    ts.sys.fileExists,
+                    tsconfigFile.toLowerCase().endsWith(".json")
+                        ? basename(tsconfigFile)
+                        : undefined
+                ) ?? "tsconfig.json";
+            tsconfigFiles = [tsconfigFile];
+            getEntrypoints = (programs) =>
+                this.getEntrypointsForPrograms(programs, this.entryPoints);
         }
 
-        // Support for packages mode is currently unimplemented
-        if (this.application.options.getValue("packages").length !== 0) {
-            this.logger.error(
-                'Running with "--packages" is not supported in watch mode.'
-            );
+        if (tsconfigFiles.length === 0) {
+            this.logger.error("No programs were found to watch.");
             return;
         }
 
-        // Matches the behavior of the tsconfig option reader.
-        let tsconfigFile = this.options.getValue("tsconfig");
-        tsconfigFile =
-            ts.findConfigFile(
-                tsconfigFile,
-                ts.sys.fileExists,
-                tsconfigFile.toLowerCase().endsWith(".json")
-                    ? basename(tsconfigFile)
-                    : undefined
-            ) ?? "tsconfig.json";
-
         // We don't want to do it the first time to preserve initial debug status messages. They'll be lost
         // after the user saves a file, but better than nothing...
         let firstStatusReport = true;
 
-        const host = ts.createWatchCompilerHost(
-            tsconfigFile,
-            { noEmit: !this.application.options.getValue("emit") },
-            ts.sys,
-            ts.createEmitAndSemanticDiagnosticsBuilderProgram,
-            (diagnostic) => this.logger.diagnostic(diagnostic),
-            (status, newLine, _options, errorCount) => {
-                if (
-                    !firstStatusReport &&
-                    errorCount === void 0 &&
-                    !this.options.getValue("preserveWatchOutput") &&
-                    this.logger instanceof ConsoleLogger
-                ) {
-                    ts.sys.clearScreen?.();
-                }
-                firstStatusReport = false;
-                this.logger.write(
-                    ts.flattenDiagnosticMessageText(status.messageText, newLine)
-                );
-            }
+        // The most recent program without errors for each tsconfig file. Conversion waits
+        // until every program has reported in at least once.
+        const programs: (ts.Program | undefined)[] = tsconfigFiles.map(
+            () => undefined
         );
-
+        let programsChanged = false;
         let successFinished = true;
-        let currentProgram: ts.Program | undefined;
 
         const runSuccess = () => {
-            if (!currentProgram) {
+            if (
+                !programsChanged ||
+                !successFinished ||
+                programs.some((program) => !program)
+            ) {
                 return;
             }
 
-            if (successFinished) {
-                this.logger.resetErrors();
-                const inputFiles = this.expandInputFiles(this.entryPoints);
-                const baseDir = getCommonDirectory(inputFiles);
-                const entrypoints = new Array<DocumentationEntrypoint>();
-                for (const file of inputFiles.map(normalizePath)) {
-                    const sourceFile = currentProgram.getSourceFile(file);
-                    if (sourceFile) {
-                        entrypoints.push({
-                            displayName: getModuleName(resolve(file), baseDir),
-                            path: file,
-                            sourceFile,
-                            program: currentProgram,
-                        });
-                    } else {
-                        this.application.logger.warn(
-                            `Unable to locate entry point: ${file} within the program defined by ${tsconfigFile}`
-                        );
-                    }
-                }
-                const project = this.converter.convert(entrypoints);
-                currentProgram = undefined;
-                successFinished = false;
-                success(project).then(() => {
+            this.logger.resetErrors();
+            const project = this.converter.convert(
+                getEntrypoints(programs as ts.Program[])
+            );
+            programsChanged = false;
+            successFinished = false;
+            success(project)
+                .catch((error) => {
+                    this.logger.error(
+                        `Failed to handle the converted project: ${
+                            error instanceof Error ? error.message : error
+                        }`
+                    );
+                })
+                .then(() => {
                     successFinished = true;
                     runSuccess();
                 });
-            }
         };
 
-        const origAfterProgramCreate = host.afterProgramCreate;
-        host.afterProgramCreate = (program) => {
-            if (ts.getPreEmitDiagnostics(program.getProgram()).length === 0) {
-                currentProgram = program.getProgram();
-                runSuccess();
-            }
-            origAfterProgramCreate?.(program);
-        };
+        tsconfigFiles.forEach((tsconfigFile, i) => {
+            const host = ts.createWatchCompilerHost(
+                tsconfigFile,
+                { noEmit: !this.application.options.getValue("emit") },
+                ts.sys,
+                ts.createEmitAndSemanticDiagnosticsBuilderProgram,
+                (diagnostic) => this.logger.diagnostic(diagnostic),
+                (status, newLine, _options, errorCount) => {
+                    if (
+                        !firstStatusReport &&
+                        errorCount === void 0 &&
+                        !this.options.getValue("preserveWatchOutput") &&
+                        this.logger instanceof ConsoleLogger
+                    ) {
+                        ts.sys.clearScreen?.();
+                    }
+                    firstStatusReport = false;
+                    this.logger.write(
+                        ts.flattenDiagnosticMessageText(
+                            status.messageText,
+                            newLine
+                        )
+                    );
+                }
+            );
+
+            // Not part of the public API, see createSharedCompilerHost. The sources of referenced
+            // projects are used as their declaration outputs might not have been built.
+            Object.assign(host, {
+                useSourceOfProjectReferenceRedirect: () => true,
+            });
 
-        ts.createWatchProgram(host);
+            const origAfterProgramCreate = host.afterProgramCreate;
+            host.afterProgramCreate = (program) => {
+                if (
+                    ts.getPreEmitDiagnostics(program.getProgram()).length === 0
+                ) {
+                    programs[i] = program.getProgram();
+                    programsChanged = true;
+                    runSuccess();
+                }
+                origAfterProgramCreate?.(program);
+            };
+
+            ts.createWatchProgram(host);
+        });
     }
 
     /**
@@ -521,6 +1033,270 @@ export class Application extends ChildableComponent<
         this.logger.success("JSON written to %s", out);
     }
 
+    /**
+     * Check the converted project for problems which don't prevent generating documentation,
+     * but likely make it less useful. Problems are reported through the logger.
+     *
+     * @returns The symbol links which could not be resolved, if `validateSymbolLinks` is set.
+     */
+    public validate(project: ProjectReflection): BrokenLink[] {
+        validateExports(
+            project,
+            this.logger,
+            this.options.getValue("intentionallyNotExported")
+        );
+        if (this.options.getValue("checkExamples")) {
+            this.checkExamples(project);
+        }
+        return validateLinks(
+            project,
+            this.logger,
+            this.options.getValue("validateSymbolLinks")
+        );
+    }
+
+    /**
+     * Type check the TypeScript code blocks in `@example` tags, the readme and included files
+     * against the entry points, and run them if `runExamples` is set.
+     *
+     * Examples are checked with the compiler options of the global tsconfig, so this is not
+     * supported for projects converted from packages, which each have their own program, or
+     * merged from JSON files.
+     */
+    public checkExamples(project: ProjectReflection) {
+        if (
+            this.options.getValue("packages").length ||
+            this.options.getValue("merge")
+        ) {
+            this.logger.error(
+                "The checkExamples option is not supported with the packages or merge options"
+            );
+            return;
+        }
+
+        const inputFiles = this.expandInputFiles(this.entryPoints);
+        const baseDir = getCommonDirectory(inputFiles);
+        const includes = this.options.getValue("includes");
+
+        checkExamples(project, this.logger, {
+            compilerOptions: this.options.getCompilerOptions(),
+            rootNames: this.options.getFileNames(),
+            entryPoints: inputFiles.map((fileName) => ({
+                displayName: getModuleName(Path.resolve(fileName), baseDir),
+                fileName: Path.resolve(fileName),
+            })),
+            readmeFile: this.findReadme(baseDir),
+            includes: includes ? Path.resolve(includes) : undefined,
+            run: this.options.getValue("runExamples"),
+        });
+    }
+
+    /**
+     * Find the readme of the project like the [[PackagePlugin]] does.
+     */
+    private findReadme(baseDir: string): string | undefined {
+        const readme = this.options.getValue("readme");
+        if (readme === "none") {
+            return;
+        }
+        if (readme) {
+            return FS.existsSync(readme) ? Path.resolve(readme) : undefined;
+        }
+
+        let dirName = Path.resolve(baseDir);
+        while (dirName !== Path.dirname(dirName)) {
+            const file = FS.readdirSync(dirName).find(
+                (file) => file.toLowerCase() === "readme.md"
+            );
+            if (file) {
+                return Path.join(dirName, file);
+            }
+            dirName = Path.dirname(dirName);
+        }
+    }
+
+    /**
+     * Log a summary of the documentation coverage of the project and write the coverage
+     * report if the `coverage` option is set.
+     *
+     * @returns false if the coverage is lower than the `coverageThreshold` option.
+     */
+    public async generateCoverage(
+        project: ProjectReflection
+    ): Promise<boolean> {
+        const report = getCoverage(project);
+        this.logger.log(
+            `Documentation coverage:\n${getCoverageSummary(report)}`,
+            LogLevel.Info
+        );
+
+        const out = this.options.getValue("coverage");
+        if (out) {
+            const path = Path.resolve(out);
+            ensureDirectoriesExist(Path.dirname(path));
+            await FS.promises.writeFile(
+                path,
+                path.toLowerCase().endsWith(".json")
+                    ? JSON.stringify(report, null, "\t")
+                    : getCoverageMarkdown(report)
+            );
+            this.logger.success("Coverage report written to %s", path);
+        }
+
+        const threshold = this.options.getValue("coverageThreshold");
+        const coverage = getCoveragePercent(report.total.reflections);
+        if (coverage < threshold) {
+            this.logger.error(
+                `Documentation coverage of ${coverage.toFixed(
+                    2
+                )}% is lower than the threshold of ${threshold}%`
+            );
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Write the report of the public API of the project to the file given by the `apiReport`
+     * option, or compare it with the existing file if the `checkApiReport` option is set.
+     *
+     * @returns false if the existing report is missing or out of date in check mode.
+     */
+    public async generateApiReport(
+        project: ProjectReflection
+    ): Promise<boolean> {
+        const out = this.options.getValue("apiReport");
+        if (!out) {
+            this.logger.error(
+                "The checkApiReport option requires the apiReport option to be set"
+            );
+            return false;
+        }
+
+        const path = Path.resolve(out);
+        const report = getApiReport(project);
+        if (this.options.getValue("checkApiReport")) {
+            const existing = FS.existsSync(path)
+                ? readFile(path).replace(/\r\n/g, "\n")
+                : undefined;
+            if (existing !== report) {
+                this.logger.error(
+                    `The API report ${path} is ${
+                        existing === undefined ? "missing" : "out of date"
+                    }, run TypeDoc without checkApiReport to update it`
+                );
+                return false;
+            }
+            return true;
+        }
+
+        ensureDirectoriesExist(Path.dirname(path));
+        await FS.promises.writeFile(path, report);
+        this.logger.success("API report written to %s", path);
+        return true;
+    }
+
+    /**
+     * Check the merged configuration for problems which would otherwise only be reported
+     * while converting, such as entry points or a readme which do not exist. Problems are
+     * reported through the logger, together with any reported while reading the options.
+     *
+     * @returns true if no errors have been reported.
+     */
+    public validateConfig(): boolean {
+        const entryPoints = this.options.getValue("entryPoints");
+        const packages = this.options.getValue("packages");
+        if (!entryPoints.length && !packages.length) {
+            this.logger.error("No entry points or packages provided");
+        }
+        for (const entryPoint of entryPoints) {
+            if (!FS.existsSync(entryPoint)) {
+                this.logger.error(
+                    `The entry point ${entryPoint} does not exist`
+                );
+            }
+        }
+        for (const packagePath of packages) {
+            // Paths containing globs are expanded like workspaces.
+            if (
+                !/[*?[\]{}]/.test(packagePath) &&
+                !FS.existsSync(Path.join(packagePath, "package.json"))
+            ) {
+                this.logger.error(
+                    `The package ${packagePath} does not contain a package.json file`
+                );
+            }
+        }
+
+        const readme = this.options.getValue("readme");
+        if (readme && readme !== "none" && !FS.existsSync(readme)) {
+            this.logger.error(`The readme file ${readme} does not exist`);
+        }
+        for (const name of ["includes", "media"] as const) {
+            const directory = this.options.getValue(name);
+            if (
+                directory &&
+                !(
+                    FS.existsSync(directory) &&
+                    FS.statSync(directory).isDirectory()
+                )
+            ) {
+                this.logger.error(
+                    `The ${name} directory ${directory} does not exist`
+                );
+            }
+        }
+
+        if (this.logger.hasErrors()) {
+            return false;
+        }
+        this.logger.success("The configuration is valid");
+        return true;
+    }
+
+    /**
+     * Write a JSON Schema for typedoc.json files to the given file, including the options
+     * declared by loaded plugins.
+     *
+     * @param out  The path of the schema file.
+     */
+    public async generateOptionsSchema(out: string): Promise<void> {
+        out = Path.resolve(out);
+        ensureDirectoriesExist(Path.dirname(out));
+        await FS.promises.writeFile(
+            out,
+            JSON.stringify(getOptionsSchema(this.options), null, "\t")
+        );
+        this.logger.success("Options schema written to %s", out);
+    }
+
+    /**
+     * Write a starter typedoc.json for the project in the given directory, guessing its
+     * entry points or packages, see [[getInitialConfig]].
+     *
+     * @param directory  The root directory of the project.
+     * @returns false if the directory already contains a TypeDoc config file.
+     */
+    public async generateConfig(directory = process.cwd()): Promise<boolean> {
+        const out = Path.join(directory, "typedoc.json");
+        const existing =
+            [out, Path.join(directory, "typedoc.js")].find((file) =>
+                FS.existsSync(file)
+            ) ?? findConfigModule(directory);
+        if (existing) {
+            this.logger.error(`The config file ${existing} already exists`);
+            return false;
+        }
+
+        const config = getInitialConfig(this.logger, directory);
+        await FS.promises.writeFile(
+            out,
+            JSON.stringify(config, null, "\t") + "\n"
+        );
+        this.logger.success("Config written to %s", out);
+        return true;
+    }
+
     /**
      * Expand a list of input files.
      *
@@ -596,51 +1372,68 @@ export class Application extends ChildableComponent<
     public getEntrypointsForPaths(
         entryPointPaths: string[]
     ): DocumentationEntrypoint[] {
+        const options = this.application.options.getCompilerOptions();
+        const projectReferences = this.application.options.getProjectReferences();
+        const sourceFiles = new Map<string, ts.SourceFile | undefined>();
         const rootProgram = ts.createProgram({
             rootNames: this.application.options.getFileNames(),
-            options: this.application.options.getCompilerOptions(),
-            projectReferences: this.application.options.getProjectReferences(),
+            options,
+            projectReferences,
+            host: createSharedCompilerHost(
+                ts.createCompilerHost(options),
+                sourceFiles
+            ),
         });
         const programs = new Array<ts.Program>();
-        programs.push(rootProgram);
-        // This might be a solution style tsconfig, in which case we need to add a program for each
-        // reference so that the converter can look through each of these.
-        if (rootProgram.getRootFileNames().length === 0) {
+        // This might be a solution style tsconfig, in which case the root program is empty.
+        if (rootProgram.getRootFileNames().length !== 0) {
+            programs.push(rootProgram);
+        }
+        // Add a program for each composite project in the reference graph so that the converter
+        // can look through each of these.
+        if (projectReferences.length !== 0) {
             this.logger.verbose(
-                "tsconfig appears to be a solution style tsconfig - creating programs for references"
+                "tsconfig has project references - creating programs for references"
+            );
+            programs.push(
+                ...createProgramsForReferences(projectReferences, sourceFiles)
             );
-            const resolvedReferences = rootProgram.getResolvedProjectReferences();
-            for (const ref of resolvedReferences ?? []) {
-                if (!ref) continue; // This indicates bad configuration... will be reported later.
-
-                programs.push(
-                    ts.createProgram({
-                        options: ref.commandLine.options,
-                        rootNames: ref.commandLine.fileNames,
-                        projectReferences: ref.commandLine.projectReferences,
-                    })
-                );
-            }
         }
+        return this.getEntrypointsForPrograms(programs, entryPointPaths);
+    }
+
+    /**
+     * Find the program which contains each of the given entry points.
+     */
+    private getEntrypointsForPrograms(
+        programs: readonly ts.Program[],
+        entryPointPaths: string[]
+    ): DocumentationEntrypoint[] {
         const inputFiles = this.expandInputFiles(entryPointPaths);
         const baseDir = getCommonDirectory(inputFiles);
         const entrypoints = new Array<DocumentationEntrypoint>();
-        entryLoop: for (const file of inputFiles.map(normalizePath)) {
-            for (const program of programs) {
-                const sourceFile = program.getSourceFile(file);
-                if (sourceFile) {
-                    entrypoints.push({
-                        displayName: getModuleName(resolve(file), baseDir),
-                        path: file,
-                        sourceFile,
-                        program,
-                    });
-                    continue entryLoop;
-                }
+        for (const file of inputFiles.map(normalizePath)) {
+            // Prefer the program of the project which owns the file, other programs might
+            // only include it because they reference that project.
+            const program =
+                programs.find((program) =>
+                    program
+                        .getRootFileNames()
+                        .some((root) => normalizePath(resolve(root)) === file)
+                ) ?? programs.find((program) => program.getSourceFile(file));
+            const sourceFile = program?.getSourceFile(file);
+            if (program && sourceFile) {
+                entrypoints.push({
+                    displayName: getModuleName(resolve(file), baseDir),
+                    path: file,
+                    sourceFile,
+                    program,
+                });
+            } else {
+                this.application.logger.warn(
+                    `Unable to locate entry point: ${file}`
+                );
             }
-            this.application.logger.warn(
-                `Unable to locate entry point: ${file}`
-            );
         }
         return entrypoints;
     }
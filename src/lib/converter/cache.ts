@@ -0,0 +1,166 @@
+import * as ts from "typescript";
+import * as FS from "fs";
+import { createHash } from "crypto";
+import { join } from "path";
+
+import type { DocumentationEntrypoint } from "./converter";
+import type { Reflection } from "../models/index";
+import type { JSONOutput } from "../serialization/index";
+import { readFile, writeFile } from "../utils/fs";
+import { resolveAliasedSymbol } from "./utils/symbols";
+
+/**
+ * The contents of a cache file, the reflections converted for a single entry point
+ * before the project was resolved.
+ */
+export interface CacheEntry {
+    module: JSONOutput.DeclarationReflection | JSONOutput.ProjectReflection;
+    /**
+     * The names leading from the project to each reflection which the module refers to
+     * but does not contain, by the id the reflection had when the module was cached.
+     */
+    externals: Record<number, string[]>;
+}
+
+const programHashes = new WeakMap<ts.Program, string>();
+
+function getProgramHash(program: ts.Program) {
+    let result = programHashes.get(program);
+    if (result === undefined) {
+        const hash = createHash("sha256");
+        const files = program
+            .getSourceFiles()
+            .filter((file) => !program.isSourceFileDefaultLibrary(file))
+            .sort((a, b) => a.fileName.localeCompare(b.fileName));
+        for (const file of files) {
+            hash.update(file.fileName);
+            hash.update("\0");
+            hash.update(file.text);
+            hash.update("\0");
+        }
+        hash.update(JSON.stringify(program.getCompilerOptions()));
+        result = hash.digest("hex");
+        programHashes.set(program, result);
+    }
+    return result;
+}
+
+/**
+ * Get the key an entry point's reflections are cached under. The key changes whenever any
+ * source file in the entry point's program or the compiler options change, as well as
+ * whenever the given data changes.
+ *
+ * @param entryPoint  The entry point to get a key for.
+ * @param data  Any other JSON data the converted reflections depend on.
+ */
+export function getCacheKey(
+    entryPoint: DocumentationEntrypoint,
+    data: unknown
+): string {
+    return createHash("sha256")
+        .update(getProgramHash(entryPoint.program))
+        .update(
+            JSON.stringify([
+                entryPoint.displayName,
+                entryPoint.path,
+                entryPoint.options,
+                data,
+            ])
+        )
+        .digest("hex");
+}
+
+/**
+ * Read the cache entry stored under the given key, if there is a readable one.
+ */
+export function readCacheEntry(
+    cacheDir: string,
+    key: string
+): CacheEntry | undefined {
+    const file = join(cacheDir, `${key}.json`);
+    if (!FS.existsSync(file)) {
+        return;
+    }
+    try {
+        return JSON.parse(readFile(file));
+    } catch {
+        // A corrupted entry is treated like a missing one and overwritten.
+        return;
+    }
+}
+
+export function writeCacheEntry(
+    cacheDir: string,
+    key: string,
+    entry: CacheEntry,
+    onError: (message: string) => void
+) {
+    writeFile(
+        join(cacheDir, `${key}.json`),
+        JSON.stringify(entry),
+        false,
+        onError
+    );
+}
+
+/**
+ * Remove all cache entries from the given directory.
+ */
+export function clearCache(cacheDir: string) {
+    if (!FS.existsSync(cacheDir)) {
+        return;
+    }
+    for (const file of FS.readdirSync(cacheDir)) {
+        if (file.endsWith(".json")) {
+            FS.unlinkSync(join(cacheDir, file));
+        }
+    }
+}
+
+/**
+ * Get the names leading from the project to the given reflection.
+ */
+export function getReflectionPath(reflection: Reflection): string[] {
+    const path: string[] = [];
+    for (
+        let current: Reflection | undefined = reflection;
+        current && !current.isProject();
+        current = current.parent
+    ) {
+        path.unshift(current.name);
+    }
+    return path;
+}
+
+/**
+ * Find the symbol of the declaration reached by following the given names from a module.
+ *
+ * @param checker  The type checker of the program containing the module.
+ * @param symbol  The symbol of the module.
+ * @param path  The names of the declarations leading from the module to the wanted symbol.
+ */
+export function getSymbolForPath(
+    checker: ts.TypeChecker,
+    symbol: ts.Symbol,
+    path: readonly string[]
+): ts.Symbol | undefined {
+    let current: ts.Symbol | undefined = symbol;
+    for (const name of path) {
+        if (!current) {
+            return;
+        }
+        current = resolveAliasedSymbol(current, checker);
+
+        if (current.flags & ts.SymbolFlags.Module) {
+            current = checker
+                .getExportsOfModule(current)
+                .find((child) => child.name === name);
+        } else {
+            const escapedName = ts.escapeLeadingUnderscores(name);
+            current =
+                current.members?.get(escapedName) ??
+                current.exports?.get(escapedName);
+        }
+    }
+    return current;
+}
@@ -1,13 +1,21 @@
 import * as ts from "typescript";
 import * as _ from "lodash";
-import * as assert from "assert";
+import * as Path from "path";
 
 import { Application } from "../application";
-import { Type, ProjectReflection, ReflectionKind } from "../models/index";
+import {
+    Type,
+    DeclarationReflection,
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+} from "../models/index";
 import { Context } from "./context";
 import { ConverterComponent } from "./components";
 import { Component, ChildableComponent } from "../utils/component";
 import { BindOption } from "../utils";
+import type { PackageOptions } from "../utils/package-manifest";
+import type { TypeDocOptionValues } from "../utils/options/declaration";
 import { convertType } from "./types";
 import { ConverterEvents } from "./converter-events";
 import { convertSymbol } from "./symbols";
@@ -15,12 +23,36 @@ import { createMinimatch } from "../utils/paths";
 import { IMinimatch } from "minimatch";
 import { hasAllFlags, hasAnyFlag } from "../utils/enum";
 import { resolveAliasedSymbol } from "./utils/symbols";
+import {
+    CacheEntry,
+    clearCache,
+    getCacheKey,
+    getReflectionPath,
+    getSymbolForPath,
+    readCacheEntry,
+    writeCacheEntry,
+} from "./cache";
 
 export interface DocumentationEntrypoint {
     displayName: string;
     path: string;
     program: ts.Program;
     sourceFile: ts.SourceFile;
+    /** The options overridden by the package of the entry point in packages mode. */
+    options?: PackageOptions;
+}
+
+/**
+ * The state of an entry point while it is being compiled.
+ */
+interface CompileEntry {
+    entryPoint: DocumentationEntrypoint;
+    cacheKey?: string;
+    cached?: CacheEntry;
+    /** Set if the entry point was converted, rather than revived from the cache. */
+    context?: Context;
+    /** The reflection the entry point was converted to. */
+    module?: Reflection;
 }
 
 /**
@@ -57,6 +89,17 @@ export class Converter extends ChildableComponent<
     @BindOption("excludeProtected")
     excludeProtected!: boolean;
 
+    @BindOption("cacheDir")
+    cacheDir!: string;
+
+    @BindOption("clearCache")
+    clearCache!: boolean;
+
+    /**
+     * The options overridden by packages, by the reflection their entry point was converted to.
+     */
+    private packageOptions = new Map<Reflection, PackageOptions>();
+
     /**
      * General events
      */
@@ -146,6 +189,11 @@ export class Converter extends ChildableComponent<
     ): ProjectReflection {
         const programs = entryPoints.map((e) => e.program);
         this.externalPatternCache = void 0;
+        this.packageOptions.clear();
+
+        if (this.cacheDir && this.clearCache) {
+            clearCache(Path.resolve(this.cacheDir));
+        }
 
         const project = new ProjectReflection(this.name);
         const context = new Context(this, programs, project);
@@ -264,41 +312,255 @@ export class Converter extends ChildableComponent<
         entryPoints: readonly DocumentationEntrypoint[],
         context: Context
     ) {
-        const entries = entryPoints.map((e) => {
+        const cacheDir = this.cacheDir && Path.resolve(this.cacheDir);
+        const cacheData = this.getCacheData(entryPoints.length === 1);
+        const entries: CompileEntry[] = entryPoints.map((e) => {
+            const cacheKey = cacheDir ? getCacheKey(e, cacheData) : undefined;
             return {
                 entryPoint: e,
-                context: undefined as Context | undefined,
+                cacheKey,
+                cached: cacheKey ? readCacheEntry(cacheDir, cacheKey) : void 0,
             };
         });
         entries.forEach((e) => {
+            if (e.cached) {
+                return;
+            }
             context.setActiveProgram(e.entryPoint.program);
             e.context = this.convertExports(
                 context,
-                e.entryPoint.sourceFile,
-                entries.length === 1,
-                e.entryPoint.displayName
+                e.entryPoint,
+                entries.length === 1
             );
+            e.module = e.context.scope;
         });
+
+        // Cached modules are revived before converting re-exports so that re-exports of
+        // their reflections are converted to references rather than copies.
+        if (entries.some((e) => e.cached)) {
+            const resolvePath = this.getPathResolver(context, entries);
+            for (const e of entries) {
+                if (e.cached) {
+                    e.module = this.reviveCacheEntry(
+                        context,
+                        e.entryPoint,
+                        e.cached,
+                        resolvePath
+                    );
+                    if (e.entryPoint.options) {
+                        this.packageOptions.set(e.module, e.entryPoint.options);
+                    }
+                }
+            }
+            const modules = entries.map((e) => e.module);
+            context.project.children?.sort(
+                (a, b) => modules.indexOf(a) - modules.indexOf(b)
+            );
+        }
+
         for (const { entryPoint, context } of entries) {
-            // active program is already set on context
-            assert(context);
-            this.convertReExports(context, entryPoint.sourceFile);
+            if (context) {
+                // active program is already set on context
+                this.convertReExports(context, entryPoint.sourceFile);
+            }
+        }
+        context.setActiveProgram(undefined);
+
+        for (const { cacheKey, context } of entries) {
+            if (cacheKey && context) {
+                writeCacheEntry(
+                    cacheDir,
+                    cacheKey,
+                    this.createCacheEntry(context),
+                    (message) =>
+                        this.application.logger.warn(
+                            `Failed to write to the cache: ${message}`
+                        )
+                );
+            }
+        }
+    }
+
+    /**
+     * Get the data, besides the entry point's program, which converted reflections depend on.
+     */
+    private getCacheData(singleEntryPoint: boolean) {
+        const {
+            cacheDir: _cacheDir,
+            clearCache: _clearCache,
+            ...options
+        } = this.application.options.getRawValues();
+        return [Application.VERSION, singleEntryPoint, options];
+    }
+
+    /**
+     * Get a function which finds the symbol of the reflection at a path created by
+     * [[getReflectionPath]].
+     */
+    private getPathResolver(
+        context: Context,
+        entries: readonly CompileEntry[]
+    ): (path: readonly string[]) => ts.Symbol | undefined {
+        const roots = new Map<
+            string,
+            { checker: ts.TypeChecker; symbol: ts.Symbol }
+        >();
+        for (const { entryPoint, module, cached } of entries) {
+            context.setActiveProgram(entryPoint.program);
+            const symbol = getSymbolForModuleLike(
+                context,
+                entryPoint.sourceFile
+            );
+            if (symbol) {
+                roots.set(module?.name ?? cached!.module.name, {
+                    checker: context.checker,
+                    symbol,
+                });
+            }
+        }
+        context.setActiveProgram(undefined);
+
+        if (entries.length === 1) {
+            // Paths start with the declarations exported from the only entry point.
+            const [root] = roots.values();
+            return (path) =>
+                root && getSymbolForPath(root.checker, root.symbol, path);
+        }
+
+        return ([name, ...path]) => {
+            const root = roots.get(name);
+            return root && getSymbolForPath(root.checker, root.symbol, path);
+        };
+    }
+
+    /**
+     * Revive the reflections of a cached entry point into the project.
+     *
+     * @returns The reflection created for the entry point.
+     */
+    private reviveCacheEntry(
+        context: Context,
+        entryPoint: DocumentationEntrypoint,
+        cached: CacheEntry,
+        resolvePath: (path: readonly string[]) => ts.Symbol | undefined
+    ): Reflection {
+        this.application.logger.verbose(
+            `Using cached reflections for ${entryPoint.displayName}`
+        );
+
+        const externals = new Map<number, ts.Symbol | undefined>();
+        for (const [id, path] of Object.entries(cached.externals)) {
+            externals.set(Number(id), resolvePath(path));
+        }
+
+        const reflections = this.application.deserializer.reviveModule(
+            context.project,
+            cached.module,
+            externals
+        );
+
+        // Register symbols so that references from converted reflections to revived
+        // reflections can be resolved.
+        context.setActiveProgram(entryPoint.program);
+        for (const reflection of reflections) {
+            if (
+                !reflection.isProject() &&
+                !(reflection instanceof DeclarationReflection)
+            ) {
+                continue;
+            }
+            const symbol = resolvePath(getReflectionPath(reflection));
+            if (!symbol) {
+                continue;
+            }
+            if (reflection.kindOf(ReflectionKind.Reference)) {
+                // References created for re-exports from other files are found with the
+                // symbol of the export in that file, which must not be registered for them.
+                if (
+                    symbol
+                        .getDeclarations()
+                        ?.some(
+                            (d) => d.getSourceFile() === entryPoint.sourceFile
+                        )
+                ) {
+                    context.registerReflection(reflection, symbol);
+                }
+            } else {
+                context.registerReflection(reflection, symbol);
+                context.registerReflection(
+                    reflection,
+                    context.resolveAliasedSymbol(symbol)
+                );
+            }
         }
         context.setActiveProgram(undefined);
+
+        return reflections[0];
+    }
+
+    /**
+     * Serialize the reflections converted for an entry point, recording the paths of
+     * the reflections outside of the module which they refer to.
+     */
+    private createCacheEntry({ project, scope: module }: Context): CacheEntry {
+        const serialized = this.application.serializer.toObject(
+            module
+        ) as CacheEntry["module"];
+
+        const externals: CacheEntry["externals"] = {};
+        const addExternal = (id: number) => {
+            const target = project.getReflectionById(id);
+            if (!target || id in externals) {
+                return;
+            }
+            for (
+                let current: Reflection | undefined = target;
+                current;
+                current = current.parent
+            ) {
+                if (current === module) {
+                    return;
+                }
+            }
+            externals[id] = getReflectionPath(target);
+        };
+
+        (function walk(value: unknown) {
+            if (Array.isArray(value)) {
+                value.forEach(walk);
+            } else if (typeof value === "object" && value !== null) {
+                const obj = value as Record<string, unknown>;
+                if (obj.type === "reference" && typeof obj.id === "number") {
+                    addExternal(obj.id);
+                }
+                if (
+                    obj.kind === ReflectionKind.Reference &&
+                    typeof obj.target === "number"
+                ) {
+                    addExternal(obj.target);
+                }
+                Object.values(obj).forEach(walk);
+            }
+        })(serialized);
+
+        return { module: serialized, externals };
     }
 
     private convertExports(
         context: Context,
-        node: ts.SourceFile,
-        singleEntryPoint: boolean,
-        entryName: string
+        entryPoint: DocumentationEntrypoint,
+        singleEntryPoint: boolean
     ) {
+        const node = entryPoint.sourceFile;
         const symbol = getSymbolForModuleLike(context, node);
         let moduleContext: Context;
 
         if (singleEntryPoint) {
             // Special case for when we're giving a single entry point, we don't need to
             // create modules for each entry. Register the project as this module.
+            if (entryPoint.options) {
+                this.packageOptions.set(context.project, entryPoint.options);
+            }
             context.project.registerReflection(context.project, symbol);
             context.trigger(
                 Converter.EVENT_CREATE_DECLARATION,
@@ -311,8 +573,13 @@ export class Converter extends ChildableComponent<
                 ReflectionKind.Module,
                 symbol,
                 void 0,
-                entryName
+                entryPoint.displayName
             );
+            // Registered before the module is finalized so that its comment already
+            // sees the options of the package.
+            if (entryPoint.options) {
+                this.packageOptions.set(reflection, entryPoint.options);
+            }
             context.finalizeDeclarationReflection(
                 reflection,
                 symbol,
@@ -361,6 +628,34 @@ export class Converter extends ChildableComponent<
         this.trigger(Converter.EVENT_RESOLVE_END, context);
     }
 
+    /**
+     * Get the options overridden by the package which was converted to the given reflection.
+     * Only set for modules and, if a single package is converted, the project.
+     */
+    getPackageOptions(reflection: Reflection): PackageOptions | undefined {
+        return this.packageOptions.get(reflection);
+    }
+
+    /**
+     * Get the value of an option for a reflection, taking the overrides of the package
+     * the reflection belongs to into account.
+     *
+     * @param name  The name of an option packages may override.
+     * @param reflection  The reflection the option applies to.
+     */
+    getOptionValue<K extends keyof PackageOptions>(
+        name: K,
+        reflection: Reflection | undefined
+    ): TypeDocOptionValues[K] {
+        for (let owner = reflection; owner; owner = owner.parent) {
+            const options = this.packageOptions.get(owner);
+            if (options?.[name] !== undefined) {
+                return options[name] as TypeDocOptionValues[K];
+            }
+        }
+        return this.application.options.getValue(name);
+    }
+
     /** @internal */
     shouldIgnore(symbol: ts.Symbol, checker: ts.TypeChecker) {
         if (
@@ -197,7 +197,12 @@ export function parseComment(
     text: string,
     comment: Comment = new Comment()
 ): Comment {
-    let currentTag: CommentTag;
+    // The texts are collected before being set on the comment and its tags, as setting a
+    // text splits it into parts.
+    let abstract = comment.shortText;
+    let body = comment.text;
+    const tags: { tagName: string; paramName?: string; text: string }[] = [];
+    let currentTag: typeof tags[number] | undefined;
     let shortText = 0;
 
     function consumeTypeData(line: string): string {
@@ -215,10 +220,9 @@ export function parseComment(
             shortText = 2;
         } else {
             if (shortText === 2) {
-                comment.text += (comment.text === "" ? "" : "\n") + line;
+                body += (body === "" ? "" : "\n") + line;
             } else {
-                comment.shortText +=
-                    (comment.shortText === "" ? "" : "\n") + line;
+                abstract += (abstract === "" ? "" : "\n") + line;
                 shortText = 1;
             }
         }
@@ -250,8 +254,8 @@ export function parseComment(
             line = consumeTypeData(line);
         }
 
-        currentTag = new CommentTag(tagName, paramName, line);
-        comment.tags.push(currentTag);
+        currentTag = { tagName, paramName, text: line };
+        tags.push(currentTag);
     }
 
     const CODE_FENCE = /^\s*```(?!.*```)/;
@@ -284,5 +288,10 @@ export function parseComment(
     text = text.replace(/\*+\/\s*$/, "");
     text.split(/\r\n?|\n/).forEach(readLine);
 
+    comment.shortText = abstract;
+    comment.text = body;
+    for (const tag of tags) {
+        comment.tags.push(new CommentTag(tag.tagName, tag.paramName, tag.text));
+    }
     return comment;
 }
@@ -44,6 +44,7 @@ export function convertIndexSignature(context: Context, symbol: ts.Symbol) {
             indexDeclaration.type
         );
         context.registerReflection(index, indexSymbol);
+        context.registerReflection(index.parameters[0], void 0);
         context.scope.indexSignature = index;
 
         context.trigger(
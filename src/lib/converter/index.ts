@@ -1,6 +1,10 @@
 export { Context } from "./context";
 export { Converter } from "./converter";
 export type { DocumentationEntrypoint } from "./converter";
+export type {
+    SourceLinkProvider,
+    SourceLinkRemote,
+} from "./utils/source-links";
 
 export { convertDefaultValue, convertExpression } from "./convert-expression";
 
@@ -21,9 +21,6 @@ export class CategoryPlugin extends ConverterComponent {
     @BindOption("defaultCategory")
     defaultCategory!: string;
 
-    @BindOption("categoryOrder")
-    categoryOrder!: string[];
-
     @BindOption("categorizeByGroup")
     categorizeByGroup!: boolean;
 
@@ -55,9 +52,6 @@ export class CategoryPlugin extends ConverterComponent {
         if (this.defaultCategory) {
             CategoryPlugin.defaultCategory = this.defaultCategory;
         }
-        if (this.categoryOrder) {
-            CategoryPlugin.WEIGHTS = this.categoryOrder;
-        }
     }
 
     /**
@@ -83,6 +77,11 @@ export class CategoryPlugin extends ConverterComponent {
     }
 
     private categorize(obj: ContainerReflection) {
+        // Packages may order their categories differently.
+        CategoryPlugin.WEIGHTS = this.owner.getOptionValue(
+            "categoryOrder",
+            obj
+        );
         if (this.categorizeByGroup) {
             this.groupCategorize(obj);
         } else {
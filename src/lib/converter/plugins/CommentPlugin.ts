@@ -1,12 +1,19 @@
 import * as ts from "typescript";
 
-import { Comment, CommentTag } from "../../models/comments/index";
+import {
+    Comment,
+    CommentTag,
+    parseSeeTag,
+    parseThrowsTag,
+} from "../../models/comments/index";
 import {
     Reflection,
     ReflectionFlag,
     ReflectionKind,
     TypeParameterReflection,
     DeclarationReflection,
+    ReleaseStage,
+    getReleaseStage,
 } from "../../models/reflections/index";
 import { Component, ConverterComponent } from "../components";
 import { parseComment, getRawComment } from "../factories/comment";
@@ -14,7 +21,7 @@ import { Converter } from "../converter";
 import { Context } from "../context";
 import { partition, uniq } from "lodash";
 import { SourceReference } from "../../models";
-import { BindOption, filterMap, removeIfPresent } from "../../utils";
+import { filterMap, removeIfPresent } from "../../utils";
 
 /**
  * These tags are not useful to display in the generated documentation.
@@ -38,14 +45,35 @@ const TAG_BLACKLIST = [
     "typedef",
 ];
 
+/**
+ * The tags which mark the release stage of a reflection, `@internal` is handled separately
+ * as it is also used by the `excludeInternal` option. `@public` marks the public stage,
+ * which is the stage of reflections without a flag.
+ */
+const RELEASE_STAGE_TAGS: [string, ReflectionFlag][] = [
+    ["alpha", ReflectionFlag.Alpha],
+    ["beta", ReflectionFlag.Beta],
+    ["experimental", ReflectionFlag.Experimental],
+];
+
+/**
+ * Flags which are set on declarations if they are set on all of their signatures.
+ */
+const SIGNATURE_FLAGS = [
+    ReflectionFlag.Deprecated,
+    ...RELEASE_STAGE_TAGS.map(([, flag]) => flag),
+];
+
 /**
  * A handler that parses TypeDoc comments and attaches [[Comment]] instances to
  * the generated reflections.
  */
 @Component({ name: "comment" })
 export class CommentPlugin extends ConverterComponent {
-    @BindOption("excludeTags")
-    excludeTags!: string[];
+    /**
+     * Reflections marked with `@public`, they do not inherit the release stage of their parents.
+     */
+    private publicReleases = new WeakSet<Reflection>();
 
     /**
      * Create a new CommentPlugin instance.
@@ -85,12 +113,28 @@ export class CommentPlugin extends ConverterComponent {
 
         if (comment.hasTag("public")) {
             reflection.setFlag(ReflectionFlag.Public);
+            this.publicReleases.add(reflection);
             if (reflection.kindOf(ReflectionKind.CallSignature)) {
                 reflection.parent?.setFlag(ReflectionFlag.Public);
+                if (reflection.parent) {
+                    this.publicReleases.add(reflection.parent);
+                }
             }
             comment.removeTags("public");
         }
 
+        for (const [tagName, flag] of RELEASE_STAGE_TAGS) {
+            if (comment.hasTag(tagName)) {
+                reflection.setFlag(flag);
+                comment.removeTags(tagName);
+            }
+        }
+
+        // The tag is kept so that the reason for the deprecation is still displayed.
+        if (comment.hasTag("deprecated")) {
+            reflection.setFlag(ReflectionFlag.Deprecated);
+        }
+
         if (comment.hasTag("event")) {
             if (reflection.kindOf(ReflectionKind.CallSignature)) {
                 if (reflection.parent) {
@@ -177,6 +221,17 @@ export class CommentPlugin extends ConverterComponent {
 
         const comment = parseComment(rawComment, reflection.comment);
 
+        // TypeScript also finds @deprecated tags in the comments of enclosing nodes,
+        // like the variable statement of a variable declaration.
+        if (
+            [exportNode, node].some(
+                (declaration) =>
+                    declaration && ts.getJSDocDeprecatedTag(declaration)
+            )
+        ) {
+            reflection.setFlag(ReflectionFlag.Deprecated);
+        }
+
         if (reflection.kindOf(ReflectionKind.Module)) {
             const tag = comment.getTag("module");
             if (tag) {
@@ -191,7 +246,8 @@ export class CommentPlugin extends ConverterComponent {
         }
 
         this.applyModifiers(reflection, comment);
-        this.removeExcludedTags(comment);
+        this.removeExcludedTags(comment, reflection);
+        CommentPlugin.moveStructuredTags(comment);
         reflection.comment = comment;
     }
 
@@ -204,23 +260,31 @@ export class CommentPlugin extends ConverterComponent {
         const excludeInternal = this.application.options.getValue(
             "excludeInternal"
         );
-        const excludePrivate = this.application.options.getValue(
-            "excludePrivate"
-        );
         const excludeProtected = this.application.options.getValue(
             "excludeProtected"
         );
+        const excludeDeprecated = this.application.options.getValue(
+            "excludeDeprecated"
+        );
+        const releaseStage = this.application.options.getValue("releaseStage");
 
         const project = context.project;
         const reflections = Object.values(project.reflections);
 
+        reflections.forEach(CommentPlugin.applySignatureFlags);
+        reflections.forEach((reflection) =>
+            this.inheritReleaseStage(reflection)
+        );
+
         // Remove hidden reflections
         const hidden = reflections.filter((reflection) =>
             CommentPlugin.isHidden(
                 reflection,
                 excludeInternal,
-                excludePrivate,
-                excludeProtected
+                this.owner.getOptionValue("excludePrivate", reflection),
+                excludeProtected,
+                excludeDeprecated,
+                releaseStage
             )
         );
         hidden.forEach((reflection) => project.removeReflection(reflection));
@@ -291,6 +355,8 @@ export class CommentPlugin extends ConverterComponent {
                     childComment.text = childComment.text || comment.text;
                     childComment.returns =
                         childComment.returns || comment.returns;
+                    childComment.see = childComment.see || comment.see;
+                    childComment.throws = childComment.throws || comment.throws;
                     childComment.tags = childComment.tags || comment.tags;
                 }
 
@@ -316,15 +382,107 @@ export class CommentPlugin extends ConverterComponent {
         }
     }
 
-    private removeExcludedTags(comment: Comment) {
+    private removeExcludedTags(comment: Comment, reflection: Reflection) {
         for (const tag of TAG_BLACKLIST) {
             comment.removeTags(tag);
         }
-        for (const tag of this.excludeTags) {
+        for (const tag of this.owner.getOptionValue(
+            "excludeTags",
+            reflection
+        )) {
             comment.removeTags(tag);
         }
     }
 
+    /**
+     * Parse the `@see` and `@throws` tags of the given comment into [[Comment.see]]
+     * and [[Comment.throws]], removing them from the tags.
+     *
+     * @param comment  The comment whose tags should be moved.
+     */
+    private static moveStructuredTags(comment: Comment) {
+        const see = comment.tags.filter((tag) => tag.tagName === "see");
+        if (see.length) {
+            comment.see = see.map((tag) => parseSeeTag(tag.text));
+            comment.removeTags("see");
+        }
+
+        const throws = comment.tags.filter(
+            (tag) => tag.tagName === "throws" || tag.tagName === "exception"
+        );
+        if (throws.length) {
+            comment.throws = throws.map((tag) => parseThrowsTag(tag.text));
+            comment.removeTags("throws");
+            comment.removeTags("exception");
+        }
+    }
+
+    /**
+     * Set the flags which are set on every signature of the given declaration on the
+     * declaration. Overloaded functions are only deprecated, or in a release stage, if
+     * every overload is.
+     *
+     * @param reflection  The reflection whose flags should be updated.
+     */
+    private static applySignatureFlags(reflection: Reflection) {
+        if (!(reflection instanceof DeclarationReflection)) {
+            return;
+        }
+
+        const overloads = reflection
+            .getAllSignatures()
+            .filter(
+                (signature) => !signature.kindOf(ReflectionKind.IndexSignature)
+            );
+        for (const flag of SIGNATURE_FLAGS) {
+            if (
+                overloads.length &&
+                overloads.every((signature) => signature.flags.hasFlag(flag))
+            ) {
+                reflection.setFlag(flag);
+            }
+        }
+    }
+
+    /**
+     * Apply the release stage of the parents of the given declaration to it, if the
+     * parents are less stable than the declaration. Parents above a reflection marked
+     * with `@public` are not considered.
+     *
+     * @param reflection  The reflection whose release stage should be updated.
+     */
+    private inheritReleaseStage(reflection: Reflection) {
+        if (
+            !(reflection instanceof DeclarationReflection) ||
+            this.publicReleases.has(reflection)
+        ) {
+            return;
+        }
+
+        const hasStageFlag = (refl: Reflection) =>
+            RELEASE_STAGE_TAGS.some(([, flag]) => refl.flags.hasFlag(flag));
+
+        let leastStable: Reflection = reflection;
+        for (
+            let parent = reflection.parent;
+            parent && !this.publicReleases.has(parent);
+            parent = parent.parent
+        ) {
+            if (
+                hasStageFlag(parent) &&
+                getReleaseStage(parent) < getReleaseStage(leastStable)
+            ) {
+                leastStable = parent;
+            }
+        }
+
+        if (leastStable !== reflection) {
+            for (const [, flag] of RELEASE_STAGE_TAGS) {
+                reflection.setFlag(flag, leastStable.flags.hasFlag(flag));
+            }
+        }
+    }
+
     /**
      * Determines whether or not a reflection has been hidden
      *
@@ -334,7 +492,9 @@ export class CommentPlugin extends ConverterComponent {
         reflection: Reflection,
         excludeInternal: boolean,
         excludePrivate: boolean,
-        excludeProtected: boolean
+        excludeProtected: boolean,
+        excludeDeprecated: boolean,
+        releaseStage: ReleaseStage
     ) {
         const comment = reflection.comment;
 
@@ -352,6 +512,17 @@ export class CommentPlugin extends ConverterComponent {
             return true;
         }
 
+        if (
+            reflection.flags.hasFlag(ReflectionFlag.Deprecated) &&
+            excludeDeprecated
+        ) {
+            return true;
+        }
+
+        if (getReleaseStage(reflection) < releaseStage) {
+            return true;
+        }
+
         if (!comment) {
             return false;
         }
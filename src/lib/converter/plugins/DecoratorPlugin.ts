@@ -11,11 +11,6 @@ import { Context } from "../context";
  */
 @Component({ name: "decorator" })
 export class DecoratorPlugin extends ConverterComponent {
-    /**
-     * Defined in this.onBegin
-     */
-    private readonly usages = new Map<ts.Symbol, ReferenceType[]>();
-
     /**
      * Create a new ImplementsPlugin instance.
      */
@@ -23,8 +18,7 @@ export class DecoratorPlugin extends ConverterComponent {
         this.listenTo(this.owner, {
             [Converter.EVENT_CREATE_DECLARATION]: this.onDeclaration,
             [Converter.EVENT_CREATE_PARAMETER]: this.onDeclaration,
-            [Converter.EVENT_RESOLVE]: this.onBeginResolve,
-            [Converter.EVENT_END]: () => this.usages.clear(),
+            [Converter.EVENT_RESOLVE_BEGIN]: this.onBeginResolve,
         });
     }
 
@@ -106,16 +100,6 @@ export class DecoratorPlugin extends ConverterComponent {
                         );
                     }
                 }
-
-                const usages = this.usages.get(type.symbol) ?? [];
-                usages.push(
-                    new ReferenceType(
-                        reflection.name,
-                        reflection,
-                        context.project
-                    )
-                );
-                this.usages.set(type.symbol, usages);
             }
 
             reflection.decorators ??= [];
@@ -123,11 +107,31 @@ export class DecoratorPlugin extends ConverterComponent {
         });
     }
 
+    /**
+     * Triggered when the converter begins resolving a project.
+     *
+     * Lists the usages of each decorator. This is done from the decorators of all reflections
+     * rather than while converting so that reflections revived from the cache are included.
+     *
+     * @param context  The context object describing the current state the converter is in.
+     */
     private onBeginResolve(context: Context) {
-        for (const [symbol, ref] of this.usages) {
-            const reflection = context.project.getReflectionFromSymbol(symbol);
-            if (reflection) {
-                reflection.decorates = ref;
+        for (const reflection of Object.values(context.project.reflections)) {
+            for (const decorator of reflection.decorators ?? []) {
+                const target =
+                    decorator.type instanceof ReferenceType
+                        ? decorator.type.reflection
+                        : undefined;
+                if (target) {
+                    target.decorates ??= [];
+                    target.decorates.push(
+                        new ReferenceType(
+                            reflection.name,
+                            reflection,
+                            context.project
+                        )
+                    );
+                }
             }
         }
     }
@@ -7,6 +7,13 @@ import { BasePath } from "../utils/base-path";
 import { Converter } from "../converter";
 import { Context } from "../context";
 import { BindOption } from "../../utils";
+import {
+    createTemplateProvider,
+    defaultSourceLinkProviders,
+    GitHubProvider,
+    SourceLinkProvider,
+    SourceLinkRemote,
+} from "../utils/source-links";
 
 /**
  * Stores data of a repository.
@@ -27,15 +34,38 @@ export class Repository {
      */
     files: string[] = [];
 
+    /**
+     * The provider which builds links to the hosting service of the repository.
+     */
+    provider?: SourceLinkProvider;
+
+    /**
+     * The parts of the remote URL matched by [[provider]].
+     */
+    remote?: SourceLinkRemote;
+
     /**
      * The user/organization name of this repository on GitHub.
+     *
+     * @deprecated Will be removed in v0.21. Use [[remote]] instead, which is also set for
+     *   repositories hosted elsewhere.
      */
-    gitHubUser?: string;
+    get gitHubUser(): string | undefined {
+        return this.provider === GitHubProvider
+            ? this.remote?.owner
+            : undefined;
+    }
 
     /**
      * The project name of this repository on GitHub.
+     *
+     * @deprecated Will be removed in v0.21. Use [[remote]] instead.
      */
-    gitHubProject?: string;
+    get gitHubProject(): string | undefined {
+        return this.provider === GitHubProvider
+            ? this.remote?.project
+            : undefined;
+    }
 
     /**
      * The hostname for this github project.
@@ -44,34 +74,42 @@ export class Repository {
      *
      * Or the hostname for an enterprise version of GitHub, e.g. `github.acme.com`
      * (if found as a match in the list of git remotes).
+     *
+     * @deprecated Will be removed in v0.21. Use [[remote]] instead.
      */
-    gitHubHostname = "github.com";
+    get gitHubHostname(): string {
+        return this.provider === GitHubProvider && this.remote
+            ? this.remote.hostname
+            : "github.com";
+    }
 
     /**
      * Create a new Repository instance.
      *
      * @param path  The root path of the repository.
+     * @param gitRevision  The revision to link to, defaults to the current commit.
+     * @param repoLinks  The URLs of the remote used for linking.
+     * @param providers  The providers which are checked, in order, for a matching remote.
      */
-    constructor(path: string, gitRevision: string, repoLinks: string[]) {
+    constructor(
+        path: string,
+        gitRevision: string,
+        repoLinks: string[],
+        providers: readonly SourceLinkProvider[] = defaultSourceLinkProviders
+    ) {
         this.path = path;
         this.branch = gitRevision || "master";
         ShellJS.pushd(path);
 
-        for (let i = 0, c = repoLinks.length; i < c; i++) {
-            const url = /(github(?:\.[a-z]+)*\.[a-z]{2,})[:/]([^/]+)\/(.*)/.exec(
-                repoLinks[i]
-            );
-
-            if (url) {
-                this.gitHubHostname = url[1];
-                this.gitHubUser = url[2];
-                this.gitHubProject = url[3];
-                if (this.gitHubProject.substr(-4) === ".git") {
-                    this.gitHubProject = this.gitHubProject.substr(
-                        0,
-                        this.gitHubProject.length - 4
-                    );
+        for (const link of repoLinks) {
+            for (const provider of providers) {
+                this.remote = provider.matchRemote(link);
+                if (this.remote) {
+                    this.provider = provider;
+                    break;
                 }
+            }
+            if (this.provider) {
                 break;
             }
         }
@@ -112,26 +150,32 @@ export class Repository {
     /**
      * Get the URL of the given file on GitHub.
      *
+     * @deprecated Will be removed in v0.21. Use [[getURL]] instead.
      * @param fileName  The file whose GitHub URL should be determined.
-     * @returns An url pointing to the web preview of the given file or NULL.
+     * @returns An url pointing to the web preview of the given file or undefined.
      */
     getGitHubURL(fileName: string): string | undefined {
-        if (
-            !this.gitHubUser ||
-            !this.gitHubProject ||
-            !this.contains(fileName)
-        ) {
+        return this.getURL(fileName);
+    }
+
+    /**
+     * Get the URL of the given file, or of a line within it, on the hosting service.
+     *
+     * @param fileName  The file whose URL should be determined.
+     * @param line  The line to link to, if any.
+     * @returns An url pointing to the web preview of the given file or undefined.
+     */
+    getURL(fileName: string, line?: number): string | undefined {
+        if (!this.provider || !this.remote || !this.contains(fileName)) {
             return;
         }
 
-        return [
-            `https://${this.gitHubHostname}`,
-            this.gitHubUser,
-            this.gitHubProject,
-            "blob",
+        return this.provider.getUrl(
+            this.remote,
             this.branch,
             fileName.substr(this.path.length + 1),
-        ].join("/");
+            line
+        );
     }
 
     /**
@@ -146,7 +190,8 @@ export class Repository {
     static tryCreateRepository(
         path: string,
         gitRevision: string,
-        gitRemote: string
+        gitRemote: string,
+        providers?: readonly SourceLinkProvider[]
     ): Repository | undefined {
         ShellJS.pushd(path);
         const out = <ShellJS.ExecOutputReturnValue>(
@@ -157,29 +202,28 @@ export class Repository {
         );
         ShellJS.popd();
 
-        if (
-            !out ||
-            out.code !== 0 ||
-            !remotesOutput ||
-            remotesOutput.code !== 0
-        ) {
+        if (!out || out.code !== 0) {
             return;
         }
 
+        // Repositories without the remote can still be linked with a sourceLinkTemplate
         const remotes: string[] =
-            remotesOutput.code === 0 ? remotesOutput.stdout.split("\n") : [];
+            remotesOutput && remotesOutput.code === 0
+                ? remotesOutput.stdout.split("\n")
+                : [""];
 
         return new Repository(
             BasePath.normalize(out.stdout.replace("\n", "")),
             gitRevision,
-            remotes
+            remotes,
+            providers
         );
     }
 }
 
 /**
- * A handler that watches for repositories with GitHub origin and links
- * their source files to the related GitHub pages.
+ * A handler that watches for repositories hosted on GitHub, GitLab, Bitbucket, Azure Repos
+ * or Gitea and links their source files to the related pages of the hosting service.
  */
 @Component({ name: "git-hub" })
 export class GitHubPlugin extends ConverterComponent {
@@ -193,12 +237,20 @@ export class GitHubPlugin extends ConverterComponent {
      */
     private ignoredPaths: string[] = [];
 
+    /**
+     * Providers added by plugins, checked before the built in providers.
+     */
+    private providers: SourceLinkProvider[] = [];
+
     @BindOption("gitRevision")
     readonly gitRevision!: string;
 
     @BindOption("gitRemote")
     readonly gitRemote!: string;
 
+    @BindOption("sourceLinkTemplate")
+    readonly sourceLinkTemplate!: string;
+
     /**
      * Create a new GitHubHandler instance.
      *
@@ -215,6 +267,16 @@ export class GitHubPlugin extends ConverterComponent {
         }
     }
 
+    /**
+     * Add a provider for a hosting service which is not supported by TypeDoc. Providers
+     * are checked in the reverse order they were added, before the built in providers.
+     *
+     * @param provider  The provider to add.
+     */
+    addSourceLinkProvider(provider: SourceLinkProvider) {
+        this.providers.unshift(provider);
+    }
+
     /**
      * Check whether the given file is placed inside a repository.
      *
@@ -241,7 +303,10 @@ export class GitHubPlugin extends ConverterComponent {
         const repository = Repository.tryCreateRepository(
             dirName,
             this.gitRevision,
-            this.gitRemote
+            this.gitRemote,
+            this.sourceLinkTemplate
+                ? [createTemplateProvider(this.sourceLinkTemplate)]
+                : [...this.providers, ...defaultSourceLinkProviders]
         );
         if (repository) {
             this.repositories[repository.path.toLowerCase()] = repository;
@@ -265,9 +330,7 @@ export class GitHubPlugin extends ConverterComponent {
         project.files.forEach((sourceFile) => {
             const repository = this.getRepository(sourceFile.fullFileName);
             if (repository) {
-                sourceFile.url = repository.getGitHubURL(
-                    sourceFile.fullFileName
-                );
+                sourceFile.url = repository.getURL(sourceFile.fullFileName);
             }
         });
 
@@ -276,7 +339,9 @@ export class GitHubPlugin extends ConverterComponent {
             if (reflection.sources) {
                 reflection.sources.forEach((source: SourceReference) => {
                     if (source.file && source.file.url) {
-                        source.url = source.file.url + "#L" + source.line;
+                        source.url = this.getRepository(
+                            source.file.fullFileName
+                        )?.getURL(source.file.fullFileName, source.line);
                     }
                 });
             }
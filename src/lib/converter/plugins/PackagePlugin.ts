@@ -6,6 +6,7 @@ import { Converter } from "../converter";
 import { Context } from "../context";
 import { BindOption, readFile } from "../../utils";
 import { getCommonDirectory } from "../../utils/fs";
+import { Comment, ProjectReflection } from "../../models/index";
 
 /**
  * A handler that tries to find the package.json and readme.md files of the
@@ -98,6 +99,7 @@ export class PackagePlugin extends ConverterComponent {
         if (this.readmeFile) {
             project.readme = readFile(this.readmeFile);
         }
+        this.readPackageReadmes(project);
 
         if (this.packageFile) {
             project.packageInfo = JSON.parse(readFile(this.packageFile));
@@ -109,4 +111,37 @@ export class PackagePlugin extends ConverterComponent {
             }
         }
     }
+
+    /**
+     * Use the readme files packages specify in packages mode as the comment of their module,
+     * or, if a single package is converted, as the readme of the project. The comment survives
+     * merging the projects converted in worker threads.
+     */
+    private readPackageReadmes(project: ProjectReflection) {
+        for (const reflection of [project, ...(project.children ?? [])]) {
+            const readme = this.owner.getPackageOptions(reflection)?.readme;
+            if (!readme) {
+                continue;
+            }
+            if (readme === "none") {
+                if (reflection.isProject()) {
+                    delete reflection.readme;
+                }
+                continue;
+            }
+            if (!FS.existsSync(readme)) {
+                this.application.logger.error(
+                    `The readme file ${readme} of package ${reflection.name} does not exist`
+                );
+                continue;
+            }
+
+            const text = readFile(readme);
+            if (reflection.isProject()) {
+                reflection.readme = text;
+            }
+            reflection.comment ??= new Comment();
+            reflection.comment.text = text;
+        }
+    }
 }
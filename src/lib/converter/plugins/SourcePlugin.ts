@@ -29,10 +29,6 @@ export class SourcePlugin extends ConverterComponent {
      */
     private fileMappings: { [name: string]: SourceFile } = {};
 
-    /**
-     * All file names to find the base path from.
-     */
-    private fileNames = new Set<string>();
     private basePath?: string;
 
     /**
@@ -68,7 +64,6 @@ export class SourcePlugin extends ConverterComponent {
      * @param event  An event object containing the related project and compiler instance.
      */
     private onBegin() {
-        this.fileNames.clear();
         this.fileMappings = {};
     }
 
@@ -91,7 +86,6 @@ export class SourcePlugin extends ConverterComponent {
         }
         const sourceFile = node.getSourceFile();
         const fileName = sourceFile.fileName;
-        this.fileNames.add(fileName);
         const file: SourceFile = this.getSourceFile(fileName, context.project);
 
         let position: ts.LineAndCharacter;
@@ -126,7 +120,10 @@ export class SourcePlugin extends ConverterComponent {
      * @param context  The context object describing the current state the converter is in.
      */
     private onBeginResolve(context: Context) {
-        this.basePath = getCommonDirectory([...this.fileNames]);
+        // Also includes the files of reflections revived from the conversion cache.
+        this.basePath = getCommonDirectory(
+            context.project.files.map((file) => file.fileName)
+        );
         for (const file of context.project.files) {
             const fileName = (file.fileName = normalizePath(
                 relative(this.basePath, file.fileName)
@@ -0,0 +1,286 @@
+/**
+ * The parts of a git remote URL which are needed to link to files on the hosting service.
+ */
+export interface SourceLinkRemote {
+    /**
+     * The hostname of the hosting service, including the port for http remotes.
+     */
+    hostname: string;
+
+    /**
+     * The user, organization or group owning the repository. Contains several
+     * segments for nested GitLab groups or Azure DevOps organizations and projects.
+     */
+    owner: string;
+
+    /**
+     * The name of the repository, without a `.git` suffix.
+     */
+    project: string;
+}
+
+/**
+ * Builds the URLs source references link to for repositories hosted on a given service.
+ */
+export interface SourceLinkProvider {
+    /**
+     * The name of the hosting service.
+     */
+    readonly name: string;
+
+    /**
+     * Check whether the given git remote URL belongs to this service.
+     *
+     * @param url  The URL of the remote as returned by `git remote get-url`.
+     * @returns The parts of the remote, or undefined if the remote is hosted elsewhere.
+     */
+    matchRemote(url: string): SourceLinkRemote | undefined;
+
+    /**
+     * Get the URL of a file or of a line within a file.
+     *
+     * @param remote    The remote returned by [[matchRemote]].
+     * @param revision  The commit hash or branch name to link to.
+     * @param path      The path of the file relative to the repository root.
+     * @param line      The line to link to, if any.
+     */
+    getUrl(
+        remote: SourceLinkRemote,
+        revision: string,
+        path: string,
+        line?: number
+    ): string;
+}
+
+/**
+ * Split a git remote URL into its hostname and path, handles the scp like
+ * `git@host:path` syntax as well as `ssh://` and `https://` URLs.
+ */
+function splitRemote(url: string) {
+    const match =
+        /^[a-z+]+:\/\/(?:[^@/]*@)?([^/]+)\/(.+)$/.exec(url) ??
+        /^(?:[^@/]*@)?([^:/]+):(?!\/)(.+)$/.exec(url);
+    if (!match) {
+        return;
+    }
+
+    // The port of an ssh remote is not used by the web interface
+    const hostname = url.startsWith("ssh://")
+        ? match[1].replace(/:\d+$/, "")
+        : match[1];
+    const path = match[2]
+        .replace(/\/$/, "")
+        .replace(/\.git$/, "")
+        .split("/")
+        .filter((part) => part !== "");
+    return { hostname, path };
+}
+
+function createRemote(hostname: string, path: string[]) {
+    if (path.length < 2) {
+        return;
+    }
+    return {
+        hostname,
+        owner: path.slice(0, -1).join("/"),
+        project: path[path.length - 1],
+    };
+}
+
+function isCommitHash(revision: string) {
+    return /^[0-9a-f]{7,40}$/i.test(revision);
+}
+
+function hostPattern(name: string) {
+    return new RegExp(`(^|\\.)${name}(\\.[a-z0-9-]+)*\\.[a-z]{2,}(:\\d+)?$`);
+}
+
+/**
+ * Links to GitHub and GitHub Enterprise, whose hostname contains `github`.
+ */
+export const GitHubProvider: SourceLinkProvider = {
+    name: "GitHub",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (remote && hostPattern("github").test(remote.hostname)) {
+            return createRemote(remote.hostname, remote.path.slice(0, 2));
+        }
+    },
+    getUrl(remote, revision, path, line) {
+        const url = `https://${remote.hostname}/${remote.owner}/${remote.project}/blob/${revision}/${path}`;
+        return line === undefined ? url : `${url}#L${line}`;
+    },
+};
+
+/**
+ * Links to gitlab.com and self-hosted GitLab instances whose hostname contains `gitlab`.
+ * Repositories may be nested in several groups.
+ */
+export const GitLabProvider: SourceLinkProvider = {
+    name: "GitLab",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (remote && hostPattern("gitlab").test(remote.hostname)) {
+            return createRemote(remote.hostname, remote.path);
+        }
+    },
+    getUrl(remote, revision, path, line) {
+        const url = `https://${remote.hostname}/${remote.owner}/${remote.project}/-/blob/${revision}/${path}`;
+        return line === undefined ? url : `${url}#L${line}`;
+    },
+};
+
+/**
+ * Links to Bitbucket Cloud, hosted on bitbucket.org.
+ */
+export const BitbucketCloudProvider: SourceLinkProvider = {
+    name: "Bitbucket Cloud",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (remote?.hostname === "bitbucket.org") {
+            return createRemote(remote.hostname, remote.path.slice(0, 2));
+        }
+    },
+    getUrl(remote, revision, path, line) {
+        const url = `https://${remote.hostname}/${remote.owner}/${remote.project}/src/${revision}/${path}`;
+        return line === undefined ? url : `${url}#lines-${line}`;
+    },
+};
+
+/**
+ * Links to self-hosted Bitbucket Server and Data Center instances whose hostname
+ * contains `bitbucket`. Their http remotes start with `/scm/`.
+ */
+export const BitbucketServerProvider: SourceLinkProvider = {
+    name: "Bitbucket Server",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (
+            !remote ||
+            remote.hostname === "bitbucket.org" ||
+            !hostPattern("bitbucket").test(remote.hostname)
+        ) {
+            return;
+        }
+        const path =
+            remote.path[0] === "scm" ? remote.path.slice(1) : remote.path;
+        return createRemote(remote.hostname, path.slice(0, 2));
+    },
+    getUrl(remote, revision, path, line) {
+        const url = `https://${remote.hostname}/projects/${remote.owner}/repos/${remote.project}/browse/${path}?at=${revision}`;
+        return line === undefined ? url : `${url}#${line}`;
+    },
+};
+
+/**
+ * Links to Azure Repos, hosted on dev.azure.com or an organization's visualstudio.com domain.
+ */
+export const AzureReposProvider: SourceLinkProvider = {
+    name: "Azure Repos",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (!remote) {
+            return;
+        }
+
+        // git@ssh.dev.azure.com:v3/org/project/repo
+        if (
+            remote.hostname === "ssh.dev.azure.com" &&
+            remote.path[0] === "v3"
+        ) {
+            return createRemote("dev.azure.com", remote.path.slice(1, 4));
+        }
+
+        // https://dev.azure.com/org/project/_git/repo or
+        // https://org.visualstudio.com/project/_git/repo
+        const git = remote.path.indexOf("_git");
+        if (
+            git !== -1 &&
+            (remote.hostname === "dev.azure.com" ||
+                remote.hostname.endsWith(".visualstudio.com"))
+        ) {
+            return createRemote(remote.hostname, [
+                ...remote.path.slice(0, git),
+                remote.path[git + 1],
+            ]);
+        }
+    },
+    getUrl(remote, revision, path, line) {
+        const version = (isCommitHash(revision) ? "GC" : "GB") + revision;
+        const url = `https://${remote.hostname}/${remote.owner}/_git/${
+            remote.project
+        }?path=${encodeURIComponent("/" + path)}&version=${version}`;
+        return line === undefined
+            ? url
+            : `${url}&line=${line}&lineEnd=${
+                  line + 1
+              }&lineStartColumn=1&lineEndColumn=1`;
+    },
+};
+
+/**
+ * Links to Gitea instances, including codeberg.org, whose hostname contains `gitea`.
+ */
+export const GiteaProvider: SourceLinkProvider = {
+    name: "Gitea",
+    matchRemote(url) {
+        const remote = splitRemote(url);
+        if (
+            remote &&
+            (remote.hostname === "codeberg.org" ||
+                hostPattern("gitea").test(remote.hostname))
+        ) {
+            return createRemote(remote.hostname, remote.path.slice(0, 2));
+        }
+    },
+    getUrl(remote, revision, path, line) {
+        const kind = isCommitHash(revision) ? "commit" : "branch";
+        const url = `https://${remote.hostname}/${remote.owner}/${remote.project}/src/${kind}/${revision}/${path}`;
+        return line === undefined ? url : `${url}#L${line}`;
+    },
+};
+
+/**
+ * The providers which are checked, in order, for the remote of a repository.
+ */
+export const defaultSourceLinkProviders: readonly SourceLinkProvider[] = [
+    GitHubProvider,
+    GitLabProvider,
+    BitbucketCloudProvider,
+    BitbucketServerProvider,
+    AzureReposProvider,
+    GiteaProvider,
+];
+
+/**
+ * Create a provider which builds links from the given template, used for the `sourceLinkTemplate`
+ * option. The template may contain the placeholders `{path}`, `{line}` and `{gitRevision}`.
+ *
+ * The provider matches any remote. Links to files without a line leave out
+ * the part of the URL fragment containing `{line}`.
+ *
+ * @param template  The URL template, e.g. `https://git.corp/{path}?rev={gitRevision}#L{line}`.
+ */
+export function createTemplateProvider(template: string): SourceLinkProvider {
+    return {
+        name: "Template",
+        matchRemote() {
+            return { hostname: "", owner: "", project: "" };
+        },
+        getUrl(_remote, revision, path, line) {
+            const url =
+                line === undefined
+                    ? template.replace(/#[^#]*\{line\}.*$/, "")
+                    : template;
+            // Each segment is encoded, so names containing characters like # or ? can be linked.
+            const encodedPath = path
+                .split("/")
+                .map(encodeURIComponent)
+                .join("/");
+            return url
+                .replace(/\{path\}/g, () => encodedPath)
+                .replace(/\{gitRevision\}/g, () => revision)
+                .replace(/\{line\}/g, String(line ?? 1));
+        },
+    };
+}
@@ -0,0 +1,507 @@
+import {
+    DeclarationReflection,
+    ParameterReflection,
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+    SignatureReflection,
+    TypeParameterReflection,
+} from "../models/reflections/index";
+import type { Type } from "../models/types/index";
+
+/**
+ * The part of a declaration an [[ApiChange]] applies to.
+ *
+ * - `declaration` An exported declaration or a member of one.
+ * - `kind` The kind of a declaration, e.g. a variable which became a function.
+ * - `type` The type of a variable, property, accessor or type alias.
+ * - `optional` Whether a property or parameter is optional.
+ * - `signature` A call, construct, index or accessor signature.
+ * - `parameter` A parameter of a signature.
+ * - `parameterType` The type of a parameter.
+ * - `returnType` The return type of a signature.
+ * - `typeParameter` A type parameter, changed if its constraint or default changed.
+ */
+export type ApiChangeTarget =
+    | "declaration"
+    | "kind"
+    | "type"
+    | "optional"
+    | "signature"
+    | "parameter"
+    | "parameterType"
+    | "returnType"
+    | "typeParameter";
+
+/**
+ * A single difference between two versions of a project's API.
+ */
+export interface ApiChange {
+    /**
+     * Whether [[target]] was added, removed or changed.
+     */
+    change: "added" | "removed" | "changed";
+
+    target: ApiChangeTarget;
+
+    /**
+     * The full name of the declaration the change belongs to.
+     */
+    name: string;
+
+    /**
+     * Where in the declaration the change happened, e.g. `signature 2, parameter value`.
+     */
+    location?: string;
+
+    /**
+     * The old value of the target, printed from the model.
+     */
+    oldValue?: string;
+
+    /**
+     * The new value of the target, printed from the model.
+     */
+    newValue?: string;
+
+    /**
+     * The reflection containing [[target]] in the old project, e.g. the parameter for
+     * `parameterType` changes. Not set if the target was added.
+     */
+    old?: Reflection;
+
+    /**
+     * The reflection containing [[target]] in the new project. Not set if the target was removed.
+     */
+    new?: Reflection;
+}
+
+/**
+ * The result of [[diffProjects]].
+ */
+export interface ApiDiff {
+    changes: ApiChange[];
+}
+
+/**
+ * Collect all declarations of the project by their full name. Several declarations have
+ * the same name if they are merged, like a function and a namespace.
+ */
+function collectDeclarations(project: ProjectReflection) {
+    const declarations = new Map<string, DeclarationReflection[]>();
+
+    const visit = (reflection: DeclarationReflection) => {
+        const name = reflection.getFullName();
+        const group = declarations.get(name);
+        if (group) {
+            group.push(reflection);
+        } else {
+            declarations.set(name, [reflection]);
+        }
+        reflection.children?.forEach(visit);
+    };
+    project.children?.forEach(visit);
+
+    return declarations;
+}
+
+/**
+ * Key the collected declarations by their full name. Declarations with a name which is merged
+ * in either project get their kind appended to the key, so that the keys neither depend on
+ * the order declarations are visited in, nor on whether the other project merges them.
+ */
+function keyDeclarations(
+    declarations: Map<string, DeclarationReflection[]>,
+    merged: Set<string>
+) {
+    const keyed = new Map<string, DeclarationReflection>();
+    for (const [name, group] of declarations) {
+        for (const reflection of group) {
+            keyed.set(
+                merged.has(name)
+                    ? `${name} (${ReflectionKind[reflection.kind]})`
+                    : name,
+                reflection
+            );
+        }
+    }
+    return keyed;
+}
+
+/**
+ * Print a type, missing types are printed as `any`.
+ */
+export function printType(type: Type | undefined): string {
+    return type?.toString() ?? "any";
+}
+
+function isOptional(reflection: DeclarationReflection | ParameterReflection) {
+    return (
+        reflection.flags.isOptional ||
+        (reflection instanceof ParameterReflection &&
+            reflection.defaultValue !== undefined)
+    );
+}
+
+/**
+ * Print a signature like `<T>(value: T, count?: number): T[]`, or like
+ * `<T>(value: T, count?: number) => T[]` if it is printed as a function type.
+ */
+export function printSignature(
+    signature: SignatureReflection,
+    arrow = false
+): string {
+    const typeParameters = signature.typeParameters?.length
+        ? `<${signature.typeParameters.map(printTypeParameter).join(", ")}>`
+        : "";
+    const parameters = (signature.parameters ?? []).map(
+        (parameter) =>
+            `${parameter.flags.isRest ? "..." : ""}${parameter.name}${
+                isOptional(parameter) ? "?" : ""
+            }: ${printType(parameter.type)}`
+    );
+    const [open, close] = signature.kindOf(ReflectionKind.IndexSignature)
+        ? ["[", "]"]
+        : ["(", ")"];
+    return `${typeParameters}${open}${parameters.join(", ")}${close}${
+        arrow ? " =>" : ":"
+    } ${printType(signature.type)}`;
+}
+
+/**
+ * Print a type parameter like `T extends object = {}`.
+ */
+export function printTypeParameter(
+    typeParameter: TypeParameterReflection
+): string {
+    let result = typeParameter.name;
+    if (typeParameter.type) {
+        result += ` extends ${typeParameter.type.toString()}`;
+    }
+    if (typeParameter.default) {
+        result += ` = ${typeParameter.default.toString()}`;
+    }
+    return result;
+}
+
+function joinLocation(...parts: (string | undefined)[]) {
+    return parts.filter(Boolean).join(", ") || undefined;
+}
+
+/**
+ * Compares the declarations of two projects.
+ */
+class ProjectDiffer {
+    readonly changes: ApiChange[] = [];
+
+    private add(change: ApiChange) {
+        this.changes.push(change);
+    }
+
+    diff(oldProject: ProjectReflection, newProject: ProjectReflection) {
+        const oldGroups = collectDeclarations(oldProject);
+        const newGroups = collectDeclarations(newProject);
+        const merged = new Set<string>();
+        for (const [name, group] of [...oldGroups, ...newGroups]) {
+            if (group.length > 1) {
+                merged.add(name);
+            }
+        }
+        const oldDeclarations = keyDeclarations(oldGroups, merged);
+        const newDeclarations = keyDeclarations(newGroups, merged);
+
+        // Members of added or removed declarations are not reported separately.
+        const reported = new Set<Reflection>();
+        const isReported = (reflection: DeclarationReflection) =>
+            !!reflection.parent && reported.has(reflection.parent);
+
+        for (const [name, reflection] of oldDeclarations) {
+            if (!newDeclarations.has(name)) {
+                reported.add(reflection);
+                if (!isReported(reflection)) {
+                    this.add({
+                        change: "removed",
+                        target: "declaration",
+                        name,
+                        oldValue: ReflectionKind[reflection.kind],
+                        old: reflection,
+                    });
+                }
+            }
+        }
+
+        for (const [name, reflection] of newDeclarations) {
+            const old = oldDeclarations.get(name);
+            if (old) {
+                this.diffDeclaration(name, old, reflection);
+            } else {
+                reported.add(reflection);
+                if (!isReported(reflection)) {
+                    this.add({
+                        change: "added",
+                        target: "declaration",
+                        name,
+                        newValue: ReflectionKind[reflection.kind],
+                        new: reflection,
+                    });
+                }
+            }
+        }
+    }
+
+    private diffDeclaration(
+        name: string,
+        old: DeclarationReflection,
+        current: DeclarationReflection
+    ) {
+        if (old.kind !== current.kind) {
+            this.add({
+                change: "changed",
+                target: "kind",
+                name,
+                oldValue: ReflectionKind[old.kind],
+                newValue: ReflectionKind[current.kind],
+                old,
+                new: current,
+            });
+        }
+
+        // The types of functions and methods are described by their signatures.
+        if (
+            (old.type || current.type) &&
+            !old.signatures &&
+            !current.signatures &&
+            printType(old.type) !== printType(current.type)
+        ) {
+            this.add({
+                change: "changed",
+                target: "type",
+                name,
+                oldValue: printType(old.type),
+                newValue: printType(current.type),
+                old,
+                new: current,
+            });
+        }
+
+        if (isOptional(old) !== isOptional(current)) {
+            this.add({
+                change: "changed",
+                target: "optional",
+                name,
+                oldValue: String(isOptional(old)),
+                newValue: String(isOptional(current)),
+                old,
+                new: current,
+            });
+        }
+
+        this.diffTypeParameters(
+            name,
+            undefined,
+            old.typeParameters,
+            current.typeParameters
+        );
+
+        const oldSignatures = old.getAllSignatures();
+        const newSignatures = current.getAllSignatures();
+        for (const kind of new Set(
+            [...oldSignatures, ...newSignatures].map((sig) => sig.kind)
+        )) {
+            this.diffSignatures(
+                name,
+                oldSignatures.filter((sig) => sig.kind === kind),
+                newSignatures.filter((sig) => sig.kind === kind)
+            );
+        }
+    }
+
+    /**
+     * Compare the signatures of one kind, overloads are matched by their position.
+     */
+    private diffSignatures(
+        name: string,
+        oldSignatures: SignatureReflection[],
+        newSignatures: SignatureReflection[]
+    ) {
+        const count = Math.max(oldSignatures.length, newSignatures.length);
+        for (let i = 0; i < count; i++) {
+            const old = oldSignatures[i] as SignatureReflection | undefined;
+            const current = newSignatures[i] as SignatureReflection | undefined;
+            const location =
+                count > 1
+                    ? `signature ${i + 1}`
+                    : getSignatureLocation(old ?? current);
+
+            if (!old || !current) {
+                this.add({
+                    change: old ? "removed" : "added",
+                    target: "signature",
+                    name,
+                    location,
+                    oldValue: old && printSignature(old),
+                    newValue: current && printSignature(current),
+                    old,
+                    new: current,
+                });
+                continue;
+            }
+
+            this.diffTypeParameters(
+                name,
+                location,
+                old.typeParameters,
+                current.typeParameters
+            );
+            this.diffParameters(
+                name,
+                location,
+                old.parameters ?? [],
+                current.parameters ?? []
+            );
+
+            if (printType(old.type) !== printType(current.type)) {
+                this.add({
+                    change: "changed",
+                    target: "returnType",
+                    name,
+                    location,
+                    oldValue: printType(old.type),
+                    newValue: printType(current.type),
+                    old,
+                    new: current,
+                });
+            }
+        }
+    }
+
+    /**
+     * Compare parameters by their position, renaming a parameter is not an API change.
+     */
+    private diffParameters(
+        name: string,
+        signatureLocation: string | undefined,
+        oldParameters: ParameterReflection[],
+        newParameters: ParameterReflection[]
+    ) {
+        const count = Math.max(oldParameters.length, newParameters.length);
+        for (let i = 0; i < count; i++) {
+            const old = oldParameters[i] as ParameterReflection | undefined;
+            const current = newParameters[i] as ParameterReflection | undefined;
+            const location = joinLocation(
+                signatureLocation,
+                `parameter ${(current ?? old)?.name}`
+            );
+
+            if (!old || !current) {
+                this.add({
+                    change: old ? "removed" : "added",
+                    target: "parameter",
+                    name,
+                    location,
+                    oldValue: old && printType(old.type),
+                    newValue: current && printType(current.type),
+                    old,
+                    new: current,
+                });
+                continue;
+            }
+
+            if (printType(old.type) !== printType(current.type)) {
+                this.add({
+                    change: "changed",
+                    target: "parameterType",
+                    name,
+                    location,
+                    oldValue: printType(old.type),
+                    newValue: printType(current.type),
+                    old,
+                    new: current,
+                });
+            }
+
+            if (isOptional(old) !== isOptional(current)) {
+                this.add({
+                    change: "changed",
+                    target: "optional",
+                    name,
+                    location,
+                    oldValue: String(isOptional(old)),
+                    newValue: String(isOptional(current)),
+                    old,
+                    new: current,
+                });
+            }
+        }
+    }
+
+    /**
+     * Compare type parameters by their position.
+     */
+    private diffTypeParameters(
+        name: string,
+        signatureLocation: string | undefined,
+        oldTypeParameters: TypeParameterReflection[] = [],
+        newTypeParameters: TypeParameterReflection[] = []
+    ) {
+        const count = Math.max(
+            oldTypeParameters.length,
+            newTypeParameters.length
+        );
+        for (let i = 0; i < count; i++) {
+            const old = oldTypeParameters[i] as
+                | TypeParameterReflection
+                | undefined;
+            const current = newTypeParameters[i] as
+                | TypeParameterReflection
+                | undefined;
+            const oldValue = old && printTypeParameter(old);
+            const newValue = current && printTypeParameter(current);
+
+            if (oldValue !== newValue) {
+                this.add({
+                    change: !old ? "added" : !current ? "removed" : "changed",
+                    target: "typeParameter",
+                    name,
+                    location: joinLocation(
+                        signatureLocation,
+                        `type parameter ${(current ?? old)?.name}`
+                    ),
+                    oldValue,
+                    newValue,
+                    old,
+                    new: current,
+                });
+            }
+        }
+    }
+}
+
+function getSignatureLocation(signature: SignatureReflection | undefined) {
+    switch (signature?.kind) {
+        case ReflectionKind.ConstructorSignature:
+            return "constructor";
+        case ReflectionKind.IndexSignature:
+            return "index signature";
+        case ReflectionKind.GetSignature:
+            return "getter";
+        case ReflectionKind.SetSignature:
+            return "setter";
+    }
+}
+
+/**
+ * Compare the API of two versions of a project. Declarations are matched by their full name,
+ * overloads, parameters and type parameters by their position.
+ *
+ * @param oldProject  The previous version of the project, usually revived from JSON.
+ * @param newProject  The current version of the project.
+ */
+export function diffProjects(
+    oldProject: ProjectReflection,
+    newProject: ProjectReflection
+): ApiDiff {
+    const differ = new ProjectDiffer();
+    differ.diff(oldProject, newProject);
+    return { changes: differ.changes };
+}
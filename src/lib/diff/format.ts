@@ -0,0 +1,161 @@
+import type { ApiChange, ApiDiff } from "./diff";
+
+/**
+ * An [[ApiChange]] without the compared reflections, written as the JSON diff.
+ */
+export type ApiChangeJson = Omit<ApiChange, "old" | "new">;
+
+/**
+ * Output formats of the `typedoc diff` command.
+ */
+export enum DiffFormat {
+    Text,
+    Markdown,
+    Json,
+}
+
+function kindName(kind = "") {
+    return kind.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+function capitalize(text: string) {
+    return text.charAt(0).toUpperCase() + text.substr(1);
+}
+
+/**
+ * Describe a change in a sentence.
+ *
+ * @param change  The change to describe.
+ * @param code  Formats names and types, e.g. by wrapping them in backticks.
+ */
+export function describeChange(
+    change: ApiChange,
+    code: (text: string) => string = (text) => text
+): string {
+    const name = code(change.name);
+    const oldValue = code(change.oldValue ?? "");
+    const newValue = code(change.newValue ?? "");
+
+    // The last part of the location is what changed, the others tell where it is.
+    const location = change.location?.split(", ") ?? [];
+    const subject = location.pop();
+    const where = location.length ? ` (${location.join(", ")})` : "";
+    const within = subject ? ` (${[...location, subject].join(", ")})` : "";
+
+    switch (change.target) {
+        case "declaration":
+            return change.change === "added"
+                ? `Added ${kindName(change.newValue)} ${name}`
+                : `Removed ${kindName(change.oldValue)} ${name}`;
+        case "kind":
+            return `${name} changed from ${kindName(
+                change.oldValue
+            )} to ${kindName(change.newValue)}`;
+        case "type":
+            return `Type of ${name} changed from ${oldValue} to ${newValue}`;
+        case "optional": {
+            const state = change.newValue === "true" ? "optional" : "required";
+            return subject
+                ? `${capitalize(subject)} of ${name} is now ${state}${where}`
+                : `${name} is now ${state}`;
+        }
+        case "signature":
+            return change.change === "added"
+                ? `Added ${subject ?? "signature"} ${newValue} to ${name}`
+                : `Removed ${subject ?? "signature"} ${oldValue} from ${name}`;
+        case "parameter":
+            return change.change === "added"
+                ? `Added ${subject} of type ${newValue} to ${name}${where}`
+                : `Removed ${subject} from ${name}${where}`;
+        case "parameterType":
+            return `Type of ${subject} of ${name} changed from ${oldValue} to ${newValue}${where}`;
+        case "returnType":
+            return `Return type of ${name} changed from ${oldValue} to ${newValue}${within}`;
+        case "typeParameter":
+            switch (change.change) {
+                case "added":
+                    return `Added type parameter ${newValue} to ${name}${where}`;
+                case "removed":
+                    return `Removed type parameter ${oldValue} from ${name}${where}`;
+                case "changed":
+                    return `Type parameter ${oldValue} of ${name} changed to ${newValue}${where}`;
+            }
+    }
+}
+
+const prefixes = { added: "+", removed: "-", changed: "~" };
+
+/**
+ * Format the diff for the terminal, one change per line prefixed with `+`, `-` or `~`.
+ */
+export function getDiffText(diff: ApiDiff): string {
+    if (!diff.changes.length) {
+        return "No API changes.";
+    }
+    return diff.changes
+        .map((change) => `${prefixes[change.change]} ${describeChange(change)}`)
+        .join("\n");
+}
+
+/**
+ * Format the diff as Markdown with an Added, Changed and Removed section, suitable for a changelog.
+ */
+export function getDiffMarkdown(diff: ApiDiff): string {
+    if (!diff.changes.length) {
+        return "No API changes.\n";
+    }
+
+    const sections: string[] = [];
+    for (const [title, kind] of [
+        ["Added", "added"],
+        ["Changed", "changed"],
+        ["Removed", "removed"],
+    ] as const) {
+        const changes = diff.changes.filter((change) => change.change === kind);
+        if (changes.length) {
+            sections.push(
+                `### ${title}\n\n${changes
+                    .map(
+                        (change) =>
+                            `- ${describeChange(
+                                change,
+                                (text) => "`" + text + "`"
+                            )}`
+                    )
+                    .join("\n")}\n`
+            );
+        }
+    }
+    return sections.join("\n");
+}
+
+/**
+ * Strip the compared reflections and unset values from the changes of the diff so that
+ * it can be written as JSON.
+ */
+export function getDiffJson(diff: ApiDiff): { changes: ApiChangeJson[] } {
+    return {
+        changes: diff.changes.map(({ old, new: _new, ...change }) => {
+            for (const key of Object.keys(change) as (keyof ApiChangeJson)[]) {
+                if (change[key] === undefined) {
+                    delete change[key];
+                }
+            }
+            return change;
+        }),
+    };
+}
+
+/**
+ * Format the diff in the given format.
+ */
+export function formatDiff(diff: ApiDiff, format: DiffFormat): string {
+    switch (format) {
+        case DiffFormat.Text:
+            return getDiffText(diff);
+        case DiffFormat.Markdown:
+            return getDiffMarkdown(diff);
+        case DiffFormat.Json:
+            return JSON.stringify(getDiffJson(diff), null, "\t");
+    }
+}
@@ -0,0 +1,22 @@
+export { diffProjects, printSignature, printTypeParameter } from "./diff";
+export type { ApiChange, ApiChangeTarget, ApiDiff } from "./diff";
+export {
+    DiffFormat,
+    describeChange,
+    formatDiff,
+    getDiffJson,
+    getDiffMarkdown,
+    getDiffText,
+} from "./format";
+export type { ApiChangeJson } from "./format";
+export {
+    SemverBump,
+    getChangeBump,
+    getSemverReport,
+    getSemverSummary,
+    incrementVersion,
+    isAssignableTo,
+    isValidBump,
+    parseVersion,
+} from "./semver";
+export type { SemverChange, SemverReport } from "./semver";
@@ -0,0 +1,347 @@
+import {
+    DeclarationReflection,
+    ParameterReflection,
+    ProjectReflection,
+    Reflection,
+    SignatureReflection,
+    ReflectionKind,
+    TypeParameterReflection,
+} from "../models/reflections/index";
+import {
+    IntrinsicType,
+    LiteralType,
+    Type,
+    UnionType,
+} from "../models/types/index";
+import { ApiChange, diffProjects } from "./diff";
+import { describeChange } from "./format";
+
+/**
+ * The release types of semantic versioning, ordered by how much they allow to change.
+ */
+export enum SemverBump {
+    None,
+    Patch,
+    Minor,
+    Major,
+}
+
+/**
+ * An [[ApiChange]] with the release type it requires.
+ */
+export interface SemverChange {
+    change: ApiChange;
+    bump: SemverBump;
+}
+
+/**
+ * The result of [[getSemverReport]].
+ */
+export interface SemverReport {
+    changes: SemverChange[];
+
+    /**
+     * Whether the comments of declarations which exist in both projects changed.
+     */
+    documentation: boolean;
+
+    /**
+     * The release type required by all changes.
+     */
+    bump: SemverBump;
+}
+
+function isIntrinsic(type: Type, ...names: string[]) {
+    return type instanceof IntrinsicType && names.includes(type.name);
+}
+
+/**
+ * Conservatively check whether every value of the source type is a value of the target type.
+ * Only handles types whose relation can be decided without the checker, returns false otherwise.
+ */
+export function isAssignableTo(
+    source: Type | undefined,
+    target: Type | undefined
+): boolean {
+    if (!source || !target) {
+        // Both missing types are inferred as any
+        return source === target || !target || isIntrinsic(target, "any");
+    }
+    if (
+        source.toString() === target.toString() ||
+        isIntrinsic(target, "any", "unknown") ||
+        isIntrinsic(source, "never")
+    ) {
+        return true;
+    }
+    if (source instanceof UnionType) {
+        return source.types.every((type) => isAssignableTo(type, target));
+    }
+    if (target instanceof UnionType) {
+        return (
+            target.types.some((type) => isAssignableTo(source, type)) ||
+            // boolean is written as true | false in unions
+            (isIntrinsic(source, "boolean") &&
+                [true, false].every((value) =>
+                    target.types.some(
+                        (type) =>
+                            type instanceof LiteralType && type.value === value
+                    )
+                ))
+        );
+    }
+    if (source instanceof LiteralType && target instanceof IntrinsicType) {
+        return source.value === null
+            ? target.name === "null"
+            : typeof source.value === target.name;
+    }
+    return false;
+}
+
+function getType(reflection: Reflection | undefined) {
+    return reflection instanceof DeclarationReflection ||
+        reflection instanceof ParameterReflection ||
+        reflection instanceof SignatureReflection
+        ? reflection.type
+        : undefined;
+}
+
+function isOptional(reflection: Reflection | undefined) {
+    return (
+        !!reflection &&
+        (reflection.flags.isOptional ||
+            reflection.flags.isRest ||
+            (reflection instanceof ParameterReflection &&
+                reflection.defaultValue !== undefined))
+    );
+}
+
+/**
+ * Get the release type a change requires. Types in input positions, like parameters,
+ * may be widened and types in output positions, like return types, may be narrowed
+ * in minor releases.
+ */
+export function getChangeBump(change: ApiChange): SemverBump {
+    if (change.change === "removed") {
+        return SemverBump.Major;
+    }
+
+    switch (change.target) {
+        case "declaration":
+            // Implementations of an interface break when it gains a required member.
+            return change.change === "added" &&
+                change.new?.parent?.kindOf(ReflectionKind.Interface) &&
+                !isOptional(change.new)
+                ? SemverBump.Major
+                : SemverBump.Minor;
+        case "signature":
+            return SemverBump.Minor;
+        case "parameter":
+            return isOptional(change.new) ? SemverBump.Minor : SemverBump.Major;
+        case "typeParameter":
+            return change.change === "added" &&
+                (change.new as TypeParameterReflection | undefined)?.default
+                ? SemverBump.Minor
+                : SemverBump.Major;
+        case "optional":
+            // Properties may be read, so making them optional breaks their readers.
+            return change.new instanceof ParameterReflection &&
+                isOptional(change.new)
+                ? SemverBump.Minor
+                : SemverBump.Major;
+        case "parameterType":
+            return isAssignableTo(getType(change.old), getType(change.new))
+                ? SemverBump.Minor
+                : SemverBump.Major;
+        case "returnType":
+            return isAssignableTo(getType(change.new), getType(change.old))
+                ? SemverBump.Minor
+                : SemverBump.Major;
+        case "type":
+            // Constants can only be read, other declarations may also be assigned.
+            return change.new?.flags.isConst &&
+                isAssignableTo(getType(change.new), getType(change.old))
+                ? SemverBump.Minor
+                : SemverBump.Major;
+        case "kind":
+            return SemverBump.Major;
+    }
+}
+
+/**
+ * Get the comments of a declaration and all reflections it contains, except for
+ * its child declarations.
+ */
+function getComments(reflection: DeclarationReflection) {
+    const comments: string[] = [];
+    const visit = (reflection: Reflection) => {
+        const comment = reflection.comment;
+        if (comment) {
+            comments.push(
+                [
+                    reflection.name,
+                    comment.shortText,
+                    comment.text,
+                    comment.returns,
+                    ...comment.tags.map(
+                        (tag) => `@${tag.tagName} ${tag.paramName} ${tag.text}`
+                    ),
+                ].join("\n")
+            );
+        }
+        reflection.traverse((child) => {
+            if (!(child instanceof DeclarationReflection)) {
+                visit(child);
+            }
+        });
+    };
+    visit(reflection);
+    return comments.join("\n");
+}
+
+function hasDocumentationChanges(
+    oldProject: ProjectReflection,
+    newProject: ProjectReflection
+) {
+    const comments = new Map<string, string>();
+    for (const reflection of Object.values(oldProject.reflections)) {
+        if (reflection instanceof DeclarationReflection) {
+            comments.set(reflection.getFullName(), getComments(reflection));
+        }
+    }
+
+    return Object.values(newProject.reflections).some((reflection) => {
+        if (!(reflection instanceof DeclarationReflection)) {
+            return false;
+        }
+        const old = comments.get(reflection.getFullName());
+        return old !== undefined && old !== getComments(reflection);
+    });
+}
+
+/**
+ * Compare two versions of a project and determine the release type the changes require.
+ *
+ * @param oldProject  The previous version of the project, usually revived from JSON.
+ * @param newProject  The current version of the project.
+ */
+export function getSemverReport(
+    oldProject: ProjectReflection,
+    newProject: ProjectReflection
+): SemverReport {
+    const changes = diffProjects(oldProject, newProject).changes.map(
+        (change) => ({ change, bump: getChangeBump(change) })
+    );
+    const documentation = hasDocumentationChanges(oldProject, newProject);
+
+    return {
+        changes,
+        documentation,
+        bump: Math.max(
+            documentation ? SemverBump.Patch : SemverBump.None,
+            ...changes.map((change) => change.bump)
+        ),
+    };
+}
+
+/**
+ * Parse a version like `1.2.3` or `v1.2.3-beta.1`, returns undefined for invalid versions.
+ */
+export function parseVersion(
+    version: string
+): [number, number, number] | undefined {
+    const match = /^v?(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/.exec(version.trim());
+    if (match) {
+        return [Number(match[1]), Number(match[2]), Number(match[3])];
+    }
+}
+
+/**
+ * Before 1.0.0, breaking changes are released as minor and features as patch versions.
+ */
+function adjustForInitialDevelopment(
+    version: [number, number, number],
+    bump: SemverBump
+) {
+    return version[0] === 0 && bump > SemverBump.Patch ? bump - 1 : bump;
+}
+
+/**
+ * Get the version following the given version for a release of the given type.
+ */
+export function incrementVersion(version: string, bump: SemverBump): string {
+    const parsed = parseVersion(version);
+    if (!parsed) {
+        return version;
+    }
+
+    const [major, minor, patch] = parsed;
+    switch (adjustForInitialDevelopment(parsed, bump)) {
+        case SemverBump.Major:
+            return `${major + 1}.0.0`;
+        case SemverBump.Minor:
+            return `${major}.${minor + 1}.0`;
+        case SemverBump.Patch:
+            return `${major}.${minor}.${patch + 1}`;
+        default:
+            return `${major}.${minor}.${patch}`;
+    }
+}
+
+/**
+ * Check whether releasing the changes of the report as the proposed version is allowed.
+ *
+ * @param report  The changes since the current version.
+ * @param current  The version the old project was released as.
+ * @param proposed  The version the new project will be released as.
+ */
+export function isValidBump(
+    report: SemverReport,
+    current: string,
+    proposed: string
+): boolean {
+    const to = parseVersion(proposed);
+    if (!parseVersion(current) || !to) {
+        return false;
+    }
+
+    const minimum = parseVersion(incrementVersion(current, report.bump))!;
+    for (let i = 0; i < 3; i++) {
+        if (to[i] !== minimum[i]) {
+            return to[i] > minimum[i];
+        }
+    }
+    return true;
+}
+
+/**
+ * Describe the changes of the report and the required release type for the terminal.
+ *
+ * @param report  The report to describe.
+ * @param current  The version the old project was released as, if known.
+ */
+export function getSemverSummary(
+    report: SemverReport,
+    current?: string
+): string {
+    const lines = report.changes.map(
+        ({ change, bump }) =>
+            `${SemverBump[bump].toLowerCase().padEnd(5)}  ${describeChange(
+                change
+            )}`
+    );
+    if (report.documentation) {
+        lines.push(`patch  Updated documentation comments`);
+    }
+
+    const bump = SemverBump[report.bump].toLowerCase();
+    lines.push(
+        current
+            ? `Required release: ${bump} (${current} -> ${incrementVersion(
+                  current,
+                  report.bump
+              )})`
+            : `Required release: ${bump}`
+    );
+    return lines.join("\n");
+}
@@ -1,5 +1,7 @@
 import { removeIf } from "../../utils";
 import { CommentTag } from "./tag";
+import { CommentDisplayPart, parseCommentParts } from "./parts";
+import type { CommentSeeReference, CommentThrows } from "./structured-tags";
 
 const COPIED_TAGS = ["remarks"];
 
@@ -10,27 +12,80 @@ const COPIED_TAGS = ["remarks"];
  * through the [[DeclarationReflection.comment]] property.
  */
 export class Comment {
+    private _shortText = "";
+
+    private _text = "";
+
+    private _returns?: string;
+
     /**
-     * The abstract of the comment. TypeDoc interprets the first paragraph of a comment
-     * as the abstract.
+     * The [[shortText]] split into text, code and inline tags.
      */
-    shortText: string;
+    shortTextParts: CommentDisplayPart[] = [];
 
     /**
-     * The full body text of the comment. Excludes the [[shortText]].
+     * The [[text]] split into text, code and inline tags.
+     */
+    textParts: CommentDisplayPart[] = [];
+
+    /**
+     * The [[returns]] text split into text, code and inline tags.
+     */
+    returnsParts: CommentDisplayPart[] = [];
+
+    /**
+     * The ```@see``` tags if present.
      */
-    text: string;
+    see?: CommentSeeReference[];
 
     /**
-     * The text of the ```@returns``` tag if present.
+     * The ```@throws``` tags if present.
      */
-    returns?: string;
+    throws?: CommentThrows[];
 
     /**
      * All associated tags.
      */
     tags: CommentTag[] = [];
 
+    /**
+     * The abstract of the comment. TypeDoc interprets the first paragraph of a comment
+     * as the abstract. Setting it also sets the [[shortTextParts]].
+     */
+    get shortText(): string {
+        return this._shortText;
+    }
+
+    set shortText(value: string) {
+        this._shortText = value;
+        this.shortTextParts = parseCommentParts(value);
+    }
+
+    /**
+     * The full body text of the comment. Excludes the [[shortText]].
+     * Setting it also sets the [[textParts]].
+     */
+    get text(): string {
+        return this._text;
+    }
+
+    set text(value: string) {
+        this._text = value;
+        this.textParts = parseCommentParts(value);
+    }
+
+    /**
+     * The text of the ```@returns``` tag if present. Setting it also sets the [[returnsParts]].
+     */
+    get returns(): string | undefined {
+        return this._returns;
+    }
+
+    set returns(value: string | undefined) {
+        this._returns = value;
+        this.returnsParts = parseCommentParts(value ?? "");
+    }
+
     /**
      * Creates a new Comment instance.
      */
@@ -45,6 +100,18 @@ export class Comment {
      * @returns TRUE when this comment has a visible component.
      */
     hasVisibleComponent(): boolean {
+        return (
+            this.hasDescription() || !!this.see?.length || !!this.throws?.length
+        );
+    }
+
+    /**
+     * Has this comment a short text, text or tags, which are rendered apart from the
+     * ```@see``` and ```@throws``` tags?
+     *
+     * @returns TRUE when this comment has a description.
+     */
+    hasDescription(): boolean {
         return !!this.shortText || !!this.text || this.tags.length > 0;
     }
 
@@ -87,7 +154,7 @@ export class Comment {
     /**
      * Copy the data of the given comment into this comment.
      *
-     * `shortText`, `text`, `returns` and tags from `COPIED_TAGS` are copied;
+     * `shortText`, `text`, `returns`, `see`, `throws` and tags from `COPIED_TAGS` are copied;
      * other instance tags left unchanged.
      *
      * @param comment - Source comment to copy from
@@ -96,6 +163,8 @@ export class Comment {
         this.shortText = comment.shortText;
         this.text = comment.text;
         this.returns = comment.returns;
+        this.see = comment.see;
+        this.throws = comment.throws;
         const overrideTags: CommentTag[] = comment.tags
             .filter((tag) => COPIED_TAGS.includes(tag.tagName))
             .map((tag) => new CommentTag(tag.tagName, tag.paramName, tag.text));
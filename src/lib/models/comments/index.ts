@@ -1,2 +1,11 @@
 export { Comment } from "./comment";
 export { CommentTag } from "./tag";
+export { parseCommentParts, splitLinkText } from "./parts";
+export type {
+    CommentDisplayPart,
+    CommentTextPart,
+    CommentCodePart,
+    CommentInlineTagPart,
+} from "./parts";
+export { parseSeeTag, parseThrowsTag } from "./structured-tags";
+export type { CommentSeeReference, CommentThrows } from "./structured-tags";
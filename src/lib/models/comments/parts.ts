@@ -0,0 +1,184 @@
+/**
+ * Markdown text in a comment which isn't code or an inline tag.
+ */
+export interface CommentTextPart {
+    kind: "text";
+    text: string;
+}
+
+/**
+ * A code span or fenced code block in a comment, including its backticks.
+ */
+export interface CommentCodePart {
+    kind: "code";
+    text: string;
+}
+
+/**
+ * An inline tag like `{@link Foo}` or a `[[Foo]]` link in a comment.
+ */
+export interface CommentInlineTagPart {
+    kind: "inline-tag";
+    /**
+     * The name of the tag, including the `@`. `[[Foo]]` links are `@link` tags, or
+     * `@linkcode` tags if the link is wrapped in backticks.
+     */
+    tag: string;
+    /**
+     * The text which is displayed for the tag, for links this is the caption.
+     */
+    text: string;
+    /**
+     * The name or URL a link refers to, only set for link tags.
+     */
+    target?: string;
+    /**
+     * The tag as written in the comment, for example `[[Foo]]` or `{@link Foo | the caption}`.
+     */
+    original: string;
+}
+
+/**
+ * A part of the text of a comment. The parts of some text are created by [[parseCommentParts]],
+ * [[Comment]] and [[CommentTag]] store the parts of their texts when the texts are set.
+ */
+export type CommentDisplayPart =
+    | CommentTextPart
+    | CommentCodePart
+    | CommentInlineTagPart;
+
+const LINK_TAGS = ["@link", "@linkcode", "@linkplain"];
+
+const codeFence = /```[^]*?(?:```|$)/y;
+const codeSpan = /(`+)(?!`)[^]*?[^`]\1(?!`)/y;
+const bracketLink = /\[\[([^\]]+)\]\]/y;
+const inlineTag = /(?:\[([^\]]+?)\])?\{(@\w+)(?:\s+([^}]*))?\}/y;
+
+/**
+ * Split the given link into text and target at first pipe or space.
+ *
+ * @param text  The source string that should be checked for a split character.
+ * @returns An object containing the link text and target.
+ */
+export function splitLinkText(text: string): {
+    caption: string;
+    target: string;
+} {
+    let splitIndex = text.indexOf("|");
+    if (splitIndex === -1) {
+        splitIndex = text.search(/\s/);
+    }
+
+    if (splitIndex !== -1) {
+        return {
+            caption: text
+                .substr(splitIndex + 1)
+                .replace(/\n+/, " ")
+                .trim(),
+            target: text.substr(0, splitIndex).trim(),
+        };
+    } else {
+        return {
+            caption: text,
+            target: text,
+        };
+    }
+}
+
+function matchAt(pattern: RegExp, text: string, index: number) {
+    pattern.lastIndex = index;
+    return pattern.exec(text);
+}
+
+function parseBracketLink(
+    original: string,
+    content: string
+): CommentInlineTagPart | undefined {
+    // [[include:file.md]] is replaced with the file's contents when rendering.
+    if (content.startsWith("include:")) {
+        return;
+    }
+    const monospace = content[0] === "`" && content[content.length - 1] === "`";
+    const { caption, target } = splitLinkText(
+        monospace ? content.slice(1, -1) : content
+    );
+    return {
+        kind: "inline-tag",
+        tag: monospace ? "@linkcode" : "@link",
+        text: caption,
+        target,
+        original,
+    };
+}
+
+function parseInlineTag(
+    original: string,
+    leading: string | undefined,
+    tag: string,
+    content = ""
+): CommentInlineTagPart {
+    if (!LINK_TAGS.includes(tag)) {
+        return { kind: "inline-tag", tag, text: content.trim(), original };
+    }
+    const { caption, target } = splitLinkText(content.trim());
+    return {
+        kind: "inline-tag",
+        tag,
+        text: leading || caption,
+        target,
+        original,
+    };
+}
+
+/**
+ * Split the markdown text of a comment into text, code and inline tags. Code is detected
+ * first, so inline tags within code are not parsed.
+ *
+ * @param text  The text of a comment or a tag.
+ * @returns The parts of the text, which are empty if the text is empty.
+ */
+export function parseCommentParts(text: string): CommentDisplayPart[] {
+    const parts: CommentDisplayPart[] = [];
+    let textStart = 0;
+    let index = 0;
+
+    const push = (part: CommentDisplayPart, end: number) => {
+        if (textStart < index) {
+            parts.push({ kind: "text", text: text.slice(textStart, index) });
+        }
+        parts.push(part);
+        index = textStart = end;
+    };
+
+    while (index < text.length) {
+        let match: RegExpExecArray | null;
+        if ((match = matchAt(codeFence, text, index))) {
+            push({ kind: "code", text: match[0] }, codeFence.lastIndex);
+        } else if ((match = matchAt(codeSpan, text, index))) {
+            push({ kind: "code", text: match[0] }, codeSpan.lastIndex);
+        } else if (text[index] === "`") {
+            // Unmatched backticks are displayed as is.
+            index += /^`+/.exec(text.slice(index))![0].length;
+        } else if ((match = matchAt(bracketLink, text, index))) {
+            const end = bracketLink.lastIndex;
+            const part = parseBracketLink(match[0], match[1]);
+            if (part) {
+                push(part, end);
+            } else {
+                index = end;
+            }
+        } else if ((match = matchAt(inlineTag, text, index))) {
+            push(
+                parseInlineTag(match[0], match[1], match[2], match[3]),
+                inlineTag.lastIndex
+            );
+        } else {
+            index++;
+        }
+    }
+
+    if (textStart < text.length) {
+        parts.push({ kind: "text", text: text.slice(textStart) });
+    }
+    return parts;
+}
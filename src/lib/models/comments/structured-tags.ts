@@ -0,0 +1,109 @@
+import { CommentDisplayPart, parseCommentParts, splitLinkText } from "./parts";
+
+/**
+ * A `@see` tag of a comment.
+ */
+export interface CommentSeeReference {
+    /**
+     * The name or URL the tag refers to. Names are resolved like the targets of `{@link}` tags.
+     * Not set if the tag only contains a description.
+     */
+    target?: string;
+    /**
+     * The caption given to a `{@link}` or `[[link]]` target, if different from the target.
+     */
+    caption?: string;
+    /**
+     * The description following the target.
+     */
+    text: string;
+    /**
+     * The [[text]] split into text, code and inline tags.
+     */
+    textParts: CommentDisplayPart[];
+}
+
+/**
+ * A `@throws` tag of a comment.
+ */
+export interface CommentThrows {
+    /**
+     * The name of the thrown error type, given as `{RangeError}` or `{@link RangeError}`.
+     */
+    type?: string;
+    /**
+     * The description of when the error is thrown.
+     */
+    text: string;
+    /**
+     * The [[text]] split into text, code and inline tags.
+     */
+    textParts: CommentDisplayPart[];
+}
+
+const linkTag = /^\{@link(?:code|plain)?\s+([^}]*)\}/;
+const bracketLink = /^\[\[`?([^\]`]+)`?\]\]/;
+const typeExpression = /^\{([^@}][^}]*)\}/;
+const bareTarget = /^(\S+)(?:\s+-\s+|\s*$)/;
+const urlPrefix = /^(http|ftp)s?:\/\//;
+
+function trimDescription(text: string) {
+    return text.trim().replace(/^-\s+/, "");
+}
+
+function getDescription(text: string) {
+    return { text, textParts: parseCommentParts(text) };
+}
+
+/**
+ * Parse the text of a `@see` tag. The target may be given as a `{@link}` tag, a `[[link]]`,
+ * a URL or, if it is the only word or separated from the description with a dash, a name.
+ *
+ * @param text  The text of the tag.
+ */
+export function parseSeeTag(text: string): CommentSeeReference {
+    text = text.trim();
+
+    const link = linkTag.exec(text) ?? bracketLink.exec(text);
+    if (link) {
+        const { target, caption } = splitLinkText(link[1].trim());
+        const result: CommentSeeReference = {
+            target,
+            ...getDescription(trimDescription(text.substr(link[0].length))),
+        };
+        if (caption !== target) {
+            result.caption = caption;
+        }
+        return result;
+    }
+
+    const url = urlPrefix.test(text) ? /^\S+/.exec(text) : null;
+    const bare = url ?? bareTarget.exec(text);
+    if (bare) {
+        return {
+            target: bare[1] ?? bare[0],
+            ...getDescription(trimDescription(text.substr(bare[0].length))),
+        };
+    }
+
+    return getDescription(text);
+}
+
+/**
+ * Parse the text of a `@throws` tag, which may start with the thrown type in braces.
+ *
+ * @param text  The text of the tag.
+ */
+export function parseThrowsTag(text: string): CommentThrows {
+    text = text.trim();
+
+    const type = linkTag.exec(text) ?? typeExpression.exec(text);
+    if (type) {
+        return {
+            type: splitLinkText(type[1].trim()).target,
+            ...getDescription(trimDescription(text.substr(type[0].length))),
+        };
+    }
+
+    return getDescription(text);
+}
@@ -1,9 +1,13 @@
+import { CommentDisplayPart, parseCommentParts } from "./parts";
+
 /**
  * A model that represents a single javadoc comment tag.
  *
  * Tags are stored in the [[Comment.tags]] property.
  */
 export class CommentTag {
+    private _text = "";
+
     /**
      * The name of this tag.
      */
@@ -15,9 +19,21 @@ export class CommentTag {
     paramName: string;
 
     /**
-     * The actual body text of this tag.
+     * The [[text]] split into text, code and inline tags.
+     */
+    textParts: CommentDisplayPart[] = [];
+
+    /**
+     * The actual body text of this tag. Setting it also sets the [[textParts]].
      */
-    text: string;
+    get text(): string {
+        return this._text;
+    }
+
+    set text(value: string) {
+        this._text = value;
+        this.textParts = parseCommentParts(value);
+    }
 
     /**
      * Create a new CommentTag instance.
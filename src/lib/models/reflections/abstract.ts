@@ -31,6 +31,16 @@ export function resetReflectionID() {
     REFLECTION_ID = 0;
 }
 
+/**
+ * Ensure that reflections created from now on receive an id greater than the given id.
+ *
+ * Used when reviving serialized projects, which keep the ids they were created with.
+ * @internal
+ */
+export function reserveReflectionIds(id: number) {
+    REFLECTION_ID = Math.max(REFLECTION_ID, id + 1);
+}
+
 /**
  * Defines the available reflection kinds.
  */
@@ -117,6 +127,42 @@ export enum ReflectionFlag {
     Const = 1024,
     Let = 2048,
     Readonly = 4096,
+    Deprecated = 8192,
+    Alpha = 16384,
+    Beta = 32768,
+    Experimental = 65536,
+}
+
+/**
+ * The release stages of API Extractor's model, ordered from the least to the most stable.
+ * Reflections are assigned a stage with the `@internal`, `@alpha`, `@beta`, `@experimental`
+ * and `@public` tags, `@experimental` is a synonym for `@beta`. Reflections without such a
+ * tag are public unless they inherit the stage of a parent.
+ */
+export enum ReleaseStage {
+    Internal,
+    Alpha,
+    Beta,
+    Public,
+}
+
+/**
+ * Get the release stage of the given reflection, stages are inherited from parent
+ * containers by the [[CommentPlugin]].
+ *
+ * @param reflection  The reflection whose release stage should be returned.
+ */
+export function getReleaseStage(reflection: Reflection): ReleaseStage {
+    if (reflection.comment?.hasTag("internal")) {
+        return ReleaseStage.Internal;
+    }
+    if (reflection.flags.isAlpha) {
+        return ReleaseStage.Alpha;
+    }
+    if (reflection.flags.isBeta || reflection.flags.isExperimental) {
+        return ReleaseStage.Beta;
+    }
+    return ReleaseStage.Public;
 }
 
 const relevantFlags: ReflectionFlag[] = [
@@ -131,6 +177,10 @@ const relevantFlags: ReflectionFlag[] = [
     ReflectionFlag.Let,
     ReflectionFlag.Const,
     ReflectionFlag.Readonly,
+    ReflectionFlag.Deprecated,
+    ReflectionFlag.Alpha,
+    ReflectionFlag.Beta,
+    ReflectionFlag.Experimental,
 ];
 
 /**
@@ -214,6 +264,35 @@ export class ReflectionFlags extends Array<string> {
         return this.hasFlag(ReflectionFlag.Readonly);
     }
 
+    /**
+     * Whether this reflection is marked with `@deprecated`, for declarations with signatures
+     * this is only set if every signature is deprecated.
+     */
+    get isDeprecated() {
+        return this.hasFlag(ReflectionFlag.Deprecated);
+    }
+
+    /**
+     * Whether this reflection is marked with `@alpha`, directly or through a parent.
+     */
+    get isAlpha() {
+        return this.hasFlag(ReflectionFlag.Alpha);
+    }
+
+    /**
+     * Whether this reflection is marked with `@beta`, directly or through a parent.
+     */
+    get isBeta() {
+        return this.hasFlag(ReflectionFlag.Beta);
+    }
+
+    /**
+     * Whether this reflection is marked with `@experimental`, directly or through a parent.
+     */
+    get isExperimental() {
+        return this.hasFlag(ReflectionFlag.Experimental);
+    }
+
     setFlag(flag: ReflectionFlag, set: boolean) {
         switch (flag) {
             case ReflectionFlag.Private:
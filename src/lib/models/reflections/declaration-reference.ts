@@ -0,0 +1,386 @@
+import { Reflection, ReflectionKind, TraverseProperty } from "./abstract";
+import type { ProjectReflection } from "./project";
+
+/**
+ * The keywords which may be used to select the meaning of a component of a declaration reference,
+ * for example `static` in `Foo.(bar:static)`.
+ */
+export const MeaningKeywords = {
+    class: ReflectionKind.Class,
+    interface: ReflectionKind.Interface,
+    type: ReflectionKind.TypeAlias | ReflectionKind.Interface,
+    enum: ReflectionKind.Enum,
+    namespace: ReflectionKind.SomeModule,
+    function: ReflectionKind.FunctionOrMethod,
+    var: ReflectionKind.Variable,
+    constructor: ReflectionKind.Constructor,
+    member:
+        ReflectionKind.ClassMember |
+        ReflectionKind.EnumMember |
+        ReflectionKind.Property,
+    event: ReflectionKind.Event,
+    call: ReflectionKind.CallSignature,
+    new: ReflectionKind.ConstructorSignature,
+    index: ReflectionKind.IndexSignature,
+    complex: ReflectionKind.All,
+    static: ReflectionKind.All,
+    instance: ReflectionKind.All,
+};
+
+export type MeaningKeyword = keyof typeof MeaningKeywords;
+
+/**
+ * Selects which of the reflections with the name of a component is referenced.
+ */
+export interface Meaning {
+    keyword?: MeaningKeyword;
+    /**
+     * The 1 based index of the signature of an overloaded function or method.
+     */
+    index?: number;
+}
+
+export interface SymbolReferenceComponent {
+    /**
+     * How the component is reached from the previous component. `#` only matches instance
+     * members, `.` and `~` match any child to support existing dotted links.
+     */
+    navigation: "." | "#" | "~";
+    name: string;
+    meaning?: Meaning;
+}
+
+/**
+ * A parsed TSDoc declaration reference, like `pkg/sub!Foo#bar` or `Foo.(bar:static)`.
+ */
+export interface DeclarationReference {
+    /**
+     * The module or package name given before the `!`.
+     */
+    moduleSource?: string;
+    symbolPath: SymbolReferenceComponent[];
+}
+
+const moduleSourcePattern = /^((?:"[^"]*"|[^"!\s])+)!/;
+const namePattern = /^(?:"([^"]*)"|([^.#~:()[\]"!\s]+))/;
+const groupPattern = /^\(([^():!\s]+)(?::([a-z]*(?:\(\d+\)|\d+)?))?\)/;
+const meaningPattern = /^([a-z]+)?(?:\((\d+)\)|(\d+))?$/;
+
+function parseMeaning(text: string): Meaning | undefined {
+    const match = meaningPattern.exec(text);
+    if (!match || (!match[1] && !match[2] && !match[3])) {
+        return;
+    }
+    if (
+        match[1] &&
+        !Object.prototype.hasOwnProperty.call(MeaningKeywords, match[1])
+    ) {
+        return;
+    }
+
+    const meaning: Meaning = {};
+    if (match[1]) {
+        meaning.keyword = match[1] as MeaningKeyword;
+    }
+    if (match[2] || match[3]) {
+        meaning.index = +(match[2] || match[3]);
+    }
+    return meaning;
+}
+
+/**
+ * Parse a TSDoc declaration reference. The following forms are supported:
+ *
+ * - `Foo.bar`, `Foo#bar` and `Foo~bar` to navigate to members.
+ * - `pkg/sub!Foo` to start resolving at the module or package named `pkg/sub`.
+ * - `Foo.(bar:static)`, `Foo.(constructor)` and `Foo.bar:instance` to select members by meaning.
+ * - `foo(:2)`, `foo:2` and `foo:function(2)` to select the second overload of `foo`.
+ *
+ * @param text  The target of a link.
+ * @returns The parsed reference, or undefined if the text is not a declaration reference.
+ */
+export function parseDeclarationReference(
+    text: string
+): DeclarationReference | undefined {
+    const result: DeclarationReference = { symbolPath: [] };
+    let rest = text.trim();
+
+    const moduleSource = moduleSourcePattern.exec(rest);
+    if (moduleSource) {
+        result.moduleSource = moduleSource[1].replace(/"/g, "");
+        rest = rest.substr(moduleSource[0].length);
+    }
+
+    let navigation: SymbolReferenceComponent["navigation"] = ".";
+    while (rest) {
+        let component: SymbolReferenceComponent;
+        const group = groupPattern.exec(rest);
+        if (group) {
+            const meaning =
+                group[2] === undefined ? undefined : parseMeaning(group[2]);
+            if (group[2] !== undefined && !meaning) {
+                return;
+            }
+            component = { navigation, name: group[1] };
+            if (meaning) {
+                component.meaning = meaning;
+            }
+            rest = rest.substr(group[0].length);
+        } else {
+            const name = namePattern.exec(rest);
+            if (!name) {
+                return;
+            }
+            component = { navigation, name: name[1] ?? name[2] };
+            rest = rest.substr(name[0].length);
+        }
+
+        // A meaning following the component: foo:2, foo(:2) or foo:function(2)
+        const meaning =
+            /^\(:([^)]*)\)/.exec(rest) ??
+            /^:([a-z]*(?:\(\d+\)|\d+)?)/.exec(rest);
+        if (meaning && !component.meaning) {
+            const parsedMeaning = parseMeaning(meaning[1]);
+            if (!parsedMeaning) {
+                return;
+            }
+            component.meaning = parsedMeaning;
+            rest = rest.substr(meaning[0].length);
+        }
+        result.symbolPath.push(component);
+
+        if (!rest) {
+            break;
+        }
+        if (!".#~".includes(rest[0]) || rest.length === 1) {
+            return;
+        }
+        navigation = rest[0] as SymbolReferenceComponent["navigation"];
+        rest = rest.substr(1);
+    }
+
+    if (!result.moduleSource && !result.symbolPath.length) {
+        return;
+    }
+    return result;
+}
+
+function getChildren(reflection: Reflection): Reflection[] {
+    const children: Reflection[] = [];
+    reflection.traverse((child, property) => {
+        if (property === TraverseProperty.Children) {
+            children.push(child);
+        } else if (property === TraverseProperty.TypeLiteral) {
+            // Members of object types are referenced as members of the variable or property.
+            children.push(...getChildren(child));
+        }
+    });
+    return children;
+}
+
+function getSignatures(reflection: Reflection): Reflection[] {
+    const signatures: Reflection[] = [];
+    reflection.traverse((child, property) => {
+        if (
+            property === TraverseProperty.Signatures ||
+            property === TraverseProperty.IndexSignature
+        ) {
+            signatures.push(child);
+        }
+    });
+    return signatures;
+}
+
+function matchesName(reflection: Reflection, name: string) {
+    return reflection.name === name || reflection.name === `"${name}"`;
+}
+
+function applyMeaning(
+    reflections: Reflection[],
+    meaning: Meaning | undefined
+): Reflection[] {
+    if (!meaning) {
+        return reflections;
+    }
+
+    let result = reflections;
+    switch (meaning.keyword) {
+        case undefined:
+        case "complex":
+            break;
+        case "static":
+            result = result.filter((refl) => refl.flags.isStatic);
+            break;
+        case "instance":
+            result = result.filter((refl) => !refl.flags.isStatic);
+            break;
+        case "call":
+        case "new":
+        case "index":
+            result = ([] as Reflection[])
+                .concat(...result.map(getSignatures))
+                .filter((refl) =>
+                    refl.kindOf(MeaningKeywords[meaning.keyword!])
+                );
+            break;
+        default:
+            result = result.filter((refl) =>
+                refl.kindOf(MeaningKeywords[meaning.keyword!])
+            );
+    }
+
+    if (meaning.index !== undefined) {
+        result = ([] as Reflection[]).concat(
+            ...result.map((refl) => {
+                if (refl.kindOf(ReflectionKind.SomeSignature)) {
+                    return refl;
+                }
+                const signature = getSignatures(refl).filter((sig) =>
+                    sig.kindOf(
+                        ReflectionKind.CallSignature |
+                            ReflectionKind.ConstructorSignature
+                    )
+                )[meaning.index! - 1];
+                return signature ? [signature] : [];
+            })
+        );
+    }
+
+    return result;
+}
+
+function resolveSymbolPath(
+    scope: Reflection,
+    path: readonly SymbolReferenceComponent[]
+): Reflection[] {
+    let current = [scope];
+    for (const component of path) {
+        const next: Reflection[] = [];
+        for (const refl of current) {
+            for (const child of getChildren(refl)) {
+                if (
+                    matchesName(child, component.name) &&
+                    !(component.navigation === "#" && child.flags.isStatic)
+                ) {
+                    next.push(child);
+                }
+            }
+        }
+        current = applyMeaning(next, component.meaning);
+        if (!current.length) {
+            break;
+        }
+    }
+    return current;
+}
+
+function getProject(reflection: Reflection): ProjectReflection {
+    let current = reflection;
+    while (current.parent) {
+        current = current.parent;
+    }
+    return current as ProjectReflection;
+}
+
+/**
+ * Search the whole project for reflections with the names of the path. Intended as a
+ * last resort as this finds members of every module.
+ */
+function searchProject(
+    reflection: Reflection,
+    path: readonly SymbolReferenceComponent[]
+): Reflection[] {
+    const project = getProject(reflection);
+    const last = path[path.length - 1];
+    const candidates = Object.values(project.reflections).filter(
+        (refl) =>
+            matchesName(refl, last.name) &&
+            !refl.kindOf(ReflectionKind.SomeSignature)
+    );
+
+    const matches = candidates.filter((candidate) => {
+        let parent = candidate.parent;
+        for (let i = path.length - 2; i >= 0; i--) {
+            // Skip type literals, their members are referenced as members of their parent.
+            while (parent?.kindOf(ReflectionKind.TypeLiteral)) {
+                parent = parent.parent;
+            }
+            if (!parent || !matchesName(parent, path[i].name)) {
+                return false;
+            }
+            parent = parent.parent;
+        }
+        return true;
+    });
+    return applyMeaning(matches, last.meaning);
+}
+
+/**
+ * Find the reflections a declaration reference refers to when used in the comment of the
+ * given reflection.
+ *
+ * If a module source is given, the path is resolved starting at the modules with that name.
+ * Otherwise the path is resolved starting at the given reflection, then each of its parents,
+ * and if nothing is found, by searching the whole project.
+ *
+ * @param reflection  The reflection whose comment contains the reference.
+ * @param reference  The parsed declaration reference.
+ * @returns All matching reflections, more than one if the reference is ambiguous.
+ */
+export function findReflectionsByReference(
+    reflection: Reflection,
+    reference: DeclarationReference
+): Reflection[] {
+    const path = reference.symbolPath;
+
+    if (reference.moduleSource !== undefined) {
+        const project = getProject(reflection);
+        const modules = [
+            project,
+            ...project.getReflectionsByKind(ReflectionKind.SomeModule),
+        ].filter((refl) => matchesName(refl, reference.moduleSource!));
+        return unique(
+            ([] as Reflection[]).concat(
+                ...modules.map((module) =>
+                    path.length ? resolveSymbolPath(module, path) : [module]
+                )
+            )
+        );
+    }
+
+    for (
+        let scope: Reflection | undefined = reflection;
+        scope;
+        scope = scope.parent
+    ) {
+        const matches = resolveSymbolPath(scope, path);
+        if (matches.length) {
+            return unique(matches);
+        }
+    }
+
+    return unique(searchProject(reflection, path));
+}
+
+function unique(reflections: Reflection[]) {
+    return Array.from(new Set(reflections));
+}
+
+/**
+ * Find the reflections the target of a link in the comment of the given reflection refers to.
+ * Targets which are not declaration references are resolved with
+ * [[Reflection.findReflectionByName]].
+ *
+ * @returns All matching reflections, more than one if the target is ambiguous.
+ */
+export function resolveLinkTarget(
+    reflection: Reflection,
+    target: string
+): Reflection[] {
+    const reference = parseDeclarationReference(target);
+    if (reference) {
+        return findReflectionsByReference(reflection, reference);
+    }
+    const found = reflection.findReflectionByName(target);
+    return found ? [found] : [];
+}
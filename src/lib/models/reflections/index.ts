@@ -4,6 +4,8 @@ export {
     ReflectionFlag,
     TraverseProperty,
     ReflectionFlags,
+    ReleaseStage,
+    getReleaseStage,
 } from "./abstract";
 export type { TypeParameterContainer, Decorator } from "./abstract";
 export { ContainerReflection } from "./container";
@@ -15,3 +17,15 @@ export { ReferenceReflection } from "./reference";
 export { SignatureReflection } from "./signature";
 export { TypeParameterReflection } from "./type-parameter";
 export { splitUnquotedString } from "./utils";
+export {
+    parseDeclarationReference,
+    findReflectionsByReference,
+    resolveLinkTarget,
+    MeaningKeywords,
+} from "./declaration-reference";
+export type {
+    DeclarationReference,
+    SymbolReferenceComponent,
+    Meaning,
+    MeaningKeyword,
+} from "./declaration-reference";
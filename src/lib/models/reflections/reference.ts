@@ -17,7 +17,7 @@ import { ProjectReflection } from "./project";
  * ```
  */
 export class ReferenceReflection extends DeclarationReflection {
-    private _target: Reflection | ts.Symbol;
+    private _target: Reflection | ts.Symbol | number;
     private _project?: ProjectReflection;
 
     /**
@@ -53,7 +53,10 @@ export class ReferenceReflection extends DeclarationReflection {
         if (this._target instanceof Reflection) {
             return this._target;
         }
-        const target = this._project!.getReflectionFromSymbol(this._target);
+        const target =
+            typeof this._target === "number"
+                ? this._project!.getReflectionById(this._target)
+                : this._project!.getReflectionFromSymbol(this._target);
         if (target) this._target = target;
         return target;
     }
@@ -41,6 +41,16 @@ export class ReferenceType extends Type {
         return resolved;
     }
 
+    /**
+     * The symbol this type refers to, if it has not been resolved to a reflection.
+     * Not set for references revived from JSON or which don't refer to anything.
+     */
+    getSymbol(): ts.Symbol | undefined {
+        if (typeof this._target === "object") {
+            return this._target;
+        }
+    }
+
     /**
      * Horrible hacky solution to get around Handlebars messing with `this` in bad ways.
      * Don't use this if possible, it will go away once we use something besides handlebars for themes.
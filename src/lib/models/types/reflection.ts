@@ -1,5 +1,31 @@
-import { DeclarationReflection } from "../reflections/declaration";
+import { ReflectionKind } from "../reflections/abstract";
+import type { DeclarationReflection } from "../reflections/declaration";
+import type { SignatureReflection } from "../reflections/signature";
 import { Type } from "./abstract";
+import { printSignature, printType } from "../../diff/diff";
+
+/**
+ * Print a signature of a type literal like `(value: string): number` or, as a function
+ * type, `(value: string) => number`.
+ */
+function printMemberSignature(signature: SignatureReflection, arrow: boolean) {
+    const prefix = signature.kindOf(ReflectionKind.ConstructorSignature)
+        ? "new "
+        : "";
+    return prefix + printSignature(signature, arrow);
+}
+
+function printMember(member: DeclarationReflection) {
+    const name = `${member.flags.isReadonly ? "readonly " : ""}${member.name}${
+        member.flags.isOptional ? "?" : ""
+    }`;
+    if (member.signatures) {
+        return member.signatures
+            .map((signature) => name + printMemberSignature(signature, false))
+            .join("; ");
+    }
+    return `${name}: ${printType(member.type)}`;
+}
 
 /**
  * Represents a type which has it's own reflection like literal types.
@@ -49,13 +75,24 @@ export class ReflectionType extends Type {
     }
 
     /**
-     * Return a string representation of this type.
+     * Return a string representation of this type, function types are printed as
+     * `(a: string) => void`, other types as object literals.
      */
     toString() {
-        if (!this.declaration.children && this.declaration.signatures) {
-            return "function";
-        } else {
-            return "object";
+        const { children, signatures, indexSignature } = this.declaration;
+        if (!children && !indexSignature && signatures?.length === 1) {
+            return `(${printMemberSignature(signatures[0], true)})`;
         }
+
+        const members = [
+            ...(signatures ?? []).map((sig) =>
+                printMemberSignature(sig, false)
+            ),
+            ...(indexSignature
+                ? [printMemberSignature(indexSignature, false)]
+                : []),
+            ...(children ?? []).map(printMember),
+        ];
+        return members.length ? `{ ${members.join("; ")} }` : "{}";
     }
 }
@@ -0,0 +1,120 @@
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    SignatureReflection,
+} from "../../models/reflections/index";
+
+/**
+ * A single deprecated reflection listed by the [[DeprecatedIndex]].
+ */
+export interface DeprecatedItem {
+    /**
+     * The full name of the deprecated reflection.
+     */
+    name: string;
+
+    /**
+     * The declaration this item links to. For deprecated signatures this is the declaration
+     * containing the signature.
+     */
+    reflection: DeclarationReflection;
+
+    /**
+     * The deprecated signature, only set if some signatures of [[reflection]] are not deprecated.
+     */
+    signature?: SignatureReflection;
+
+    /**
+     * The text of the `@deprecated` tag, explaining what should be used instead.
+     */
+    reason: string;
+}
+
+/**
+ * The model of the page which lists all deprecated reflections of a project.
+ *
+ * The [[DefaultTheme]] renders this page if the project contains deprecated reflections, it
+ * uses the `deprecated.hbs` template of the theme if present.
+ */
+export class DeprecatedIndex {
+    /**
+     * The visible title of the page.
+     */
+    name = "Deprecated APIs";
+
+    /**
+     * The url of the page.
+     */
+    url = "deprecated.html";
+
+    /**
+     * The project the deprecated reflections belong to. Named parent so that the page is
+     * rendered with breadcrumbs.
+     */
+    parent: ProjectReflection;
+
+    /**
+     * The deprecated reflections, sorted by name.
+     */
+    items: DeprecatedItem[];
+
+    /**
+     * Create a new DeprecatedIndex instance.
+     *
+     * @param project  The project whose deprecated reflections should be listed.
+     */
+    constructor(project: ProjectReflection) {
+        this.parent = project;
+        this.items = DeprecatedIndex.getItems(project);
+    }
+
+    /**
+     * Collect the deprecated reflections of the given project which have their own url.
+     *
+     * @param project  The project whose reflections should be searched.
+     */
+    static getItems(project: ProjectReflection): DeprecatedItem[] {
+        const items: DeprecatedItem[] = [];
+
+        for (const reflection of Object.values(project.reflections)) {
+            if (!reflection.flags.isDeprecated) {
+                continue;
+            }
+
+            if (reflection instanceof DeclarationReflection) {
+                items.push({
+                    name: reflection.getFullName(),
+                    reflection,
+                    reason: getReason(reflection),
+                });
+            } else if (
+                reflection instanceof SignatureReflection &&
+                reflection.parent instanceof DeclarationReflection &&
+                !reflection.parent.flags.isDeprecated
+            ) {
+                items.push({
+                    name: reflection.parent.getFullName(),
+                    reflection: reflection.parent,
+                    signature: reflection,
+                    reason: getReason(reflection),
+                });
+            }
+        }
+
+        return items
+            .filter((item) => item.reflection.url)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
+
+function getReason(reflection: DeclarationReflection | SignatureReflection) {
+    let tag = reflection.comment?.getTag("deprecated");
+    // Functions and methods are commented on their signatures
+    if (!tag && reflection instanceof DeclarationReflection) {
+        tag = reflection
+            .getAllSignatures()
+            .find((signature) => signature.comment?.hasTag("deprecated"))
+            ?.comment?.getTag("deprecated");
+    }
+    return tag?.text.trim() ?? "";
+}
@@ -0,0 +1,136 @@
+import * as FS from "fs";
+import * as Path from "path";
+import type { Theme as ShikiTheme } from "shiki";
+
+import { ProjectReflection } from "../../models/reflections/index";
+import { SourceFile } from "../../models/sources/index";
+import { highlight } from "../../utils/highlighter";
+
+/**
+ * A single highlighted line of a [[SourcePage]].
+ */
+export interface SourceLine {
+    /**
+     * The one based number of the line, used as its anchor.
+     */
+    number: number;
+
+    /**
+     * The highlighted html of the line, names of declarations link to their reflections.
+     */
+    html: string;
+}
+
+/**
+ * Languages of the file extensions TypeDoc reads sources from.
+ */
+const languages: Record<string, string> = {
+    ".ts": "typescript",
+    ".mts": "typescript",
+    ".cts": "typescript",
+    ".tsx": "tsx",
+    ".js": "javascript",
+    ".mjs": "javascript",
+    ".cjs": "javascript",
+    ".jsx": "jsx",
+};
+
+/**
+ * The model of the page which displays the highlighted contents of a source file.
+ *
+ * The [[DefaultTheme]] renders one page per source file if the `sourcePages` option is set,
+ * it uses the `source.hbs` template of the theme if present.
+ */
+export class SourcePage {
+    /**
+     * The visible title of the page, the path of the file relative to the project.
+     */
+    name: string;
+
+    /**
+     * The url of the page.
+     */
+    url: string;
+
+    /**
+     * The project the file belongs to. Named parent so that the page is rendered with breadcrumbs.
+     */
+    parent: ProjectReflection;
+
+    /**
+     * The source file displayed by this page.
+     */
+    file: SourceFile;
+
+    /**
+     * The highlighted lines of the file, only set while the page is rendered.
+     */
+    lines?: SourceLine[];
+
+    /**
+     * Create a new SourcePage instance.
+     *
+     * @param project  The project the file belongs to.
+     * @param file  The source file which should be displayed.
+     */
+    constructor(project: ProjectReflection, file: SourceFile) {
+        this.parent = project;
+        this.file = file;
+        this.name = file.fileName;
+        this.url = `sources/${file.fileName}.html`;
+    }
+
+    /**
+     * Get the url of the given line on this page.
+     *
+     * @param line  The one based number of the line.
+     */
+    getLineUrl(line: number) {
+        return `${this.url}#L${line}`;
+    }
+
+    /**
+     * Read and highlight the contents of the file.
+     *
+     * @param theme  The Shiki theme to highlight the file with.
+     */
+    getLines(theme: ShikiTheme): SourceLine[] {
+        const code = FS.readFileSync(this.file.fullFileName, "utf-8");
+        const lang =
+            languages[Path.extname(this.file.fileName).toLowerCase()] ?? "text";
+        const lines = highlight(code.replace(/\r\n/g, "\n"), lang, theme)
+            .replace(/\n$/, "")
+            .split("\n");
+
+        for (const reflection of this.file.reflections) {
+            const source = reflection.sources?.find(
+                (source) => source.file === this.file
+            );
+            if (!reflection.url || !source || !lines[source.line - 1]) {
+                continue;
+            }
+            lines[source.line - 1] = this.linkName(
+                lines[source.line - 1],
+                reflection.name,
+                reflection.url
+            );
+        }
+
+        return lines.map((html, index) => ({ number: index + 1, html }));
+    }
+
+    /**
+     * Wrap the first token of the given line which equals the name in a link.
+     */
+    private linkName(line: string, name: string, url: string) {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        const relative = Path.relative(Path.dirname(this.url), url).replace(
+            /\\/g,
+            "/"
+        );
+        return line.replace(
+            new RegExp(`(<span[^>]*>)(${escaped})(</span>)`),
+            `$1<a href="${relative}">$2</a>$3`
+        );
+    }
+}
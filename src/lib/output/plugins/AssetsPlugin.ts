@@ -3,6 +3,7 @@ import * as FS from "fs-extra";
 
 import { Component, RendererComponent } from "../components";
 import { RendererEvent } from "../events";
+import { DefaultTheme } from "../themes/DefaultTheme";
 
 /**
  * A plugin that copies the subdirectory ´assets´ from the current themes
@@ -42,6 +43,11 @@ export class AssetsPlugin extends RendererComponent {
             fromDefault = undefined;
         }
 
+        // The assets TypeDoc adds to the default theme, like the stylesheet of its layout.
+        if (this.owner.theme instanceof DefaultTheme) {
+            FS.copySync(Path.join(DefaultTheme.RESOURCES_PATH, "assets"), to);
+        }
+
         const from = Path.join(this.owner.theme!.basePath, "assets");
         if (from !== fromDefault && FS.existsSync(from)) {
             FS.copySync(from, to);
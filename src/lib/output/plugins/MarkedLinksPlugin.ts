@@ -1,30 +1,47 @@
 import * as Util from "util";
+import * as Handlebars from "handlebars";
 
-import { Reflection } from "../../models/reflections/abstract";
+import { Reflection, ReflectionKind } from "../../models/reflections/abstract";
+import { resolveLinkTarget } from "../../models/reflections/declaration-reference";
 import { Component, ContextAwareRendererComponent } from "../components";
 import { MarkdownEvent, RendererEvent } from "../events";
 import { BindOption } from "../../utils";
+import { parseCommentParts, splitLinkText } from "../../models/comments/index";
+
+/**
+ * Get the URL of the given reflection, signatures don't have their own page or anchor
+ * so link to the page of their declaration.
+ */
+function getUrl(reflection: Reflection): string | undefined {
+    return reflection.kindOf(ReflectionKind.SomeSignature)
+        ? reflection.parent?.url
+        : reflection.url;
+}
+
+function formatLink(
+    resolved: { url: string; external: boolean },
+    caption: string
+) {
+    return Util.format(
+        '<a href="%s"%s>%s</a>',
+        resolved.url,
+        resolved.external ? ' class="external"' : "",
+        caption
+    );
+}
 
 /**
  * A plugin that builds links in markdown texts.
  */
 @Component({ name: "marked-links" })
 export class MarkedLinksPlugin extends ContextAwareRendererComponent {
-    /**
-     * Regular expression for detecting bracket links.
-     */
-    private brackets = /\[\[([^\]]+)\]\]/g;
-
-    /**
-     * Regular expression for detecting inline tags like {&amp;link ...}.
-     */
-    private inlineTag = /(?:\[(.+?)\])?\{@(link|linkcode|linkplain)\s+((?:.|\n)+?)\}/gi;
-
     @BindOption("listInvalidSymbolLinks")
     listInvalidSymbolLinks!: boolean;
 
     private warnings: string[] = [];
 
+    private ambiguous = new Set<string>();
+
     /**
      * Create a new MarkedLinksPlugin instance.
      */
@@ -39,10 +56,26 @@ export class MarkedLinksPlugin extends ContextAwareRendererComponent {
             undefined,
             100
         );
+
+        // Renders structured tags like @see and @throws, whose targets are not part of
+        // markdown text. Falls back to the caption if the target cannot be resolved.
+        Handlebars.registerHelper(
+            "linkTo",
+            (target: string, caption: unknown) => {
+                const text = Handlebars.escapeExpression(
+                    typeof caption === "string" && caption ? caption : target
+                );
+                const resolved = this.resolveUrl(target);
+                return new Handlebars.SafeString(
+                    resolved ? formatLink(resolved, text) : text
+                );
+            }
+        );
     }
 
     /**
      * Find all references to symbols within the given text and transform them into a link.
+     * The text is split into parts like comments are, so links within code are left as is.
      *
      * This function is aware of the current context and will try to find the symbol within the
      * current reflection. It will walk up the reflection chain till the symbol is found or the
@@ -52,48 +85,23 @@ export class MarkedLinksPlugin extends ContextAwareRendererComponent {
      * @param text  The text that should be parsed.
      * @returns The text with symbol references replaced by links.
      */
-    private replaceBrackets(text: string): string {
-        return text.replace(
-            this.brackets,
-            (match: string, content: string): string => {
-                const monospace =
-                    content[0] === "`" && content[content.length - 1] === "`";
-                const split = MarkedLinksPlugin.splitLinkText(
-                    monospace ? content.slice(1, -1) : content
-                );
+    private replaceLinks(text: string): string {
+        return parseCommentParts(text)
+            .map((part) => {
+                if (part.kind !== "inline-tag") {
+                    return part.text;
+                }
+                if (!part.target) {
+                    return part.original;
+                }
                 return this.buildLink(
-                    match,
-                    split.target,
-                    split.caption,
-                    monospace
+                    part.original,
+                    part.target,
+                    part.text,
+                    part.tag === "@linkcode"
                 );
-            }
-        );
-    }
-
-    /**
-     * Find symbol {&amp;link ...} strings in text and turn into html links
-     *
-     * @param text  The string in which to replace the inline tags.
-     * @return      The updated string.
-     */
-    private replaceInlineTags(text: string): string {
-        return text.replace(
-            this.inlineTag,
-            (
-                match: string,
-                leading: string,
-                tagName: string,
-                content: string
-            ): string => {
-                const split = MarkedLinksPlugin.splitLinkText(content);
-                const target = split.target;
-                const caption = leading || split.caption;
-                const monospace = tagName === "linkcode";
-
-                return this.buildLink(match, target, caption, monospace);
-            }
-        );
+            })
+            .join("");
     }
 
     /**
@@ -111,41 +119,65 @@ export class MarkedLinksPlugin extends ContextAwareRendererComponent {
         caption: string,
         monospace?: boolean
     ): string {
-        let attributes = "";
-        if (this.urlPrefix.test(target)) {
-            attributes = ' class="external"';
-        } else {
-            let reflection: Reflection | undefined;
-            if (this.reflection) {
-                reflection = this.reflection.findReflectionByName(target);
-            } else if (this.project) {
-                reflection = this.project.findReflectionByName(target);
-            }
-
-            if (reflection && reflection.url) {
-                if (this.urlPrefix.test(reflection.url)) {
-                    target = reflection.url;
-                    attributes = ' class="external"';
-                } else {
-                    target = this.getRelativeUrl(reflection.url);
-                }
-            } else {
-                const fullName = (this.reflection ||
-                    this.project)!.getFullName();
-                this.warnings.push(`In ${fullName}: ${original}`);
-                return original;
-            }
+        const resolved = this.resolveUrl(target);
+        if (!resolved) {
+            const context: Reflection = (this.reflection || this.project)!;
+            this.warnings.push(`In ${context.getFullName()}: ${original}`);
+            return original;
         }
 
         if (monospace) {
             caption = "<code>" + caption + "</code>";
         }
 
-        return Util.format(
-            '<a href="%s"%s>%s</a>',
-            target,
-            attributes,
-            caption
+        return formatLink(resolved, caption);
+    }
+
+    /**
+     * Resolve the url a link target refers to from the current page.
+     *
+     * @param target  The link target, either a URL or the name of a reflection.
+     * @returns The url and whether it is external, undefined if the target cannot be resolved.
+     */
+    private resolveUrl(
+        target: string
+    ): { url: string; external: boolean } | undefined {
+        if (this.urlPrefix.test(target)) {
+            return { url: target, external: true };
+        }
+
+        const context: Reflection = (this.reflection || this.project)!;
+        const matches = resolveLinkTarget(context, target);
+        if (matches.length > 1) {
+            this.warnAmbiguous(context, target, matches);
+        }
+
+        const url = matches.length ? getUrl(matches[0]) : undefined;
+        if (!url) {
+            return;
+        }
+        return this.urlPrefix.test(url)
+            ? { url, external: true }
+            : { url: this.getRelativeUrl(url), external: false };
+    }
+
+    /**
+     * Warn about a link target which matches more than one reflection, once per link.
+     */
+    private warnAmbiguous(
+        context: Reflection,
+        target: string,
+        matches: Reflection[]
+    ) {
+        const key = `${context.id}:${target}`;
+        if (this.ambiguous.has(key)) {
+            return;
+        }
+        this.ambiguous.add(key);
+        this.application.logger.warn(
+            `[MarkedLinksPlugin]: The link to ${target} in ${context.getFullName()} is ambiguous, it matches ${matches
+                .map((refl) => refl.getFullName())
+                .join(", ")}. Linking to the first match.`
         );
     }
 
@@ -155,9 +187,7 @@ export class MarkedLinksPlugin extends ContextAwareRendererComponent {
      * @param event
      */
     onParseMarkdown(event: MarkdownEvent) {
-        event.parsedText = this.replaceInlineTags(
-            this.replaceBrackets(event.parsedText)
-        );
+        event.parsedText = this.replaceLinks(event.parsedText);
     }
 
     /**
@@ -184,24 +214,6 @@ export class MarkedLinksPlugin extends ContextAwareRendererComponent {
      * @returns An object containing the link text and target.
      */
     static splitLinkText(text: string): { caption: string; target: string } {
-        let splitIndex = text.indexOf("|");
-        if (splitIndex === -1) {
-            splitIndex = text.search(/\s/);
-        }
-
-        if (splitIndex !== -1) {
-            return {
-                caption: text
-                    .substr(splitIndex + 1)
-                    .replace(/\n+/, " ")
-                    .trim(),
-                target: text.substr(0, splitIndex).trim(),
-            };
-        } else {
-            return {
-                caption: text,
-                target: text,
-            };
-        }
+        return splitLinkText(text);
     }
 }
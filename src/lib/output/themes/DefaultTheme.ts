@@ -11,9 +11,12 @@ import {
     DeclarationReflection,
 } from "../../models/reflections/index";
 import { ReflectionGroup } from "../../models/ReflectionGroup";
+import { SourceFile } from "../../models/sources/index";
 import { UrlMapping } from "../models/UrlMapping";
 import { NavigationItem } from "../models/NavigationItem";
-import { RendererEvent } from "../events";
+import { DeprecatedIndex } from "../models/DeprecatedIndex";
+import { SourcePage } from "../models/SourcePage";
+import { PageEvent, RendererEvent } from "../events";
 
 /**
  * Defines a mapping of a [[Models.Kind]] to a template file.
@@ -80,6 +83,18 @@ export class DefaultTheme extends Theme {
 
     static URL_PREFIX = /^(http|ftp)s?:\/\//;
 
+    /**
+     * The directory containing the templates and partials TypeDoc adds to the default theme,
+     * like the `comment` partial rendering the `@see` and `@throws` tags, the templates of
+     * [[SourcePage]]s and the [[DeprecatedIndex]] and the stylesheet of deprecated reflections.
+     */
+    static RESOURCES_PATH = Path.join(__dirname, "../../../../static");
+
+    /**
+     * The index of deprecated reflections created by [[getUrls]], reused by [[getNavigation]].
+     */
+    private deprecatedIndex?: DeprecatedIndex;
+
     /**
      * Create a new DefaultTheme instance.
      *
@@ -88,12 +103,27 @@ export class DefaultTheme extends Theme {
      */
     constructor(renderer: Renderer, basePath: string) {
         super(renderer, basePath);
+
+        // The resources of the theme take precedence over those added by TypeDoc,
+        // unless the theme is the default theme they extend.
+        this.resources.removeDirectory("theme");
+        this.resources.addDirectory("typedoc", DefaultTheme.RESOURCES_PATH);
+        if (
+            Path.resolve(basePath) !== Path.resolve(renderer.getDefaultTheme())
+        ) {
+            this.resources.addDirectory("theme", basePath);
+        }
+
         this.listenTo(
             renderer,
             RendererEvent.BEGIN,
             this.onRendererBegin,
             1024
         );
+        this.listenTo(renderer, {
+            [PageEvent.BEGIN]: this.onRendererBeginSourcePage,
+            [PageEvent.END]: this.onRendererEndSourcePage,
+        });
     }
 
     /**
@@ -147,6 +177,19 @@ export class DefaultTheme extends Theme {
             }
         });
 
+        if (this.application.options.getValue("sourcePages")) {
+            DefaultTheme.buildSourceUrls(project, urls);
+        }
+
+        // Created last, as it only lists reflections which have been given a url.
+        const deprecated = new DeprecatedIndex(project);
+        this.deprecatedIndex = deprecated;
+        if (deprecated.items.length) {
+            urls.push(
+                new UrlMapping(deprecated.url, deprecated, "deprecated.hbs")
+            );
+        }
+
         return urls;
     }
 
@@ -164,9 +207,20 @@ export class DefaultTheme extends Theme {
             project,
             multipleEntryPoints
         );
-        return builder.build(
+        const root = builder.build(
             this.application.options.getValue("readme") !== "none"
         );
+
+        // The renderer maps the urls before it builds the navigation.
+        const deprecated =
+            this.deprecatedIndex?.parent === project
+                ? this.deprecatedIndex
+                : new DeprecatedIndex(project);
+        if (deprecated.items.length) {
+            new NavigationItem(deprecated.name, deprecated.url, root);
+        }
+
+        return root;
     }
 
     /**
@@ -194,6 +248,31 @@ export class DefaultTheme extends Theme {
         }
     }
 
+    /**
+     * Triggered before a [[SourcePage]] is rendered, highlights the source file.
+     *
+     * @param page  An event object describing the current render operation.
+     */
+    private onRendererBeginSourcePage(page: PageEvent) {
+        if (!(page.model instanceof SourcePage)) {
+            return;
+        }
+        page.model.lines = page.model.getLines(
+            this.application.options.getValue("highlightTheme")
+        );
+    }
+
+    /**
+     * Triggered after a [[SourcePage]] has been rendered, releases the highlighted lines.
+     *
+     * @param page  An event object describing the current render operation.
+     */
+    private onRendererEndSourcePage(page: PageEvent) {
+        if (page.model instanceof SourcePage) {
+            page.model.lines = undefined;
+        }
+    }
+
     /**
      * Return a url for the given reflection.
      *
@@ -278,6 +357,34 @@ export class DefaultTheme extends Theme {
         return urls;
     }
 
+    /**
+     * Create a [[SourcePage]] for each source file of the project which can be read and
+     * link the sources of all reflections to these pages.
+     *
+     * @param project  The project whose source files should be rendered.
+     * @param urls     The array the url mappings should be appended to.
+     */
+    static buildSourceUrls(project: ProjectReflection, urls: UrlMapping[]) {
+        const pages = new Map<SourceFile, SourcePage>();
+        for (const file of project.files) {
+            if (FS.existsSync(file.fullFileName)) {
+                const page = new SourcePage(project, file);
+                pages.set(file, page);
+                file.url = page.url;
+                urls.push(new UrlMapping(page.url, page, "source.hbs"));
+            }
+        }
+
+        for (const reflection of Object.values(project.reflections)) {
+            for (const source of reflection.sources ?? []) {
+                const page = source.file && pages.get(source.file);
+                if (page) {
+                    source.url = page.getLineUrl(source.line);
+                }
+            }
+        }
+    }
+
     /**
      * Generate an anchor url for the given reflection and all of its children.
      *
@@ -357,6 +464,18 @@ export class DefaultTheme extends Theme {
         if (reflection.flags.isExternal) {
             classes.push("tsd-is-external");
         }
+        if (reflection.flags.isDeprecated) {
+            classes.push("tsd-is-deprecated");
+        }
+        if (reflection.flags.isAlpha) {
+            classes.push("tsd-is-alpha");
+        }
+        if (reflection.flags.isBeta) {
+            classes.push("tsd-is-beta");
+        }
+        if (reflection.flags.isExperimental) {
+            classes.push("tsd-is-experimental");
+        }
 
         reflection.cssClasses = classes.join(" ");
     }
@@ -130,6 +130,16 @@ export abstract class ResourceStack<T extends Resource> {
         return true;
     }
 
+    /**
+     * Test whether any origin contains a resource with the given name.
+     */
+    hasResource(name: string): boolean {
+        const normalizedName = normalizeName(name);
+        return this.origins.some((origin) =>
+            origin.hasResource(normalizedName)
+        );
+    }
+
     /**
      * Return a resource by its name.
      */
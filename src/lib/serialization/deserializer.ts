@@ -0,0 +1,885 @@
+import type * as ts from "typescript";
+import { EventDispatcher } from "../utils";
+import {
+    ArrayType,
+    Comment,
+    CommentTag,
+    ConditionalType,
+    ContainerReflection,
+    DeclarationHierarchy,
+    DeclarationReflection,
+    Decorator,
+    IndexedAccessType,
+    InferredType,
+    IntersectionType,
+    IntrinsicType,
+    LiteralType,
+    MappedType,
+    NamedTupleMember,
+    OptionalType,
+    ParameterReflection,
+    PredicateType,
+    ProjectReflection,
+    QueryType,
+    ReferenceReflection,
+    ReferenceType,
+    Reflection,
+    ReflectionCategory,
+    ReflectionFlag,
+    ReflectionGroup,
+    ReflectionKind,
+    ReflectionType,
+    RestType,
+    SignatureReflection,
+    SourceFile,
+    TemplateLiteralType,
+    TupleType,
+    Type,
+    TypeOperatorType,
+    TypeParameterReflection,
+    TypeParameterType,
+    UnionType,
+    UnknownType,
+} from "../models";
+import { reserveReflectionIds } from "../models/reflections/abstract";
+import { DeserializeEvent } from "./events";
+import * as JSONOutput from "./schema";
+
+/**
+ * Maps the boolean flags written by the [[ReflectionSerializer]] back to the flags they were created from.
+ */
+const flagMap: Record<keyof JSONOutput.ReflectionFlags, ReflectionFlag> = {
+    isPrivate: ReflectionFlag.Private,
+    isProtected: ReflectionFlag.Protected,
+    isPublic: ReflectionFlag.Public,
+    isStatic: ReflectionFlag.Static,
+    isExternal: ReflectionFlag.External,
+    isOptional: ReflectionFlag.Optional,
+    isRest: ReflectionFlag.Rest,
+    hasExportAssignment: ReflectionFlag.ExportAssignment,
+    isAbstract: ReflectionFlag.Abstract,
+    isConst: ReflectionFlag.Const,
+    isLet: ReflectionFlag.Let,
+    isReadonly: ReflectionFlag.Readonly,
+    isDeprecated: ReflectionFlag.Deprecated,
+    isAlpha: ReflectionFlag.Alpha,
+    isBeta: ReflectionFlag.Beta,
+    isExperimental: ReflectionFlag.Experimental,
+};
+
+/**
+ * Rebuilds a [[ProjectReflection]] from the JSON created by the [[Serializer]].
+ *
+ * Reflections revived by [[reviveProject]] keep the ids they were serialized with so that
+ * references between them, which are stored as ids, continue to resolve within the revived
+ * project. [[mergeProjects]] shifts the ids of each input so that they do not collide.
+ */
+export class Deserializer extends EventDispatcher {
+    /**
+     * Triggered when the [[Deserializer]] begins reviving a serialized project.
+     * When merging projects, this is triggered once for each input.
+     * @event EVENT_BEGIN
+     */
+    static EVENT_BEGIN = "begin";
+
+    /**
+     * Triggered when the [[Deserializer]] has finished reviving a serialized project.
+     * When merging projects, this is triggered once for each input.
+     * @event EVENT_END
+     */
+    static EVENT_END = "end";
+
+    /**
+     * The project currently being revived, set for the duration of [[reviveProject]].
+     */
+    private project?: ProjectReflection;
+
+    /**
+     * Source files created while reviving the current project, by file name.
+     */
+    private files = new Map<string, SourceFile>();
+
+    /**
+     * The amount added to every id of the input currently being revived.
+     */
+    private idOffset = 0;
+
+    /**
+     * The index of the input currently being revived when merging projects.
+     */
+    private inputIndex = 0;
+
+    /**
+     * Declarations exported by the merged inputs, by name. Used to link references which
+     * could not be resolved when the input referring to them was converted.
+     * Names exported by more than one input map to `undefined`.
+     */
+    private exports = new Map<
+        string,
+        { input: number; id: number } | undefined
+    >();
+
+    /**
+     * Targets for ids which the module currently being revived refers to but does not contain.
+     */
+    private externals: ReadonlyMap<number, ts.Symbol | undefined> = new Map();
+
+    /**
+     * Reflections revived since [[begin]] was last called.
+     */
+    private revived: Reflection[] = [];
+
+    /**
+     * Revive a project serialized with [[Serializer.projectToObject]].
+     *
+     * @param input  The serialized project.
+     * @returns The revived project.
+     */
+    reviveProject(input: JSONOutput.ProjectReflection): ProjectReflection {
+        const project = new ProjectReflection(input.name);
+        this.begin(project);
+
+        try {
+            this.trigger(
+                new DeserializeEvent(Deserializer.EVENT_BEGIN, project, input)
+            );
+            this.reviveContainer(project, input);
+            this.setTypeHierarchies();
+            this.trigger(
+                new DeserializeEvent(Deserializer.EVENT_END, project, input)
+            );
+        } finally {
+            this.end();
+        }
+
+        return project;
+    }
+
+    /**
+     * Revive several serialized projects into a single project containing one module
+     * for each input, named after the input project.
+     *
+     * References which could not be resolved within their own input are linked to a
+     * declaration exported from another input if exactly one input exports a declaration
+     * with the referenced name.
+     *
+     * @param name  The name of the merged project.
+     * @param inputs  The serialized projects.
+     * @returns The merged project.
+     */
+    mergeProjects(
+        name: string,
+        inputs: readonly JSONOutput.ProjectReflection[]
+    ): ProjectReflection {
+        const project = new ProjectReflection(name);
+        this.begin(project);
+
+        try {
+            let nextId = project.id + 1;
+            const offsets = inputs.map((input) => {
+                const offset = nextId;
+                nextId += getMaxId(input) + 1;
+                return offset;
+            });
+            inputs.forEach((input, index) =>
+                this.addExports(input, index, offsets[index])
+            );
+
+            project.children = inputs.map((input, index) => {
+                this.idOffset = offsets[index];
+                this.inputIndex = index;
+
+                this.trigger(
+                    new DeserializeEvent(
+                        Deserializer.EVENT_BEGIN,
+                        project,
+                        input
+                    )
+                );
+                const module = new DeclarationReflection(
+                    input.name,
+                    ReflectionKind.Module,
+                    project
+                );
+                this.reviveContainer(module, input);
+                // The input was serialized as a project.
+                module.kindString = "Module";
+                this.trigger(
+                    new DeserializeEvent(Deserializer.EVENT_END, project, input)
+                );
+
+                return module;
+            });
+
+            if (project.children.length) {
+                const group = new ReflectionGroup(
+                    "Modules",
+                    ReflectionKind.Module
+                );
+                group.children = project.children.slice();
+                project.groups = [group];
+            }
+
+            this.setTypeHierarchies();
+        } finally {
+            this.end();
+        }
+
+        return project;
+    }
+
+    /**
+     * Revive a module serialized with [[Serializer.toObject]] into an existing project.
+     * The revived reflections keep their ids unless one of them is already used within
+     * the project, in which case all of them are given new ids.
+     *
+     * If the serialized module is a project, its contents are revived into the given project
+     * rather than being added as a new module.
+     *
+     * @param project  The project to add the module to.
+     * @param input  The serialized module.
+     * @param externals  Targets for ids which the module refers to but does not contain.
+     *   References to ids mapped to `undefined` are revived as broken references.
+     * @returns The revived reflections.
+     */
+    reviveModule(
+        project: ProjectReflection,
+        input: JSONOutput.DeclarationReflection | JSONOutput.ProjectReflection,
+        externals: ReadonlyMap<number, ts.Symbol | undefined> = new Map()
+    ): Reflection[] {
+        this.begin(project);
+        this.externals = externals;
+        for (const file of project.files) {
+            this.files.set(file.fileName, file);
+        }
+        // Keep the serialized ids if possible, so that reviving a module results in the
+        // same project as converting it did.
+        const ids = getReflectionIds(input);
+        if (ids.some((id) => id in project.reflections)) {
+            this.idOffset =
+                Math.max(
+                    project.id,
+                    ...Object.keys(project.reflections).map(Number)
+                ) + 1;
+        }
+
+        try {
+            this.trigger(
+                new DeserializeEvent(Deserializer.EVENT_BEGIN, project, input)
+            );
+            if (input.kind === ReflectionKind.Project) {
+                const name = project.name;
+                this.reviveContainer(project, input);
+                project.name = name;
+            } else {
+                project.children = [
+                    ...(project.children ?? []),
+                    this.reviveDeclaration(input, project),
+                ];
+            }
+            this.trigger(
+                new DeserializeEvent(Deserializer.EVENT_END, project, input)
+            );
+
+            return this.revived;
+        } finally {
+            this.end();
+        }
+    }
+
+    /**
+     * Revive a single serialized type. Reflections created for object literal types are
+     * attached to the given parent.
+     *
+     * Must be called while a project is being revived as [[ReferenceType]] instances need
+     * the project to resolve their target.
+     */
+    reviveType(obj: JSONOutput.SomeType, parent: Reflection): Type {
+        switch (obj.type) {
+            case "array":
+                return new ArrayType(
+                    this.reviveType(
+                        (obj as JSONOutput.ArrayType).elementType,
+                        parent
+                    )
+                );
+            case "conditional": {
+                const type = obj as JSONOutput.ConditionalType;
+                return new ConditionalType(
+                    this.reviveType(type.checkType, parent),
+                    this.reviveType(type.extendsType, parent),
+                    this.reviveType(type.trueType, parent),
+                    this.reviveType(type.falseType, parent)
+                );
+            }
+            case "indexedAccess": {
+                const type = obj as JSONOutput.IndexedAccessType;
+                return new IndexedAccessType(
+                    this.reviveType(type.objectType, parent),
+                    this.reviveType(type.indexType, parent)
+                );
+            }
+            case "inferred":
+                return new InferredType((obj as JSONOutput.InferredType).name);
+            case "intersection":
+                return new IntersectionType(
+                    (obj as JSONOutput.IntersectionType).types.map((t) =>
+                        this.reviveType(t, parent)
+                    )
+                );
+            case "intrinsic":
+                return new IntrinsicType(
+                    (obj as JSONOutput.IntrinsicType).name
+                );
+            case "literal": {
+                const { value } = obj as JSONOutput.LiteralType;
+                if (typeof value === "object" && value !== null) {
+                    const bigint = BigInt(value.value);
+                    return new LiteralType(value.negative ? -bigint : bigint);
+                }
+                return new LiteralType(value);
+            }
+            case "mapped": {
+                const type = obj as JSONOutput.MappedType;
+                return new MappedType(
+                    type.parameter,
+                    this.reviveType(type.parameterType, parent),
+                    this.reviveType(type.templateType, parent),
+                    type.readonlyModifier,
+                    type.optionalModifier,
+                    this.reviveOptionalType(type.nameType, parent)
+                );
+            }
+            case "named-tuple-member": {
+                const type = obj as JSONOutput.NamedTupleMemberType;
+                return new NamedTupleMember(
+                    type.name,
+                    type.isOptional,
+                    this.reviveType(type.element, parent)
+                );
+            }
+            case "optional":
+                return new OptionalType(
+                    this.reviveType(
+                        (obj as JSONOutput.OptionalType).elementType,
+                        parent
+                    )
+                );
+            case "predicate": {
+                const type = obj as JSONOutput.PredicateType;
+                return new PredicateType(
+                    type.name,
+                    type.asserts,
+                    this.reviveOptionalType(type.targetType, parent)
+                );
+            }
+            case "query":
+                return new QueryType(
+                    this.reviveReferenceType(
+                        (obj as JSONOutput.QueryType).queryType,
+                        parent
+                    )
+                );
+            case "reference":
+                return this.reviveReferenceType(
+                    obj as JSONOutput.ReferenceType,
+                    parent
+                );
+            case "reflection":
+                return new ReflectionType(
+                    this.reviveDeclaration(
+                        (obj as JSONOutput.ReflectionType).declaration!,
+                        parent
+                    )
+                );
+            case "rest":
+                return new RestType(
+                    this.reviveType(
+                        (obj as JSONOutput.RestType).elementType,
+                        parent
+                    )
+                );
+            case "template-literal": {
+                const type = obj as JSONOutput.TemplateLiteralType;
+                return new TemplateLiteralType(
+                    type.head,
+                    type.tail.map(([t, text]) => [
+                        this.reviveType(t, parent),
+                        text,
+                    ])
+                );
+            }
+            case "tuple":
+                return new TupleType(
+                    (obj as JSONOutput.TupleType).elements?.map((t) =>
+                        this.reviveType(t, parent)
+                    ) ?? []
+                );
+            case "typeOperator": {
+                const type = obj as JSONOutput.TypeOperatorType;
+                return new TypeOperatorType(
+                    this.reviveType(type.target, parent),
+                    type.operator
+                );
+            }
+            case "typeParameter": {
+                const type = obj as JSONOutput.TypeParameterType;
+                const result = new TypeParameterType(type.name);
+                result.constraint = this.reviveOptionalType(
+                    type.constraint,
+                    parent
+                );
+                result.default = this.reviveOptionalType(type.default, parent);
+                return result;
+            }
+            case "union":
+                return new UnionType(
+                    (obj as JSONOutput.UnionType).types.map((t) =>
+                        this.reviveType(t, parent)
+                    )
+                );
+            case "unknown":
+                return new UnknownType((obj as JSONOutput.UnknownType).name);
+        }
+
+        throw new Error(`Cannot revive a type of unknown kind "${obj.type}"`);
+    }
+
+    private begin(project: ProjectReflection) {
+        this.project = project;
+        this.files.clear();
+        this.exports.clear();
+        this.externals = new Map();
+        this.revived = [];
+        this.idOffset = 0;
+        this.inputIndex = 0;
+    }
+
+    private end() {
+        this.project = undefined;
+        this.files.clear();
+        this.exports.clear();
+        this.externals = new Map();
+        this.revived = [];
+    }
+
+    private addExports(
+        input: JSONOutput.ProjectReflection,
+        index: number,
+        offset: number
+    ) {
+        const seen = new Set<string>();
+        const add = (child: JSONOutput.DeclarationReflection) => {
+            if (seen.has(child.name)) {
+                return;
+            }
+            seen.add(child.name);
+
+            this.exports.set(
+                child.name,
+                this.exports.has(child.name)
+                    ? undefined
+                    : { input: index, id: child.id + offset }
+            );
+        };
+
+        for (const child of input.children ?? []) {
+            if (child.kind === ReflectionKind.Module) {
+                child.children?.forEach(add);
+            } else {
+                add(child);
+            }
+        }
+    }
+
+    private getId(id: number) {
+        return id + this.idOffset;
+    }
+
+    private getTarget(id: number): ts.Symbol | number {
+        // The serializer writes -1 for references without a target.
+        if (id === -1) {
+            return -1;
+        }
+        if (this.externals.has(id)) {
+            return this.externals.get(id) ?? -1;
+        }
+        return this.getId(id);
+    }
+
+    private reviveOptionalType(
+        obj: JSONOutput.SomeType | undefined,
+        parent: Reflection
+    ): Type | undefined {
+        return obj && this.reviveType(obj, parent);
+    }
+
+    private reviveReferenceType(
+        obj: JSONOutput.ReferenceType,
+        parent: Reflection
+    ): ReferenceType {
+        let target = obj.id === undefined ? -1 : this.getTarget(obj.id);
+        if (obj.id === undefined) {
+            const exported = this.exports.get(obj.name);
+            if (exported && exported.input !== this.inputIndex) {
+                target = exported.id;
+            }
+        }
+
+        const type = new ReferenceType(obj.name, target, this.project!);
+        type.typeArguments = obj.typeArguments?.map((t) =>
+            this.reviveType(t, parent)
+        );
+        return type;
+    }
+
+    private reviveReflection(
+        reflection: Reflection,
+        obj: JSONOutput.Reflection
+    ) {
+        reflection.id = this.getId(obj.id);
+        reserveReflectionIds(reflection.id);
+        this.project!.registerReflection(reflection);
+        this.revived.push(reflection);
+
+        if (obj.originalName !== undefined) {
+            reflection.originalName = obj.originalName;
+        }
+        reflection.kindString = obj.kindString;
+
+        for (const [key, flag] of Object.entries(flagMap)) {
+            if (obj.flags[key as keyof typeof flagMap]) {
+                reflection.setFlag(flag);
+            }
+        }
+
+        if (obj.comment) {
+            reflection.comment = this.reviveComment(obj.comment);
+        }
+        reflection.decorates = obj.decorates?.map((t) =>
+            this.reviveType(t, reflection)
+        );
+        reflection.decorators = obj.decorators?.map(
+            (d): Decorator => ({
+                name: d.name,
+                type: this.reviveOptionalType(d.type, reflection),
+                arguments: d.arguments,
+            })
+        );
+    }
+
+    private reviveContainer(
+        reflection: ContainerReflection,
+        obj: JSONOutput.ContainerReflection
+    ) {
+        this.reviveReflection(reflection, obj);
+
+        reflection.children = obj.children?.map((child) =>
+            this.reviveDeclaration(child, reflection)
+        );
+        reflection.groups = obj.groups?.map((group) => this.reviveGroup(group));
+        reflection.categories = obj.categories?.map((category) =>
+            this.reviveCategory(category)
+        );
+
+        reflection.sources = obj.sources?.map((source) => {
+            const file = this.getSourceFile(source.fileName);
+            if (reflection instanceof DeclarationReflection) {
+                file.reflections.push(reflection);
+            }
+            return {
+                file,
+                fileName: source.fileName,
+                line: source.line,
+                character: source.character,
+                url: source.url,
+            };
+        });
+    }
+
+    private reviveDeclaration(
+        obj: JSONOutput.DeclarationReflection,
+        parent: Reflection
+    ): DeclarationReflection {
+        const reflection =
+            obj.kind === ReflectionKind.Reference
+                ? new ReferenceReflection(
+                      obj.name,
+                      this.getTarget(
+                          (obj as JSONOutput.ReferenceReflection).target
+                      ),
+                      parent
+                  )
+                : new DeclarationReflection(obj.name, obj.kind, parent);
+        this.reviveContainer(reflection, obj);
+
+        reflection.typeParameters = obj.typeParameter?.map((param) =>
+            this.reviveTypeParameter(param, reflection)
+        );
+        reflection.type = this.reviveOptionalType(obj.type, reflection);
+        reflection.signatures = obj.signatures?.map((signature) =>
+            this.reviveSignature(signature, reflection)
+        );
+        if (obj.indexSignature) {
+            reflection.indexSignature = this.reviveSignature(
+                obj.indexSignature,
+                reflection
+            );
+        }
+        if (obj.getSignature) {
+            reflection.getSignature = this.reviveSignature(
+                obj.getSignature[0]!,
+                reflection
+            );
+        }
+        if (obj.setSignature) {
+            reflection.setSignature = this.reviveSignature(
+                obj.setSignature[0]!,
+                reflection
+            );
+        }
+
+        reflection.defaultValue = obj.defaultValue;
+        if (obj.overwrites) {
+            reflection.overwrites = this.reviveReferenceType(
+                obj.overwrites,
+                reflection
+            );
+        }
+        if (obj.inheritedFrom) {
+            reflection.inheritedFrom = this.reviveReferenceType(
+                obj.inheritedFrom,
+                reflection
+            );
+        }
+        if (obj.implementationOf) {
+            reflection.implementationOf = this.reviveReferenceType(
+                obj.implementationOf,
+                reflection
+            );
+        }
+        reflection.extendedTypes = obj.extendedTypes?.map((t) =>
+            this.reviveType(t, reflection)
+        );
+        reflection.extendedBy = obj.extendedBy?.map((t) =>
+            this.reviveReferenceType(t, reflection)
+        );
+        reflection.implementedTypes = obj.implementedTypes?.map((t) =>
+            this.reviveType(t, reflection)
+        );
+        reflection.implementedBy = obj.implementedBy?.map((t) =>
+            this.reviveReferenceType(t, reflection)
+        );
+
+        return reflection;
+    }
+
+    private reviveSignature(
+        obj: JSONOutput.SignatureReflection,
+        parent: DeclarationReflection
+    ): SignatureReflection {
+        const signature = new SignatureReflection(
+            obj.name,
+            obj.kind as SignatureReflection["kind"],
+            parent
+        );
+        this.reviveReflection(signature, obj);
+
+        signature.typeParameters = obj.typeParameter?.map((param) =>
+            this.reviveTypeParameter(param, signature)
+        );
+        signature.parameters = obj.parameters?.map((param) =>
+            this.reviveParameter(param, signature)
+        );
+        signature.type = this.reviveOptionalType(obj.type, signature);
+        if (obj.overwrites) {
+            signature.overwrites = this.reviveReferenceType(
+                obj.overwrites,
+                signature
+            );
+        }
+        if (obj.inheritedFrom) {
+            signature.inheritedFrom = this.reviveReferenceType(
+                obj.inheritedFrom,
+                signature
+            );
+        }
+        if (obj.implementationOf) {
+            signature.implementationOf = this.reviveReferenceType(
+                obj.implementationOf,
+                signature
+            );
+        }
+
+        return signature;
+    }
+
+    private reviveParameter(
+        obj: JSONOutput.ParameterReflection,
+        parent: SignatureReflection
+    ): ParameterReflection {
+        const parameter = new ParameterReflection(obj.name, obj.kind, parent);
+        this.reviveReflection(parameter, obj);
+
+        parameter.type = this.reviveOptionalType(obj.type, parameter);
+        parameter.defaultValue = obj.defaultValue;
+
+        return parameter;
+    }
+
+    private reviveTypeParameter(
+        obj: JSONOutput.TypeParameterReflection,
+        parent: Reflection
+    ): TypeParameterReflection {
+        const parameter = new TypeParameterReflection(
+            obj.name,
+            undefined,
+            undefined,
+            parent
+        );
+        this.reviveReflection(parameter, obj);
+
+        parameter.type = this.reviveOptionalType(obj.type, parameter);
+        parameter.default = this.reviveOptionalType(obj.default, parameter);
+
+        return parameter;
+    }
+
+    private reviveComment(obj: JSONOutput.Comment): Comment {
+        const comment = new Comment(obj.shortText, obj.text);
+        comment.returns = obj.returns;
+        comment.see = obj.see;
+        comment.throws = obj.throws;
+        comment.tags = (obj.tags ?? []).map(
+            (tag) => new CommentTag(tag.tag, tag.param, tag.text)
+        );
+        return comment;
+    }
+
+    private reviveGroup(obj: JSONOutput.ReflectionGroup): ReflectionGroup {
+        const group = new ReflectionGroup(obj.title, obj.kind);
+        group.children = this.getReflections(obj.children);
+        group.categories = obj.categories?.map((category) =>
+            this.reviveCategory(category)
+        );
+
+        // These are derived data, set by the GroupPlugin and not serialized.
+        group.allChildrenAreInherited = group.children.every(
+            (child) =>
+                child instanceof DeclarationReflection && !!child.inheritedFrom
+        );
+        group.allChildrenArePrivate = group.children.every(
+            (child) => child.flags.isPrivate
+        );
+        group.allChildrenAreProtectedOrPrivate = group.children.every(
+            (child) => child.flags.isPrivate || child.flags.isProtected
+        );
+        group.allChildrenAreExternal = group.children.every(
+            (child) => child.flags.isExternal
+        );
+
+        return group;
+    }
+
+    private reviveCategory(
+        obj: JSONOutput.ReflectionCategory
+    ): ReflectionCategory {
+        const category = new ReflectionCategory(obj.title);
+        category.children = this.getReflections(obj.children);
+        return category;
+    }
+
+    private getReflections(ids: number[] | undefined): Reflection[] {
+        const reflections: Reflection[] = [];
+        for (const id of ids ?? []) {
+            const reflection = this.project!.getReflectionById(this.getId(id));
+            if (!reflection) {
+                throw new Error(
+                    `Serialized project refers to missing reflection ${id}`
+                );
+            }
+            reflections.push(reflection);
+        }
+        return reflections;
+    }
+
+    private getSourceFile(fileName: string): SourceFile {
+        let file = this.files.get(fileName);
+        if (!file) {
+            file = new SourceFile(fileName);
+            this.files.set(fileName, file);
+            this.project!.files.push(file);
+        }
+        return file;
+    }
+
+    private setTypeHierarchies() {
+        for (const reflection of this.revived) {
+            if (
+                reflection instanceof DeclarationReflection &&
+                reflection.kindOf(ReflectionKind.ClassOrInterface)
+            ) {
+                reflection.typeHierarchy = this.getTypeHierarchy(reflection);
+            }
+        }
+    }
+
+    /**
+     * Mirrors the hierarchy built by the TypePlugin, which is derived data and not serialized.
+     */
+    private getTypeHierarchy(
+        reflection: DeclarationReflection
+    ): DeclarationHierarchy {
+        const target: DeclarationHierarchy = {
+            types: [
+                new ReferenceType(reflection.name, reflection, this.project!),
+            ],
+            isTarget: true,
+        };
+        if (reflection.extendedBy) {
+            target.next = { types: reflection.extendedBy };
+        }
+
+        return reflection.extendedTypes
+            ? { types: reflection.extendedTypes, next: target }
+            : target;
+    }
+}
+
+/**
+ * Get the largest id used by the given serialized value, which is either a reflection id
+ * or the target of a reference.
+ */
+function getMaxId(value: unknown): number {
+    let max = 0;
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            max = Math.max(max, getMaxId(item));
+        }
+    } else if (typeof value === "object" && value !== null) {
+        for (const [key, item] of Object.entries(value)) {
+            max = Math.max(
+                max,
+                key === "id" && typeof item === "number" ? item : getMaxId(item)
+            );
+        }
+    }
+    return max;
+}
+
+/**
+ * Get the ids of all reflections within the given serialized value.
+ */
+function getReflectionIds(value: unknown, ids: number[] = []): number[] {
+    if (Array.isArray(value)) {
+        value.forEach((item) => getReflectionIds(item, ids));
+    } else if (typeof value === "object" && value !== null) {
+        const obj = value as Partial<JSONOutput.Reflection>;
+        // Reference types also have ids, but only reflections have flags.
+        if (obj.flags && typeof obj.id === "number") {
+            ids.push(obj.id);
+        }
+        Object.values(obj).forEach((item) => getReflectionIds(item, ids));
+    }
+    return ids;
+}
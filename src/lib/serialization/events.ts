@@ -45,3 +45,32 @@ export class SerializeEvent extends Event {
         this.output = output;
     }
 }
+
+/**
+ * An event emitted by the [[Deserializer]] class at the very beginning and
+ * ending of reviving a project from its serialized form.
+ *
+ * @see [[Deserializer.EVENT_BEGIN]]
+ * @see [[Deserializer.EVENT_END]]
+ */
+export class DeserializeEvent extends Event {
+    /**
+     * The project being revived. During [[Deserializer.EVENT_BEGIN]] it has no children yet.
+     */
+    readonly project: ProjectReflection;
+
+    /**
+     * The serialized project the reflections are revived from.
+     */
+    readonly input: JSONProjectReflection;
+
+    constructor(
+        name: string,
+        project: ProjectReflection,
+        input: JSONProjectReflection
+    ) {
+        super(name);
+        this.project = project;
+        this.input = input;
+    }
+}
@@ -3,7 +3,8 @@ export {
     SerializerComponent,
     TypeSerializerComponent,
 } from "./components";
-export { SerializeEvent } from "./events";
+export { Deserializer } from "./deserializer";
+export { DeserializeEvent, SerializeEvent } from "./events";
 export { Serializer } from "./serializer";
 export {
     ArrayTypeSerializer,
@@ -70,6 +70,8 @@ type _ModelToObject<T> =
         ? ConditionalType
         : T extends M.IndexedAccessType
         ? IndexedAccessType
+        : T extends M.ReferenceType
+        ? ReferenceType
         : T extends M.InferredType
         ? InferredType
         : T extends M.IntersectionType
@@ -82,8 +84,6 @@ type _ModelToObject<T> =
         ? PredicateType
         : T extends M.QueryType
         ? QueryType
-        : T extends M.ReferenceType
-        ? ReferenceType
         : T extends M.ReflectionType
         ? ReflectionType
         : T extends M.RestType
@@ -103,6 +103,8 @@ type _ModelToObject<T> =
         ? Comment
         : T extends M.CommentTag
         ? CommentTag
+        : T extends M.CommentDisplayPart
+        ? CommentDisplayPart
         : T extends DecoratorWrapper
         ? Decorator
         : T extends SourceReferenceWrapper
@@ -227,12 +229,15 @@ export type SomeType =
     | IntersectionType
     | IntrinsicType
     | LiteralType
+    | MappedType
+    | NamedTupleMemberType
     | OptionalType
     | PredicateType
     | QueryType
     | ReferenceType
     | ReflectionType
     | RestType
+    | TemplateLiteralType
     | TupleType
     | TypeOperatorType
     | TypeParameterType
@@ -305,8 +310,9 @@ export interface NamedTupleMemberType
 export interface TemplateLiteralType
     extends Type,
         S<M.TemplateLiteralType, "type" | "head"> {
-    tail: [Type, string][];
+    tail: [SomeType, string][];
 }
+
 export interface MappedType
     extends Type,
         S<
@@ -348,15 +354,41 @@ export interface ReflectionFlags
     extends Partial<S<M.ReflectionFlags, BoolKeys<M.ReflectionFlags>>> {}
 
 export interface Comment
-    extends Partial<S<M.Comment, "shortText" | "text" | "returns" | "tags">> {}
+    extends Partial<
+        S<
+            M.Comment,
+            | "shortText"
+            | "shortTextParts"
+            | "text"
+            | "textParts"
+            | "returns"
+            | "returnsParts"
+            | "tags"
+        >
+    > {
+    see?: CommentSeeReference[];
+    throws?: CommentThrows[];
+}
 
-export interface CommentTag extends S<M.CommentTag, "text"> {
+export interface CommentTag extends S<M.CommentTag, "text" | "textParts"> {
     tag: M.CommentTag["tagName"];
     param?: M.CommentTag["paramName"];
 }
 
+/**
+ * Comment parts are plain objects, so they are serialized as is.
+ */
+export type CommentDisplayPart = M.CommentDisplayPart;
+
+/**
+ * `@see` and `@throws` tags are parsed into plain objects, so they are serialized as is.
+ * They are declared explicitly on [[Comment]] as they are structurally indistinguishable.
+ */
+export type CommentSeeReference = M.CommentSeeReference;
+export type CommentThrows = M.CommentThrows;
+
 export interface SourceReference
-    extends S<M.SourceReference, "fileName" | "line" | "character"> {}
+    extends S<M.SourceReference, "fileName" | "line" | "character" | "url"> {}
 
 export interface Decorator
     extends S<M.Decorator, "name" | "type" | "arguments"> {}
@@ -24,6 +24,7 @@ export class CommentTagSerializer extends SerializerComponent<CommentTag> {
         const result: JSONCommentTag = {
             tag: tag.tagName,
             text: tag.text,
+            textParts: tag.textParts,
         };
 
         if (tag.paramName) {
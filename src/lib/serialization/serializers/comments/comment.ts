@@ -20,12 +20,21 @@ export class CommentSerializer extends SerializerComponent<Comment> {
     toObject(comment: Comment, obj: Partial<JSONComment> = {}): JSONComment {
         if (comment.shortText) {
             obj.shortText = comment.shortText;
+            obj.shortTextParts = comment.shortTextParts;
         }
         if (comment.text) {
             obj.text = comment.text;
+            obj.textParts = comment.textParts;
         }
         if (comment.returns) {
             obj.returns = comment.returns;
+            obj.returnsParts = comment.returnsParts;
+        }
+        if (comment.see?.length) {
+            obj.see = comment.see;
+        }
+        if (comment.throws?.length) {
+            obj.throws = comment.throws;
         }
         if (comment.tags.length) {
             obj.tags = comment.tags.map((tag) => this.owner.toObject(tag));
@@ -46,6 +46,10 @@ export class ReflectionSerializer extends ReflectionSerializerComponent<Reflecti
             "isConst",
             "isLet",
             "isReadonly",
+            "isDeprecated",
+            "isAlpha",
+            "isBeta",
+            "isExperimental",
         ] as const;
 
         for (const key of flags) {
@@ -17,11 +17,17 @@ export class SourceReferenceContainerSerializer extends SerializerComponent<Sour
         { sourceReference: ref }: SourceReferenceWrapper,
         obj?: Partial<JSONSourceReference>
     ): JSONSourceReference {
-        return {
+        const result: JSONSourceReference = {
             ...obj,
             fileName: ref.fileName,
             line: ref.line,
             character: ref.character,
         };
+
+        if (ref.url) {
+            result.url = ref.url;
+        }
+
+        return result;
     }
 }
@@ -1,5 +1,9 @@
+import { isAbsolute, resolve } from "path";
 import { Theme as ShikiTheme } from "shiki";
 import { LogLevel } from "../loggers";
+import type { LinkValidation } from "../../validation/links";
+import type { ReleaseStage } from "../../models/reflections/abstract";
+import type { DiffFormat } from "../../diff/format";
 
 /**
  * An interface describing all TypeDoc specific options. Generated from a
@@ -37,6 +41,7 @@ export interface TypeDocOptionMap {
     options: string;
     tsconfig: string;
     packages: string[];
+    workers: number;
 
     entryPoints: string[];
     exclude: string[];
@@ -44,9 +49,13 @@ export interface TypeDocOptionMap {
     excludeExternals: boolean;
     excludePrivate: boolean;
     excludeProtected: boolean;
+    excludeDeprecated: boolean;
+    releaseStage: typeof ReleaseStage;
     excludeNotDocumented: boolean;
+    intentionallyNotExported: string[];
     excludeInternal: boolean;
     disableSources: boolean;
+    sourcePages: boolean;
     disableAliases: boolean;
     includes: string;
     media: string;
@@ -54,10 +63,19 @@ export interface TypeDocOptionMap {
     emit: boolean;
     watch: boolean;
     preserveWatchOutput: boolean;
+    cacheDir: string;
+    clearCache: boolean;
 
     out: string;
     json: string;
     pretty: boolean;
+    merge: boolean;
+    diffFormat: typeof DiffFormat;
+    proposedVersion: string;
+    coverage: string;
+    coverageThreshold: number;
+    apiReport: string;
+    checkApiReport: boolean;
 
     theme: string;
     name: string;
@@ -69,6 +87,7 @@ export interface TypeDocOptionMap {
     categorizeByGroup: boolean;
     gitRevision: string;
     gitRemote: string;
+    sourceLinkTemplate: string;
     gaID: string;
     gaSite: string;
     hideGenerator: boolean;
@@ -78,10 +97,15 @@ export interface TypeDocOptionMap {
     help: boolean;
     version: boolean;
     showConfig: boolean;
+    validateConfig: boolean;
+    optionsSchema: string;
     plugin: string[];
     logger: unknown; // string | Function
     logLevel: typeof LogLevel;
+    validateSymbolLinks: typeof LinkValidation;
     listInvalidSymbolLinks: boolean;
+    checkExamples: boolean;
+    runExamples: boolean;
     markedOptions: unknown;
 
     highlightTheme: ShikiTheme;
@@ -118,6 +142,20 @@ export enum ParameterType {
     Map,
     Mixed,
     Array,
+    /**
+     * Resolved according to the config directory. The `none` keyword, used by options
+     * like `readme` to turn them off, is not resolved.
+     */
+    Path,
+    /**
+     * Resolved according to the config directory.
+     */
+    PathArray,
+    /**
+     * Resolved according to the config directory unless it starts with `**`, after skipping any
+     * leading `!` and `#` characters.
+     */
+    GlobArray,
 }
 
 export interface DeclarationOptionBase {
@@ -139,7 +177,11 @@ export interface DeclarationOptionBase {
 }
 
 export interface StringDeclarationOption extends DeclarationOptionBase {
-    type?: ParameterType.String;
+    /**
+     * Specifying type as ParameterType.Path will result in the value being resolved relative
+     * to the directory of the file which set it.
+     */
+    type?: ParameterType.String | ParameterType.Path;
 
     /**
      * If not specified defaults to the empty string.
@@ -193,7 +235,10 @@ export interface BooleanDeclarationOption extends DeclarationOptionBase {
 }
 
 export interface ArrayDeclarationOption extends DeclarationOptionBase {
-    type: ParameterType.Array;
+    type:
+        | ParameterType.Array
+        | ParameterType.PathArray
+        | ParameterType.GlobArray;
 
     /**
      * If not specified defaults to an empty array.
@@ -274,18 +319,38 @@ export type DeclarationOptionToOptionType<
  * implements its own since 'false' should not be converted to true for a boolean option.
  * @param value The value to convert.
  * @param option The option for which the value should be converted.
+ * @param configPath The directory relative paths are resolved against, the directory of
+ *   the file the value was read from. Defaults to the current working directory.
  * @returns The result of the conversion. Might be the value or an error.
  */
 export function convert<T extends DeclarationOption>(
     value: unknown,
-    option: T
+    option: T,
+    configPath?: string
 ): DeclarationOptionToOptionType<T>;
-export function convert<T>(value: unknown, option: MapDeclarationOption<T>): T;
-export function convert(value: unknown, option: DeclarationOption): unknown {
+export function convert<T>(
+    value: unknown,
+    option: MapDeclarationOption<T>,
+    configPath?: string
+): T;
+export function convert(
+    value: unknown,
+    option: DeclarationOption,
+    configPath = process.cwd()
+): unknown {
     switch (option.type) {
         case undefined:
-        case ParameterType.String: {
-            const stringValue = value == null ? "" : String(value);
+        case ParameterType.String:
+        case ParameterType.Path: {
+            let stringValue = value == null ? "" : String(value);
+            // The empty string means the option is not set and is not resolved.
+            if (
+                option.type === ParameterType.Path &&
+                stringValue &&
+                stringValue !== "none"
+            ) {
+                stringValue = resolve(configPath, stringValue);
+            }
             if (option.validate) {
                 option.validate(stringValue);
             }
@@ -313,13 +378,24 @@ export function convert(value: unknown, option: DeclarationOption): unknown {
         case ParameterType.Boolean:
             return Boolean(value);
 
-        case ParameterType.Array: {
+        case ParameterType.Array:
+        case ParameterType.PathArray:
+        case ParameterType.GlobArray: {
             let strArrValue = new Array<string>();
             if (Array.isArray(value)) {
                 strArrValue = value.map(String);
             } else if (typeof value === "string") {
                 strArrValue = value.split(",");
             }
+            if (option.type === ParameterType.PathArray) {
+                strArrValue = strArrValue.map((path) =>
+                    resolve(configPath, path)
+                );
+            } else if (option.type === ParameterType.GlobArray) {
+                strArrValue = strArrValue.map((glob) =>
+                    resolveGlob(configPath, glob)
+                );
+            }
             if (option.validate) {
                 option.validate(strArrValue);
             }
@@ -350,6 +426,93 @@ export function convert(value: unknown, option: DeclarationOption): unknown {
     }
 }
 
+/**
+ * Checks that a value read from a config file has the type expected by the option. Unlike
+ * [[convert]], which also has to accept the strings given on the command line, this does
+ * not allow values which only become valid after being coerced, such as `"true"` for a
+ * boolean option. Array options also accept a single string, which [[convert]] splits like
+ * a value given on the command line. The choices of map options are checked by [[convert]].
+ * @param value The value to check.
+ * @param option The option the value is set for.
+ */
+export function validateValueType(
+    value: unknown,
+    option: DeclarationOption
+): void {
+    let valid: boolean;
+    let expected: string;
+    switch (option.type) {
+        case undefined:
+        case ParameterType.String:
+        case ParameterType.Path:
+            valid = typeof value === "string";
+            expected = "a string";
+            break;
+        case ParameterType.Number:
+            valid = typeof value === "number";
+            expected = "a number";
+            break;
+        case ParameterType.Boolean:
+            valid = typeof value === "boolean";
+            expected = "a boolean";
+            break;
+        case ParameterType.Array:
+        case ParameterType.PathArray:
+        case ParameterType.GlobArray: {
+            const invalidItem = Array.isArray(value)
+                ? value.find((item) => typeof item !== "string")
+                : undefined;
+            if (Array.isArray(value) && invalidItem !== undefined) {
+                throw new Error(
+                    `${
+                        option.name
+                    } must be an array of strings, got an array containing ${describeType(
+                        invalidItem
+                    )}`
+                );
+            }
+            valid = Array.isArray(value) || typeof value === "string";
+            expected = "an array of strings";
+            break;
+        }
+        default:
+            return;
+    }
+
+    if (!valid) {
+        throw new Error(
+            `${option.name} must be ${expected}, got ${describeType(value)}`
+        );
+    }
+}
+
+/**
+ * Describes the type of a value for error messages, e.g. "a string" or "an array".
+ */
+function describeType(value: unknown): string {
+    if (value === null || value === undefined) {
+        return String(value);
+    }
+    const type = Array.isArray(value) ? "array" : typeof value;
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Resolves a glob relative to the config directory. Negated (`!`) and commented (`#`) globs
+ * keep their prefix and globs starting with `**` match in any directory, so are left as is.
+ * @param configPath The directory the glob is relative to.
+ * @param glob The glob to resolve.
+ * @returns The resolved glob.
+ */
+function resolveGlob(configPath: string, glob: string): string {
+    const prefix = /^[!#]*/.exec(glob)![0];
+    const pattern = glob.substr(prefix.length);
+    if (pattern.startsWith("**") || isAbsolute(pattern)) {
+        return glob;
+    }
+    return prefix + resolve(configPath, pattern);
+}
+
 /**
  * Returns an error message for a map option, indicating that a given value was not one of the values within the map.
  * @param map The values for the option.
@@ -18,8 +18,9 @@ function hasHint(
     parameter: DeclarationOption
 ): parameter is StringDeclarationOption & { hint: ParameterHint } {
     return (
-        (parameter.type ?? ParameterType.String) === ParameterType.String &&
-        "hint" in parameter
+        [ParameterType.String, ParameterType.Path].includes(
+            parameter.type ?? ParameterType.String
+        ) && "hint" in parameter
     );
 }
 
@@ -1,7 +1,15 @@
 export { Options, BindOption } from "./options";
 export type { OptionsReader } from "./options";
-export { ArgumentsReader, TypeDocReader, TSConfigReader } from "./readers";
+export {
+    ArgumentsReader,
+    ConfigFileReader,
+    EnvironmentReader,
+    PackageJsonReader,
+    TypeDocReader,
+    TSConfigReader,
+} from "./readers";
 export { ParameterType, ParameterHint } from "./declaration";
+export { getOptionsSchema } from "./schema";
 
 export type {
     TypeDocOptions,
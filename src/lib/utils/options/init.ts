@@ -0,0 +1,184 @@
+import * as Path from "path";
+import * as FS from "fs";
+import * as ts from "typescript";
+
+import type { Logger } from "../loggers";
+import { normalizePath } from "../fs";
+import { expandPackages, loadPackageManifest } from "../package-manifest";
+
+/**
+ * The schema generated from the options declared by TypeDoc when it is built, referenced by
+ * generated config files so that editors describe and complete the options. The path is
+ * relative to the config file, which is written next to the node_modules directory.
+ */
+const OPTIONS_SCHEMA_PATH = "./node_modules/typedoc/dist/schema.json";
+
+/**
+ * The package.json fields pointing to the built files of a package, in the order they are
+ * used to guess the entry point.
+ */
+const OUTPUT_FIELDS = ["types", "typings", "main"];
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", "/index.ts", "/index.tsx"];
+
+function isFile(path: string) {
+    return FS.existsSync(path) && FS.statSync(path).isFile();
+}
+
+function toRelativePath(directory: string, path: string) {
+    return normalizePath(Path.relative(directory, path)) || ".";
+}
+
+/**
+ * Find the tsconfig file of the project, preferring tsconfig.json over variants like
+ * tsconfig.build.json.
+ */
+function findTsconfig(directory: string): string | undefined {
+    const files = FS.readdirSync(directory)
+        .filter((file) => /^tsconfig(\..+)?\.json$/.test(file))
+        .sort();
+    const file = files.includes("tsconfig.json") ? "tsconfig.json" : files[0];
+    return file && Path.join(directory, file);
+}
+
+/**
+ * Read the compiler options of the tsconfig file, used to map built files back to their sources.
+ */
+function readCompilerOptions(
+    logger: Logger,
+    tsconfig: string | undefined
+): ts.CompilerOptions {
+    if (!tsconfig) {
+        return {};
+    }
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+        tsconfig,
+        {},
+        {
+            ...ts.sys,
+            onUnRecoverableConfigFileDiagnostic(error) {
+                logger.diagnostic(error);
+            },
+        }
+    );
+    return parsed?.options ?? {};
+}
+
+/**
+ * Guess the source file which is built to the file the types or main field of the
+ * package.json points to. Declaration files without a source are documented as they are.
+ */
+function guessEntryPoint(
+    directory: string,
+    packageJson: Record<string, unknown>,
+    compilerOptions: ts.CompilerOptions
+): string | undefined {
+    const outDir = compilerOptions.outDir;
+    // Without rootDir, TypeScript uses the common directory of the sources.
+    const rootDirs = compilerOptions.rootDir
+        ? [compilerOptions.rootDir]
+        : [Path.join(directory, "src"), directory];
+
+    for (const field of OUTPUT_FIELDS) {
+        const output = packageJson[field];
+        if (typeof output !== "string") {
+            continue;
+        }
+
+        const path = Path.resolve(directory, output);
+        const base = path.replace(/(\.d)?\.[cm]?[jt]sx?$/, "");
+        const sources = [base];
+        if (outDir) {
+            const relative = Path.relative(
+                Path.resolve(directory, outDir),
+                base
+            );
+            if (!relative.startsWith("..") && !Path.isAbsolute(relative)) {
+                sources.push(
+                    ...rootDirs.map((rootDir) => Path.join(rootDir, relative))
+                );
+            }
+        }
+
+        for (const source of sources) {
+            const file = SOURCE_EXTENSIONS.map((ext) => source + ext).find(
+                (file) => !file.endsWith(".d.ts") && isFile(file)
+            );
+            if (file) {
+                return file;
+            }
+        }
+        if (path.endsWith(".d.ts") && isFile(path)) {
+            return path;
+        }
+    }
+
+    return ["src/index.ts", "index.ts"]
+        .map((file) => Path.join(directory, file))
+        .find(isFile);
+}
+
+/**
+ * Create the contents of a starter typedoc.json for the project in the given directory.
+ *
+ * The package.json is read to name the project and to guess the entry point from its
+ * `types` or `main` field, mapped back to the source through the `outDir` of the
+ * tsconfig file. Workspace roots are documented in packages mode instead.
+ *
+ * @param logger  Reports what was detected and what could not be guessed.
+ * @param directory  The root directory of the project.
+ * @returns The options to write as JSON, paths are relative to the directory.
+ */
+export function getInitialConfig(
+    logger: Logger,
+    directory: string
+): Record<string, unknown> {
+    const config: Record<string, unknown> = { $schema: OPTIONS_SCHEMA_PATH };
+
+    const packageJsonPath = Path.join(directory, "package.json");
+    const packageJson = FS.existsSync(packageJsonPath)
+        ? loadPackageManifest(logger, packageJsonPath)
+        : undefined;
+    if (typeof packageJson?.name === "string") {
+        config.name = packageJson.name;
+    }
+
+    // Expands the workspaces of the package.json to the directories of their packages.
+    const packages =
+        packageJson && packageJson.workspaces
+            ? expandPackages(logger, directory, ["."])
+            : [];
+    if (packages.length) {
+        // Each package is converted with its own tsconfig file.
+        logger.write(
+            `Found ${packages.length} packages in the workspace: ${packages
+                .map((path) => toRelativePath(directory, path))
+                .join(", ")}`
+        );
+        config.packages = ["."];
+    } else {
+        const tsconfig = findTsconfig(directory);
+        if (tsconfig) {
+            config.tsconfig = toRelativePath(directory, tsconfig);
+        } else {
+            logger.warn(`No tsconfig file was found in ${directory}`);
+        }
+
+        const entryPoint = guessEntryPoint(
+            directory,
+            packageJson ?? {},
+            readCompilerOptions(logger, tsconfig)
+        );
+        if (entryPoint) {
+            config.entryPoints = [toRelativePath(directory, entryPoint)];
+        } else {
+            logger.warn(
+                "Could not guess the entry point of the project, add it to entryPoints"
+            );
+            config.entryPoints = [];
+        }
+    }
+
+    config.out = "docs";
+    return config;
+}
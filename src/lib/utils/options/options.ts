@@ -1,3 +1,4 @@
+import * as Path from "path";
 import { isDeepStrictEqual } from "util";
 import * as _ from "lodash";
 import * as ts from "typescript";
@@ -10,6 +11,7 @@ import {
     TypeDocOptionMap,
     TypeDocOptions,
     TypeDocOptionValues,
+    validateValueType,
 } from "./declaration";
 import { Logger } from "../loggers";
 import { insertPrioritySorted, unique } from "../array";
@@ -52,6 +54,14 @@ export interface OptionsReader {
      * @param logger
      */
     read(container: Options, logger: Logger): void;
+
+    /**
+     * Read options like [[read]], but also support sources which can only be read
+     * asynchronously. Used instead of [[read]] by [[Options.readAsync]] if implemented.
+     * @param container the options container that provides declarations
+     * @param logger
+     */
+    readAsync?(container: Options, logger: Logger): Promise<void>;
 }
 
 /**
@@ -69,9 +79,12 @@ export interface OptionsReader {
  * Options are read in a specific order.
  * 1. argv (0) - Must be read first since it should change the files read when
  *    passing --options or --tsconfig.
- * 2. typedoc-json (100) - Read next so that it can specify the tsconfig.json file to read.
- * 3. tsconfig-json (200) - Last config file reader, cannot specify the typedoc.json file to read.
- * 4. argv (300) - Read argv again since any options set there should override those set in config
+ * 2. package-json (50) - The `typedoc` key of package.json, overridden by any config file.
+ * 3. typedoc-json (100) - Read next so that it can specify the tsconfig.json file to read.
+ * 4. config-file (150) - typedoc.config.mjs or typedoc.config.cjs, which may export an async function.
+ * 5. tsconfig-json (200) - Last config file reader, cannot specify the typedoc.json file to read.
+ * 6. environment (250) - `TYPEDOC_*` environment variables override config files.
+ * 7. argv (300) - Read argv again since any options set there should override those set in config
  *    files.
  */
 export class Options {
@@ -138,6 +151,21 @@ export class Options {
         }
     }
 
+    /**
+     * Read options from all readers, using [[OptionsReader.readAsync]] if a reader implements
+     * it and waiting for each reader before calling the next one.
+     * @param logger
+     */
+    async readAsync(logger: Logger) {
+        for (const reader of this._readers) {
+            if (reader.readAsync) {
+                await reader.readAsync(this, logger);
+            } else {
+                reader.read(this, logger);
+            }
+        }
+    }
+
     /**
      * Adds an option declaration to the container with extra type checking to ensure that
      * the runtime type is consistent with the declared type.
@@ -265,28 +293,91 @@ export class Options {
      * Sets the given declared option. Throws if setting the option fails.
      * @param name
      * @param value
+     * @param configPath The directory path and glob options are resolved relative to,
+     *   readers should pass the directory of the file the value was read from.
+     *   Defaults to the current working directory.
      */
     setValue<K extends keyof TypeDocOptions>(
         name: K,
-        value: TypeDocOptions[K]
+        value: TypeDocOptions[K],
+        configPath?: string
     ): void;
     setValue(
         name: NeverIfInternal<string>,
-        value: NeverIfInternal<unknown>
+        value: NeverIfInternal<unknown>,
+        configPath?: NeverIfInternal<string>
     ): void;
-    setValue(name: string, value: unknown): void {
+    setValue(name: string, value: unknown, configPath?: string): void {
         const declaration = this.getDeclaration(name);
         if (!declaration) {
+            const similar = this.getSimilarOptions(name);
             throw new Error(
-                `Tried to set an option (${name}) that was not declared.`
+                `Tried to set an option (${name}) that was not declared.` +
+                    (similar.length
+                        ? ` Did you mean ${similar.join(", ")}?`
+                        : "")
             );
         }
 
-        const converted = convert(value, declaration);
+        const converted = convert(value, declaration, configPath);
         this._values[declaration.name] = converted;
         this._setOptions.add(name);
     }
 
+    /**
+     * Sets the values read from a config file. Unlike [[setValue]], values are not coerced
+     * to the type of the option, so that a value like `"false"` for a boolean option is
+     * reported instead of being read as `true`. Errors are reported with the location of
+     * the offending key.
+     * @param values The object containing the options.
+     * @param file The file the values were read from, paths are resolved relative to it.
+     * @param logger
+     * @param keyPath The path to the object within the file, e.g. `typedocOptions`.
+     */
+    setConfigValues(
+        values: object,
+        file: string,
+        logger: Logger,
+        keyPath?: string
+    ): void {
+        for (const [key, value] of Object.entries(values)) {
+            const location = `${keyPath ? `${keyPath}.` : ""}${key}`;
+            try {
+                const declaration = this.getDeclaration(key);
+                if (declaration) {
+                    validateValueType(value, declaration);
+                }
+                this.setValue(key as never, value as never, Path.dirname(file));
+            } catch (error) {
+                logger.error(`${error.message} (at ${location} in ${file})`);
+            }
+        }
+    }
+
+    /**
+     * Gets the names of declared options which are similar to the given name, to suggest
+     * them when an unknown option is used. The most similar options are listed first.
+     * @param name The unknown option name.
+     */
+    getSimilarOptions(name: string): string[] {
+        const lowerName = name.toLowerCase();
+        // Allow about one typo per four characters.
+        const maxDistance = Math.max(1, Math.floor(name.length / 4));
+
+        return this.getDeclarations()
+            .map((declaration) => ({
+                name: declaration.name,
+                distance: editDistance(
+                    lowerName,
+                    declaration.name.toLowerCase()
+                ),
+            }))
+            .filter((option) => option.distance <= maxDistance)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3)
+            .map((option) => option.name);
+    }
+
     /**
      * Gets the set compiler options.
      */
@@ -357,6 +448,26 @@ export class Options {
     }
 }
 
+/**
+ * Computes the Levenshtein distance between two strings, the number of characters
+ * which have to be inserted, deleted or replaced to turn one into the other.
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
 /**
  * Binds an option to the given property. Does not register the option.
  *
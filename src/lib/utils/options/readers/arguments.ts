@@ -39,7 +39,12 @@ export class ArgumentsReader implements OptionsReader {
                 : options.getDeclaration("entryPoints");
 
             if (decl) {
-                if (seen.has(decl.name) && decl.type === ParameterType.Array) {
+                if (
+                    seen.has(decl.name) &&
+                    (decl.type === ParameterType.Array ||
+                        decl.type === ParameterType.PathArray ||
+                        decl.type === ParameterType.GlobArray)
+                ) {
                     trySet(
                         decl.name,
                         (options.getValue(decl.name) as string[]).concat(
@@ -67,7 +72,15 @@ export class ArgumentsReader implements OptionsReader {
                 }
                 seen.add(decl.name);
             } else {
-                logger.error(`Unknown option: ${name}`);
+                const similar = options
+                    .getSimilarOptions(name.replace(/^--?/, ""))
+                    .map((option) => `--${option}`);
+                logger.error(
+                    `Unknown option: ${name}` +
+                        (similar.length
+                            ? `, did you mean ${similar.join(", ")}?`
+                            : "")
+                );
             }
 
             index++;
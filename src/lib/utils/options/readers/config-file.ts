@@ -0,0 +1,136 @@
+import * as Path from "path";
+import * as FS from "fs";
+
+import { OptionsReader, Options } from "../options";
+import { Logger } from "../../loggers";
+
+const CONFIG_FILES = ["typedoc.config.mjs", "typedoc.config.cjs"];
+
+/**
+ * Check whether the given path names a module which [[ConfigFileReader]] reads
+ * rather than [[TypeDocReader]].
+ */
+export function isConfigModule(path: string): boolean {
+    return /\.[cm]js$/i.test(path);
+}
+
+/**
+ * Find the typedoc.config.mjs or typedoc.config.cjs file in the given directory.
+ */
+export function findConfigModule(directory: string): string | undefined {
+    if (!FS.existsSync(directory) || !FS.statSync(directory).isDirectory()) {
+        return;
+    }
+    return CONFIG_FILES.map((name) => Path.join(directory, name)).find((file) =>
+        FS.existsSync(file)
+    );
+}
+
+/**
+ * Load a config module with `require`. ES modules can only be loaded by versions of Node
+ * which support requiring them.
+ */
+function loadConfigModule(file: string): unknown {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const module = require(file);
+        return module?.default ?? module;
+    } catch (error) {
+        if (error.code === "ERR_REQUIRE_ESM") {
+            throw new Error(
+                "ES module config files require Node 20.19, 22.12 or later"
+            );
+        }
+        throw error;
+    }
+}
+
+/**
+ * Obtains option values from a typedoc.config.mjs or typedoc.config.cjs file. The file may
+ * export the options object or a function returning it, which may be async.
+ *
+ * Config files exporting a function are only supported by [[Options.readAsync]].
+ */
+export class ConfigFileReader implements OptionsReader {
+    /**
+     * Runs after the [[TypeDocReader]] and before the [[TSConfigReader]], so that it
+     * can specify the tsconfig.json file to read.
+     */
+    priority = 150;
+
+    name = "config-file";
+
+    read(container: Options, logger: Logger): void {
+        const file = this.findFile(container, logger);
+        if (!file) {
+            return;
+        }
+
+        let data: unknown;
+        try {
+            data = loadConfigModule(file);
+        } catch (error) {
+            logger.error(`Failed to load ${file}: ${error.message}`);
+            return;
+        }
+
+        if (typeof data === "function") {
+            logger.error(
+                `The options of ${file} are exported as a function, options must be read with readAsync.`
+            );
+            return;
+        }
+        this.setValues(file, data, container, logger);
+    }
+
+    async readAsync(container: Options, logger: Logger): Promise<void> {
+        const file = this.findFile(container, logger);
+        if (!file) {
+            return;
+        }
+
+        let data: unknown;
+        try {
+            data = loadConfigModule(file);
+            if (typeof data === "function") {
+                data = await data();
+            }
+        } catch (error) {
+            logger.error(`Failed to load ${file}: ${error.message}`);
+            return;
+        }
+        this.setValues(file, data, container, logger);
+    }
+
+    private findFile(container: Options, logger: Logger) {
+        const path = Path.resolve(container.getValue("options"));
+        if (!isConfigModule(path)) {
+            return findConfigModule(path);
+        }
+
+        // The TypeDocReader leaves reporting missing config modules to this reader.
+        if (!FS.existsSync(path)) {
+            if (container.isSet("options")) {
+                logger.error(
+                    `The options file could not be found with the given path ${path}`
+                );
+            }
+            return;
+        }
+        return path;
+    }
+
+    private setValues(
+        file: string,
+        data: unknown,
+        container: Options,
+        logger: Logger
+    ) {
+        if (typeof data !== "object" || !data) {
+            logger.error(`The file ${file} does not export an object.`);
+            return;
+        }
+
+        container.setConfigValues(data, file, logger);
+    }
+}
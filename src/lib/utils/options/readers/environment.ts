@@ -0,0 +1,109 @@
+import { OptionsReader, Options } from "../options";
+import { Logger } from "../../loggers";
+import { DeclarationOption, ParameterType } from "../declaration";
+
+const PREFIX = "TYPEDOC_";
+
+/**
+ * Get the name of the environment variable which sets the given option,
+ * e.g. `TYPEDOC_GIT_REVISION` for `gitRevision`.
+ */
+export function getEnvironmentVariableName(option: string): string {
+    return PREFIX + option.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+/**
+ * Environment variables can only be strings, convert them to the type of the option
+ * where [[Options.setValue]] would not. Other types, including arrays given as comma
+ * separated lists, are converted by [[Options.setValue]].
+ */
+function coerce(value: string, declaration: Readonly<DeclarationOption>) {
+    switch (declaration.type) {
+        case ParameterType.Boolean:
+            if (/^(true|1|yes)$/i.test(value)) {
+                return true;
+            }
+            if (/^(false|0|no)$/i.test(value)) {
+                return false;
+            }
+            throw new Error(
+                `The ${declaration.name} option must be set to true or false, got ${value}`
+            );
+        case ParameterType.Mixed:
+            try {
+                return JSON.parse(value);
+            } catch {
+                return value;
+            }
+        default:
+            return value;
+    }
+}
+
+/**
+ * Obtains option values from `TYPEDOC_*` environment variables, the rest of the variable
+ * name is the name of the option in upper snake case, e.g. `TYPEDOC_GIT_REVISION`.
+ */
+export class EnvironmentReader implements OptionsReader {
+    /**
+     * Runs after the config file readers so that the environment overrides them,
+     * but before the second [[ArgumentsReader]].
+     */
+    priority = 250;
+
+    name = "environment";
+
+    private env: Record<string, string | undefined>;
+
+    constructor(env: Record<string, string | undefined> = process.env) {
+        this.env = env;
+    }
+
+    read(container: Options, logger: Logger): void {
+        const declarations = new Map(
+            container
+                .getDeclarations()
+                .map((declaration) => [
+                    getEnvironmentVariableName(declaration.name).replace(
+                        /_/g,
+                        ""
+                    ),
+                    declaration,
+                ])
+        );
+
+        for (const [variable, value] of Object.entries(this.env)) {
+            // Empty variables are treated like unset ones.
+            if (!variable.startsWith(PREFIX) || !value) {
+                continue;
+            }
+
+            // Underscores are optional, TYPEDOC_GITREVISION also sets gitRevision.
+            const declaration = declarations.get(variable.replace(/_/g, ""));
+            if (!declaration) {
+                const similar = container
+                    .getSimilarOptions(
+                        variable.substr(PREFIX.length).replace(/_/g, "")
+                    )
+                    .map(getEnvironmentVariableName);
+                // Other tools may use the same prefix, so this does not fail the build.
+                logger.warn(
+                    `Unknown option set by the environment variable ${variable}` +
+                        (similar.length
+                            ? `, did you mean ${similar.join(", ")}?`
+                            : "")
+                );
+                continue;
+            }
+
+            try {
+                container.setValue(
+                    declaration.name as never,
+                    coerce(value, declaration) as never
+                );
+            } catch (error) {
+                logger.error(error.message);
+            }
+        }
+    }
+}
@@ -1,3 +1,6 @@
 export { ArgumentsReader } from "./arguments";
+export { ConfigFileReader } from "./config-file";
+export { EnvironmentReader } from "./environment";
+export { PackageJsonReader } from "./package-json";
 export { TSConfigReader } from "./tsconfig";
 export { TypeDocReader } from "./typedoc";
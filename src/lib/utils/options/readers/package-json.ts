@@ -0,0 +1,55 @@
+import * as Path from "path";
+import * as FS from "fs";
+
+import { OptionsReader, Options } from "../options";
+import { Logger } from "../../loggers";
+import { readFile } from "../../fs";
+
+/**
+ * Obtains option values from the `typedoc` key of the package.json file
+ * in the current directory.
+ */
+export class PackageJsonReader implements OptionsReader {
+    /**
+     * Runs before the [[TypeDocReader]] so that options files override package.json,
+     * and may set the options file to read.
+     */
+    priority = 50;
+
+    name = "package-json";
+
+    private directory: string;
+
+    constructor(directory = process.cwd()) {
+        this.directory = directory;
+    }
+
+    read(container: Options, logger: Logger): void {
+        const file = Path.resolve(this.directory, "package.json");
+        if (!FS.existsSync(file)) {
+            return;
+        }
+
+        let packageJson: unknown;
+        try {
+            packageJson = JSON.parse(readFile(file));
+        } catch (error) {
+            logger.error(`Failed to parse ${file}: ${error.message}`);
+            return;
+        }
+        if (typeof packageJson !== "object" || !packageJson) {
+            return;
+        }
+
+        const data: unknown = (packageJson as Record<string, unknown>).typedoc;
+        if (data === undefined) {
+            return;
+        }
+        if (typeof data !== "object" || !data) {
+            logger.error(`The typedoc key in ${file} is not an object.`);
+            return;
+        }
+
+        container.setConfigValues(data, file, logger, "typedoc");
+    }
+}
@@ -84,13 +84,11 @@ export class TSConfigReader implements OptionsReader {
             parsed.options,
             parsed.projectReferences
         );
-        for (const [key, val] of Object.entries(typedocOptions || {})) {
-            try {
-                // We catch the error, so can ignore the strict type checks
-                container.setValue(key as never, val as never);
-            } catch (error) {
-                logger.error(error.message);
-            }
-        }
+        container.setConfigValues(
+            typedocOptions,
+            fileToRead,
+            logger,
+            "typedocOptions"
+        );
     }
 }
@@ -5,6 +5,7 @@ import { cloneDeep } from "lodash";
 import { OptionsReader } from "..";
 import { Logger } from "../../loggers";
 import { Options } from "../options";
+import { findConfigModule, isConfigModule } from "./config-file";
 
 /**
  * Obtains option values from typedoc.json
@@ -25,10 +26,18 @@ export class TypeDocReader implements OptionsReader {
      */
     read(container: Options, logger: Logger): void {
         const path = container.getValue("options");
+        if (isConfigModule(path)) {
+            // typedoc.config.mjs and .cjs files are read by the ConfigFileReader.
+            return;
+        }
         const file = this.findTypedocFile(path);
 
         if (!file) {
-            if (container.isSet("options")) {
+            // The options may be given as a directory containing a typedoc.config.mjs file.
+            if (
+                container.isSet("options") &&
+                !findConfigModule(Path.resolve(path))
+            ) {
                 logger.error(
                     `The options file could not be found with the given path ${path}`
                 );
@@ -48,7 +57,7 @@ export class TypeDocReader implements OptionsReader {
      */
     private readFile(
         file: string,
-        container: Options & { setValue(key: string, value: unknown): void },
+        container: Options,
         logger: Logger,
         seen: Set<string>
     ) {
@@ -86,17 +95,8 @@ export class TypeDocReader implements OptionsReader {
             delete data["extends"];
         }
 
-        for (let [key, val] of Object.entries(data)) {
-            try {
-                // The "packages" option is an array of paths and should be interpreted as relative to the typedoc.json
-                if (key === "packages" && Array.isArray(val)) {
-                    val = val.map((e) => Path.resolve(file, "..", e));
-                }
-                container.setValue(key, val);
-            } catch (error) {
-                logger.error(error.message);
-            }
-        }
+        // Paths are relative to the file they appear in, also when it is extended.
+        container.setConfigValues(data, file, logger);
     }
 
     /**
@@ -0,0 +1,125 @@
+import type { Options } from "./options";
+import {
+    DeclarationOption,
+    MapDeclarationOption,
+    NumberDeclarationOption,
+    ParameterType,
+} from "./declaration";
+
+/**
+ * Options which only make sense on the command line.
+ */
+const IGNORED_OPTIONS = new Set([
+    "help",
+    "version",
+    "validateConfig",
+    "optionsSchema",
+]);
+
+/**
+ * Options whose default value depends on the directory TypeDoc is run in.
+ */
+const IGNORED_DEFAULT_OPTIONS = new Set(["options", "tsconfig"]);
+
+function getMapKeys(map: MapDeclarationOption<unknown>["map"]) {
+    // Numeric enums also map their values to their keys, which are left out.
+    return map instanceof Map
+        ? [...map.keys()]
+        : Object.keys(map).filter((key) => isNaN(+key));
+}
+
+function getPropertySchema(option: Readonly<DeclarationOption>) {
+    const data: Record<string, unknown> = {
+        description: option.help,
+    };
+
+    switch (option.type ?? ParameterType.String) {
+        case ParameterType.Array:
+        case ParameterType.PathArray:
+        case ParameterType.GlobArray:
+            data.type = "array";
+            data.items = { type: "string" };
+            data.default = option.defaultValue ?? [];
+            break;
+        case ParameterType.String:
+        case ParameterType.Path:
+            data.type = "string";
+            if (!IGNORED_DEFAULT_OPTIONS.has(option.name)) {
+                data.default = option.defaultValue ?? "";
+            }
+            break;
+        case ParameterType.Boolean:
+            data.type = "boolean";
+            data.default = option.defaultValue ?? false;
+            break;
+        case ParameterType.Number: {
+            const decl = option as NumberDeclarationOption;
+            data.type = "number";
+            data.default = decl.defaultValue ?? 0;
+            data.maximum = decl.maxValue;
+            data.minimum = decl.minValue;
+            break;
+        }
+        case ParameterType.Map: {
+            const decl = option as MapDeclarationOption<unknown>;
+            const map = decl.map;
+            data.enum = getMapKeys(map);
+            // Config files use the keys, the default value is the value of one of them.
+            data.default = getMapKeys(map).find(
+                (key) =>
+                    (map instanceof Map ? map.get(key) : map[key]) ===
+                    decl.defaultValue
+            );
+            break;
+        }
+        case ParameterType.Mixed:
+            break; // Nothing to do... TypeDoc really shouldn't have any of these.
+    }
+
+    return data;
+}
+
+/**
+ * Generate a JSON Schema for typedoc.json files from the declared options, so that editors
+ * can offer completion and validation. Options declared by plugins are included if the
+ * plugins have been loaded.
+ * @param options The options container to take the declarations from.
+ */
+export function getOptionsSchema(
+    options: Pick<Options, "getDeclarations">
+): Record<string, unknown> {
+    const properties: Record<string, unknown> = {
+        $schema: {
+            description: "The JSON Schema the file is validated against.",
+            type: "string",
+        },
+        extends: {
+            description:
+                "One or more options files to read before this one, relative to this file.",
+            type: ["string", "array"],
+            items: { type: "string" },
+        },
+    };
+
+    const declarations = options
+        .getDeclarations()
+        .filter((option) => !IGNORED_OPTIONS.has(option.name))
+        .sort((a, b) => (a.name < b.name ? -1 : 1));
+    for (const option of declarations) {
+        properties[option.name] = getPropertySchema(option);
+    }
+
+    if (properties.logger) {
+        Object.assign(properties.logger, {
+            enum: ["console", "none"],
+            default: "console",
+        });
+    }
+
+    return {
+        $schema: "https://json-schema.org/draft-07/schema",
+        title: "JSON Schema for typedoc.json",
+        type: "object",
+        properties,
+    };
+}
@@ -1,5 +1,9 @@
 import { Options } from "..";
 import { LogLevel } from "../../loggers";
+import { LinkValidation } from "../../../validation/links";
+import { ReleaseStage } from "../../../models/reflections/abstract";
+import { DiffFormat } from "../../../diff/format";
+import { parseVersion } from "../../../diff/semver";
 import { ParameterType, ParameterHint } from "../declaration";
 import { BUNDLED_THEMES } from "shiki";
 
@@ -7,7 +11,8 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
     options.addDeclaration({
         name: "options",
         help:
-            "Specify a json option file that should be loaded. If not specified TypeDoc will look for 'typedoc.json' in the current directory",
+            "Specify a json, .mjs or .cjs option file that should be loaded. If not specified TypeDoc will look for 'typedoc.json', 'typedoc.config.mjs' and 'typedoc.config.cjs' in the current directory",
+        type: ParameterType.Path,
         hint: ParameterHint.File,
         defaultValue: process.cwd(),
     });
@@ -15,6 +20,7 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         name: "tsconfig",
         help:
             "Specify a TypeScript config file that should be loaded. If not specified TypeDoc will look for 'tsconfig.json' in the current directory.",
+        type: ParameterType.Path,
         hint: ParameterHint.File,
         defaultValue: process.cwd(),
     });
@@ -22,28 +28,36 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         name: "packages",
         help:
             "Specify one or more package folders from which a package.json file should be loaded to determine the entry points. Your JS files must have sourcemaps for this to work. If the root of an npm or Yarn workspace is given, the packages specified in `workpaces` will be loaded.",
-        type: ParameterType.Array,
+        type: ParameterType.PathArray,
         defaultValue: [],
     });
+    options.addDeclaration({
+        name: "workers",
+        help:
+            "Specifies the number of worker threads to convert packages in when using --packages. If 0, all packages are converted in the main thread.",
+        type: ParameterType.Number,
+        minValue: 0,
+        defaultValue: 0,
+    });
 
     options.addDeclaration({
         name: "entryPoints",
         help:
             "The entry points of your library, which files should be documented as available to consumers.",
-        type: ParameterType.Array,
+        type: ParameterType.PathArray,
     });
 
     options.addDeclaration({
         name: "exclude",
         help:
             "Define paths to be excluded when expanding a directory that was specified as an entry point.",
-        type: ParameterType.Array,
+        type: ParameterType.GlobArray,
     });
     options.addDeclaration({
         name: "externalPattern",
         help:
             "Define patterns for files that should be considered being external.",
-        type: ParameterType.Array,
+        type: ParameterType.GlobArray,
         defaultValue: ["**/node_modules/**"],
     });
     options.addDeclaration({
@@ -73,12 +87,43 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         help: "Ignores protected variables and methods",
         type: ParameterType.Boolean,
     });
+    options.addDeclaration({
+        name: "excludeDeprecated",
+        help: "Ignores reflections marked with @deprecated",
+        type: ParameterType.Boolean,
+    });
+    options.addDeclaration({
+        name: "releaseStage",
+        help:
+            "Ignores reflections with a less stable release stage, one of internal, alpha, beta (or @experimental) and public.",
+        type: ParameterType.Map,
+        // Values are written in lower case, so the keys of the enum cannot be used.
+        map: new Map([
+            ["internal", ReleaseStage.Internal],
+            ["alpha", ReleaseStage.Alpha],
+            ["beta", ReleaseStage.Beta],
+            ["public", ReleaseStage.Public],
+        ]),
+        defaultValue: ReleaseStage.Internal,
+    });
+    options.addDeclaration({
+        name: "intentionallyNotExported",
+        help:
+            "A list of types which should not produce 'referenced but not exported' warnings.",
+        type: ParameterType.Array,
+    });
     options.addDeclaration({
         name: "disableSources",
         help:
             "Disables setting the source of a reflection when documenting it.",
         type: ParameterType.Boolean,
     });
+    options.addDeclaration({
+        name: "sourcePages",
+        help:
+            "Emit a highlighted page for every source file and link the sources of reflections to these pages instead of the repository.",
+        type: ParameterType.Boolean,
+    });
     options.addDeclaration({
         name: "disableAliases",
         help: "Disables creating aliases for shared reflections.",
@@ -88,12 +133,14 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         name: "includes",
         help:
             "Specifies the location to look for included documents (use [[include:FILENAME]] in comments).",
+        type: ParameterType.Path,
         hint: ParameterHint.Directory,
     });
     options.addDeclaration({
         name: "media",
         help:
             "Specifies the location with media files that should be copied to the output directory.",
+        type: ParameterType.Path,
         hint: ParameterHint.Directory,
     });
 
@@ -113,16 +160,30 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         help: "If set, TypeDoc will emit the TypeScript compilation result",
         type: ParameterType.Boolean,
     });
+    options.addDeclaration({
+        name: "cacheDir",
+        help:
+            "Specifies a directory to cache converted entry points in. Entry points whose sources have not changed are loaded from the cache.",
+        type: ParameterType.Path,
+        hint: ParameterHint.Directory,
+    });
+    options.addDeclaration({
+        name: "clearCache",
+        help: "If set, TypeDoc will clear the cache directory before converting.",
+        type: ParameterType.Boolean,
+    });
 
     options.addDeclaration({
         name: "out",
         help: "Specifies the location the documentation should be written to.",
+        type: ParameterType.Path,
         hint: ParameterHint.Directory,
     });
     options.addDeclaration({
         name: "json",
         help:
             "Specifies the location and filename a JSON file describing the project is written to.",
+        type: ParameterType.Path,
         hint: ParameterHint.File,
     });
     options.addDeclaration({
@@ -132,6 +193,65 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         type: ParameterType.Boolean,
         defaultValue: true,
     });
+    options.addDeclaration({
+        name: "merge",
+        help:
+            "Treat the entry points as JSON files written with --json and merge them into a single project with one module per file.",
+        type: ParameterType.Boolean,
+    });
+    options.addDeclaration({
+        name: "diffFormat",
+        help:
+            "Specifies the format `typedoc diff old.json new.json` writes the API changes in, one of text, markdown or json.",
+        type: ParameterType.Map,
+        map: new Map([
+            ["text", DiffFormat.Text],
+            ["markdown", DiffFormat.Markdown],
+            ["json", DiffFormat.Json],
+        ]),
+        defaultValue: DiffFormat.Text,
+    });
+    options.addDeclaration({
+        name: "proposedVersion",
+        help:
+            "The version `typedoc semver old.json new.json` checks against the API changes since the version in package.json. If not set, the check only fails for breaking changes.",
+        validate(value: string) {
+            if (value && !parseVersion(value)) {
+                throw new Error(
+                    `proposedVersion must be a version like 1.2.3, got ${value}`
+                );
+            }
+        },
+    });
+    options.addDeclaration({
+        name: "coverage",
+        help:
+            "Specifies the location a documentation coverage report is written to. The report is written as JSON if the file name ends with .json, otherwise as Markdown.",
+        type: ParameterType.Path,
+        hint: ParameterHint.File,
+    });
+    options.addDeclaration({
+        name: "coverageThreshold",
+        help:
+            "Specifies the percentage of exported declarations which must be documented. If the coverage is lower, TypeDoc exits with an error.",
+        type: ParameterType.Number,
+        minValue: 0,
+        maxValue: 100,
+        defaultValue: 0,
+    });
+    options.addDeclaration({
+        name: "apiReport",
+        help:
+            "Specifies the location a text report of the public API is written to, intended to be committed.",
+        type: ParameterType.Path,
+        hint: ParameterHint.File,
+    });
+    options.addDeclaration({
+        name: "checkApiReport",
+        help:
+            "Instead of writing the apiReport file, check that it is up to date and exit with an error if it is not.",
+        type: ParameterType.Boolean,
+    });
 
     options.addDeclaration({
         name: "theme",
@@ -175,6 +295,7 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         name: "readme",
         help:
             "Path to the readme file that should be displayed on the index page. Pass `none` to disable the index page and start the documentation on the globals page.",
+        type: ParameterType.Path,
     });
     options.addDeclaration({
         name: "defaultCategory",
@@ -198,13 +319,18 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
     options.addDeclaration({
         name: "gitRevision",
         help:
-            "Use specified revision instead of the last revision for linking to GitHub source files.",
+            "Use specified revision instead of the last revision for linking to source files.",
     });
     options.addDeclaration({
         name: "gitRemote",
-        help: "Use the specified remote for linking to GitHub source files.",
+        help: "Use the specified remote for linking to source files.",
         defaultValue: "origin",
     });
+    options.addDeclaration({
+        name: "sourceLinkTemplate",
+        help:
+            "Specify a URL template for linking to source files hosted on services TypeDoc does not recognize, supports the {path}, {line} and {gitRevision} placeholders.",
+    });
     options.addDeclaration({
         name: "gaID",
         help:
@@ -248,6 +374,19 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
         help: "Print the resolved configuration and exit",
         type: ParameterType.Boolean,
     });
+    options.addDeclaration({
+        name: "validateConfig",
+        help:
+            "Check the configuration, including the files and directories it refers to, and exit without converting anything.",
+        type: ParameterType.Boolean,
+    });
+    options.addDeclaration({
+        name: "optionsSchema",
+        help:
+            "Write a JSON Schema for typedoc.json including the options declared by plugins to the given file and exit.",
+        type: ParameterType.Path,
+        hint: ParameterHint.File,
+    });
     options.addDeclaration({
         name: "plugin",
         help:
@@ -273,6 +412,30 @@ export function addTypeDocOptions(options: Pick<Options, "addDeclaration">) {
             "Emits a list of broken symbol [[navigation]] links after documentation generation",
         type: ParameterType.Boolean,
     });
+    options.addDeclaration({
+        name: "validateSymbolLinks",
+        help:
+            "Specifies how symbol links which cannot be resolved are reported after converting. If set to error, TypeDoc exits with an error.",
+        type: ParameterType.Map,
+        map: new Map([
+            ["off", LinkValidation.Off],
+            ["warn", LinkValidation.Warn],
+            ["error", LinkValidation.Error],
+        ]),
+        defaultValue: LinkValidation.Off,
+    });
+    options.addDeclaration({
+        name: "checkExamples",
+        help:
+            "Type check TypeScript code blocks in @example tags, the readme and included files against the entry points. Not supported with --packages or --merge.",
+        type: ParameterType.Boolean,
+    });
+    options.addDeclaration({
+        name: "runExamples",
+        help:
+            "If set with --checkExamples, examples containing `// =>` assertions are run and their results checked.",
+        type: ParameterType.Boolean,
+    });
     options.addDeclaration({
         name: "markedOptions",
         help:
@@ -1,11 +1,14 @@
 // Utilities to support the inspection of node package "manifests" (package.json's)
 
 import glob = require("glob");
+import { existsSync } from "fs";
 import { dirname, join, resolve } from "path";
 import { flatMap } from "./array";
 
 import { readFile } from "./fs";
 import { Logger } from "./loggers";
+import type { Options } from "./options";
+import { convert, TypeDocOptionValues } from "./options/declaration";
 
 /**
  * Helper for the TS type system to understand hasOwnProperty
@@ -212,3 +215,87 @@ export function getTsEntryPointForPackage(
     }
     return getTsSourceFromJsSource(logger, jsEntryPointPath);
 }
+
+/**
+ * The options a package may override in packages mode.
+ */
+export const packageOptionNames = [
+    "name",
+    "entryPoints",
+    "readme",
+    "excludeTags",
+    "excludePrivate",
+    "categoryOrder",
+] as const;
+
+/**
+ * Options which apply to a single package rather than to the whole project,
+ * read by [[loadPackageOptions]].
+ */
+export type PackageOptions = Partial<
+    Pick<TypeDocOptionValues, typeof packageOptionNames[number]>
+>;
+
+/**
+ * Load the options a package overrides from the `typedoc` key of its package.json
+ * and from a typedoc.json file next to it, which takes precedence. Other options in these
+ * files are ignored so that a package's typedoc.json may also be used to document it on its own.
+ * Paths are resolved relative to the package.
+ *
+ * @param logger  Invalid values are reported to this logger and ignored.
+ * @param options  The options the declarations of overridden options are taken from.
+ * @param packageJsonPath  The path to the package.json of the package.
+ * @param packageJson  The parsed contents of the package.json.
+ */
+export function loadPackageOptions(
+    logger: Logger,
+    options: Options,
+    packageJsonPath: string,
+    packageJson: Record<string, unknown>
+): PackageOptions {
+    const packagePath = dirname(packageJsonPath);
+    const sources: [string, unknown][] = [
+        [packageJsonPath, packageJson.typedoc],
+    ];
+    const typedocJsonPath = join(packagePath, "typedoc.json");
+    if (existsSync(typedocJsonPath)) {
+        try {
+            sources.push([
+                typedocJsonPath,
+                JSON.parse(readFile(typedocJsonPath)),
+            ]);
+        } catch (error) {
+            logger.error(
+                `Failed to parse ${typedocJsonPath}: ${error.message}`
+            );
+        }
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [file, data] of sources) {
+        if (data === undefined) {
+            continue;
+        }
+        if (typeof data !== "object" || !data) {
+            logger.error(`The TypeDoc options in ${file} are not an object.`);
+            continue;
+        }
+
+        for (const name of packageOptionNames) {
+            if (!hasOwnProperty(data, name)) {
+                continue;
+            }
+            try {
+                result[name] = convert(
+                    data[name],
+                    options.getDeclaration(name)!,
+                    packagePath
+                );
+            } catch (error) {
+                logger.error(`${error.message} in ${file}`);
+            }
+        }
+    }
+
+    return result as PackageOptions;
+}
@@ -0,0 +1,131 @@
+// Utilities to create programs for the composite projects in a tsconfig project reference graph
+
+import * as ts from "typescript";
+
+/**
+ * A compiler host which makes programs share source files. Since the binder only runs once
+ * for each source file, a declaration is represented by the same symbol in every program
+ * containing it, so declarations shared between programs are only converted once.
+ *
+ * Programs created with this host use the sources of the projects they reference rather than
+ * their declaration outputs, which do not need to have been built.
+ */
+export function createSharedCompilerHost(
+    host: ts.CompilerHost,
+    sourceFiles = new Map<string, ts.SourceFile | undefined>()
+): ts.CompilerHost {
+    const sharedHost: ts.CompilerHost & {
+        // Not part of the public API, but respected by ts.createProgram.
+        useSourceOfProjectReferenceRedirect(): boolean;
+    } = {
+        ...host,
+        getSourceFile(fileName, languageVersion, ...rest) {
+            const key = `${languageVersion}:${fileName}`;
+            if (!sourceFiles.has(key)) {
+                sourceFiles.set(
+                    key,
+                    host.getSourceFile(fileName, languageVersion, ...rest)
+                );
+            }
+            return sourceFiles.get(key);
+        },
+        useSourceOfProjectReferenceRedirect: () => true,
+    };
+    return sharedHost;
+}
+
+/**
+ * Create a program for each composite project in the graph of the given project references,
+ * including references of references. Programs are returned in build order, so a program comes
+ * after the programs of the projects it references.
+ *
+ * The solution builder is used to walk the graph in read-only mode, nothing is written to disk.
+ *
+ * @param references  The references of the root project.
+ * @param sourceFiles  The source file cache to share with other programs, see [[createSharedCompilerHost]].
+ */
+export function createProgramsForReferences(
+    references: readonly ts.ProjectReference[],
+    sourceFiles = new Map<string, ts.SourceFile | undefined>()
+): ts.Program[] {
+    const noop = () => undefined;
+    const readOnlySystem: ts.System = {
+        ...ts.sys,
+        writeFile: noop,
+        createDirectory: noop,
+        deleteFile: noop,
+        setModifiedTime: noop,
+    };
+    const builderHost = ts.createSolutionBuilderHost(
+        readOnlySystem,
+        (rootNames, options, host, ...rest) =>
+            ts.createEmitAndSemanticDiagnosticsBuilderProgram(
+                rootNames,
+                options,
+                host && createSharedCompilerHost(host, sourceFiles),
+                ...rest
+            ),
+        // The diagnostics of each program are reported when it is converted.
+        noop
+    );
+    const builder = ts.createSolutionBuilder(
+        builderHost,
+        references.map((ref) => ts.resolveProjectReferencePath(ref)),
+        // Every project has to be visited, even if its outputs are up to date.
+        { force: true }
+    );
+
+    const programs: ts.Program[] = [];
+    for (
+        let project = builder.getNextInvalidatedProject();
+        project;
+        project = builder.getNextInvalidatedProject()
+    ) {
+        if (project.kind === ts.InvalidatedProjectKind.Build) {
+            const program = project.getProgram();
+            if (program) {
+                programs.push(program);
+            }
+        }
+        // Moves on to the next project. Emitted files are discarded.
+        project.done(undefined, noop);
+    }
+    return programs;
+}
+
+/**
+ * Get the tsconfig files of the projects in the graph of the given project references,
+ * including references of references. Files are returned in build order, like the programs
+ * created by [[createProgramsForReferences]].
+ *
+ * @param references  The references of the root project.
+ */
+export function getReferencedConfigFiles(
+    references: readonly ts.ProjectReference[]
+): string[] {
+    const configFiles: string[] = [];
+    const seen = new Set<string>();
+    const visit = (references: readonly ts.ProjectReference[]) => {
+        for (const ref of references) {
+            const configFile = ts.resolveProjectReferencePath(ref);
+            if (seen.has(configFile)) {
+                continue;
+            }
+            seen.add(configFile);
+
+            // Errors in the config file are reported when its program is created.
+            const parsed = ts.getParsedCommandLineOfConfigFile(
+                configFile,
+                {},
+                {
+                    ...ts.sys,
+                    onUnRecoverableConfigFileDiagnostic: () => undefined,
+                }
+            );
+            visit(parsed?.projectReferences ?? []);
+            configFiles.push(configFile);
+        }
+    };
+    visit(references);
+    return configFiles;
+}
@@ -0,0 +1,251 @@
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    ReferenceReflection,
+    ReflectionKind,
+    SignatureReflection,
+    TypeParameterReflection,
+} from "../models/reflections/index";
+import type { Type } from "../models/types/index";
+import { printSignature, printType, printTypeParameter } from "../diff/diff";
+
+const indent = "    ";
+
+function printTypeParameters(typeParameters?: TypeParameterReflection[]) {
+    return typeParameters?.length
+        ? `<${typeParameters.map(printTypeParameter).join(", ")}>`
+        : "";
+}
+
+function printHeritage(keyword: string, types?: Type[]) {
+    return types?.length
+        ? ` ${keyword} ${types.map((type) => type.toString()).join(", ")}`
+        : "";
+}
+
+function getModifiers(reflection: DeclarationReflection) {
+    const modifiers: string[] = [];
+    if (reflection.flags.isStatic) {
+        modifiers.push("static");
+    }
+    if (reflection.flags.isProtected) {
+        modifiers.push("protected");
+    }
+    if (reflection.flags.isAbstract) {
+        modifiers.push("abstract");
+    }
+    if (reflection.flags.isReadonly) {
+        modifiers.push("readonly");
+    }
+    return modifiers.map((modifier) => modifier + " ").join("");
+}
+
+/**
+ * Members are compared with `<` instead of `localeCompare` so that the order does not
+ * depend on the locale of the machine the report is generated on.
+ */
+function compareDeclarations(
+    a: DeclarationReflection,
+    b: DeclarationReflection
+) {
+    if (a.name !== b.name) {
+        return a.name < b.name ? -1 : 1;
+    }
+    return a.kind - b.kind;
+}
+
+/**
+ * Whether the declaration is part of the public API of its parent. Members inherited
+ * from a base class are listed in the report of the base class.
+ */
+function isReported(reflection: DeclarationReflection) {
+    return !reflection.flags.isPrivate && !reflection.inheritedFrom;
+}
+
+/**
+ * Prints the lines of the report, one line per member or signature.
+ */
+class ApiReportPrinter {
+    readonly lines: string[] = [];
+
+    private depth = 0;
+
+    private add(line: string) {
+        this.lines.push(indent.repeat(this.depth) + line);
+    }
+
+    private block(header: string, print: () => void) {
+        this.add(`${header} {`);
+        this.depth++;
+        print();
+        this.depth--;
+        this.add("}");
+    }
+
+    printChildren(reflection: ProjectReflection | DeclarationReflection) {
+        const children = (reflection.children ?? [])
+            .filter(isReported)
+            .sort(compareDeclarations);
+        for (const child of children) {
+            this.printDeclaration(child);
+        }
+    }
+
+    private printSignatures(prefix: string, signatures: SignatureReflection[]) {
+        for (const signature of signatures) {
+            this.add(`${prefix}${printSignature(signature)};`);
+        }
+    }
+
+    private printDeclaration(reflection: DeclarationReflection) {
+        const name = reflection.name;
+        const typeParameters = printTypeParameters(reflection.typeParameters);
+
+        switch (reflection.kind) {
+            case ReflectionKind.Module:
+                this.block(`module ${JSON.stringify(name)}`, () =>
+                    this.printChildren(reflection)
+                );
+                break;
+            case ReflectionKind.Namespace:
+                this.block(`namespace ${name}`, () =>
+                    this.printChildren(reflection)
+                );
+                break;
+            case ReflectionKind.Enum:
+                this.block(
+                    `${reflection.flags.isConst ? "const " : ""}enum ${name}`,
+                    () => this.printChildren(reflection)
+                );
+                break;
+            case ReflectionKind.EnumMember:
+                this.add(
+                    reflection.defaultValue === undefined
+                        ? `${name},`
+                        : `${name} = ${reflection.defaultValue},`
+                );
+                break;
+            case ReflectionKind.Class:
+                this.block(
+                    `${getModifiers(
+                        reflection
+                    )}class ${name}${typeParameters}${printHeritage(
+                        "extends",
+                        reflection.extendedTypes
+                    )}${printHeritage(
+                        "implements",
+                        reflection.implementedTypes
+                    )}`,
+                    () => this.printMembers(reflection)
+                );
+                break;
+            case ReflectionKind.Interface:
+                this.block(
+                    `interface ${name}${typeParameters}${printHeritage(
+                        "extends",
+                        reflection.extendedTypes
+                    )}`,
+                    () => this.printMembers(reflection)
+                );
+                break;
+            case ReflectionKind.Function:
+                this.printSignatures(
+                    `function ${name}`,
+                    reflection.signatures ?? []
+                );
+                break;
+            case ReflectionKind.Variable:
+                this.add(
+                    `${
+                        reflection.flags.isConst
+                            ? "const"
+                            : reflection.flags.isLet
+                            ? "let"
+                            : "var"
+                    } ${name}: ${printType(reflection.type)};`
+                );
+                break;
+            case ReflectionKind.TypeAlias:
+                this.add(
+                    `type ${name}${typeParameters} = ${printType(
+                        reflection.type
+                    )};`
+                );
+                break;
+            case ReflectionKind.Reference: {
+                const target = (
+                    reflection as ReferenceReflection
+                ).getTargetReflectionDeep();
+                this.add(
+                    target.name === name
+                        ? `export { ${target.getFullName()} };`
+                        : `export { ${target.getFullName()} as ${name} };`
+                );
+                break;
+            }
+            default:
+                this.printMember(reflection);
+        }
+    }
+
+    /**
+     * Print the members of a class or interface, including its call, construct and index
+     * signatures.
+     */
+    private printMembers(reflection: DeclarationReflection) {
+        this.printSignatures("", reflection.signatures ?? []);
+        if (reflection.indexSignature) {
+            this.printSignatures("", [reflection.indexSignature]);
+        }
+        this.printChildren(reflection);
+    }
+
+    private printMember(reflection: DeclarationReflection) {
+        const modifiers = getModifiers(reflection);
+        const name = `${reflection.name}${
+            reflection.flags.isOptional ? "?" : ""
+        }`;
+
+        switch (reflection.kind) {
+            case ReflectionKind.Constructor:
+                this.printSignatures("new ", reflection.signatures ?? []);
+                break;
+            case ReflectionKind.Accessor:
+                if (reflection.getSignature) {
+                    this.printSignatures(`${modifiers}get ${name}`, [
+                        reflection.getSignature,
+                    ]);
+                }
+                if (reflection.setSignature) {
+                    this.printSignatures(`${modifiers}set ${name}`, [
+                        reflection.setSignature,
+                    ]);
+                }
+                break;
+            default:
+                if (reflection.signatures) {
+                    this.printSignatures(
+                        `${modifiers}${name}`,
+                        reflection.signatures
+                    );
+                } else {
+                    this.add(
+                        `${modifiers}${name}: ${printType(reflection.type)};`
+                    );
+                }
+        }
+    }
+}
+
+/**
+ * Get a text report of the public API of the project, intended to be committed so that
+ * changes to the API show up in code review.
+ *
+ * Every exported declaration is listed with its members and signatures, sorted by name.
+ * Private and inherited members are left out.
+ */
+export function getApiReport(project: ProjectReflection): string {
+    const printer = new ApiReportPrinter();
+    printer.printChildren(project);
+    return printer.lines.join("\n") + "\n";
+}
@@ -0,0 +1,234 @@
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+    SignatureReflection,
+} from "../models/reflections/index";
+import { IntrinsicType } from "../models/types/index";
+
+/**
+ * The number of documented items out of all items of some sort.
+ */
+export interface CoverageCount {
+    documented: number;
+    total: number;
+}
+
+export interface CoverageSummary {
+    /** Exported declarations, excluding modules, references and inherited members. */
+    reflections: CoverageCount;
+    /** The declarations counted in [[reflections]], by the name of their kind. */
+    kinds: Record<string, CoverageCount>;
+    /** Parameters of the signatures of the counted declarations. */
+    parameters: CoverageCount;
+    /** Call signatures of the counted declarations which return something. */
+    returns: CoverageCount;
+}
+
+export interface ModuleCoverage extends CoverageSummary {
+    name: string;
+    /** The full names of the declarations which are not documented. */
+    undocumented: string[];
+}
+
+/**
+ * The result of [[getCoverage]], written as the JSON coverage report.
+ */
+export interface CoverageReport {
+    total: CoverageSummary;
+    modules: ModuleCoverage[];
+}
+
+function createSummary(): CoverageSummary {
+    return {
+        reflections: { documented: 0, total: 0 },
+        kinds: {},
+        parameters: { documented: 0, total: 0 },
+        returns: { documented: 0, total: 0 },
+    };
+}
+
+function count(target: CoverageCount, documented: boolean) {
+    target.total++;
+    if (documented) {
+        target.documented++;
+    }
+}
+
+function hasComment(reflection: Reflection) {
+    return !!reflection.comment?.hasVisibleComponent();
+}
+
+function getSignatures(reflection: DeclarationReflection) {
+    return [
+        ...reflection.getAllSignatures(),
+        ...(reflection.indexSignature ? [reflection.indexSignature] : []),
+    ];
+}
+
+function returnsValue(signature: SignatureReflection) {
+    return (
+        signature.kindOf(ReflectionKind.CallSignature) &&
+        !(
+            signature.type instanceof IntrinsicType &&
+            ["void", "undefined", "never"].includes(signature.type.name)
+        )
+    );
+}
+
+function isDocumented(reflection: DeclarationReflection) {
+    return hasComment(reflection) || getSignatures(reflection).some(hasComment);
+}
+
+function countReflection(
+    summary: CoverageSummary,
+    reflection: DeclarationReflection,
+    documented: boolean
+) {
+    const kind = ReflectionKind[reflection.kind];
+    count(summary.reflections, documented);
+    count((summary.kinds[kind] ??= { documented: 0, total: 0 }), documented);
+
+    for (const signature of getSignatures(reflection)) {
+        for (const parameter of signature.parameters ?? []) {
+            count(summary.parameters, hasComment(parameter));
+        }
+        if (returnsValue(signature)) {
+            count(summary.returns, !!signature.comment?.returns);
+        }
+    }
+}
+
+/**
+ * Count how many of the declarations exported from each module of the project are documented.
+ * If the project was converted from a single entry point, the project is its only module.
+ *
+ * @param project  The converted project.
+ */
+export function getCoverage(project: ProjectReflection): CoverageReport {
+    const total = createSummary();
+    const modules: ModuleCoverage[] = [];
+
+    const roots = project.getChildrenByKind(ReflectionKind.Module);
+    for (const root of roots.length ? roots : [project]) {
+        const module: ModuleCoverage = {
+            name: root.name,
+            ...createSummary(),
+            undocumented: [],
+        };
+        modules.push(module);
+
+        const visit = (reflection: DeclarationReflection) => {
+            if (
+                reflection.inheritedFrom ||
+                reflection.flags.isExternal ||
+                reflection.kindOf(ReflectionKind.Reference)
+            ) {
+                return;
+            }
+            // Constructors without parameters, including implicit ones, have nothing to document.
+            if (
+                reflection.kindOf(ReflectionKind.Constructor) &&
+                !reflection.signatures?.some((sig) => sig.parameters?.length)
+            ) {
+                return;
+            }
+            const documented = isDocumented(reflection);
+            if (!documented) {
+                module.undocumented.push(reflection.getFullName());
+            }
+            countReflection(total, reflection, documented);
+            countReflection(module, reflection, documented);
+            reflection.children?.forEach(visit);
+        };
+        root.children?.forEach(visit);
+    }
+
+    return { total, modules };
+}
+
+/**
+ * Get the percentage of the given items which are documented, 100 if there are none.
+ */
+export function getCoveragePercent({ documented, total }: CoverageCount) {
+    return total === 0 ? 100 : (documented / total) * 100;
+}
+
+function formatCount(count: CoverageCount) {
+    return `${count.documented}/${count.total} (${getCoveragePercent(
+        count
+    ).toFixed(2)}%)`;
+}
+
+function formatTable(rows: string[][]) {
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => row[column].length))
+    );
+    return rows
+        .map((row) =>
+            row
+                .map((cell, column) => cell.padEnd(widths[column]))
+                .join("  ")
+                .replace(/\s+$/, "")
+        )
+        .join("\n");
+}
+
+function getSummaryRows(report: CoverageReport) {
+    return [
+        ["Module", "Declarations", "Parameters", "Returns"],
+        ...[...report.modules, { ...report.total, name: "Total" }].map(
+            (summary) => [
+                summary.name,
+                formatCount(summary.reflections),
+                formatCount(summary.parameters),
+                formatCount(summary.returns),
+            ]
+        ),
+    ];
+}
+
+/**
+ * Get a plain text table summarizing the coverage of each module, intended to be logged.
+ */
+export function getCoverageSummary(report: CoverageReport): string {
+    return formatTable(getSummaryRows(report));
+}
+
+function markdownTable(rows: string[][]) {
+    const [head, ...body] = rows.map((row) => `| ${row.join(" | ")} |`);
+    return [head, `|${" --- |".repeat(rows[0].length)}`, ...body].join("\n");
+}
+
+/**
+ * Get a Markdown document listing the coverage of each module by kind, as well as the
+ * declarations which are not documented.
+ */
+export function getCoverageMarkdown(report: CoverageReport): string {
+    const sections = [
+        "# Documentation coverage",
+        markdownTable(getSummaryRows(report)),
+    ];
+
+    for (const module of report.modules) {
+        sections.push(
+            `## ${module.name}`,
+            markdownTable([
+                ["Kind", "Documented"],
+                ...Object.entries(module.kinds).map(([kind, count]) => [
+                    kind,
+                    formatCount(count),
+                ]),
+            ])
+        );
+        if (module.undocumented.length) {
+            sections.push(
+                "Not documented:\n\n" +
+                    module.undocumented.map((name) => `- ${name}`).join("\n")
+            );
+        }
+    }
+
+    return sections.join("\n\n") + "\n";
+}
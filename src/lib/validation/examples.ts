@@ -0,0 +1,629 @@
+import * as ts from "typescript";
+import * as FS from "fs";
+import * as Path from "path";
+import * as vm from "vm";
+import * as NodeModule from "module";
+import { inspect, isDeepStrictEqual } from "util";
+
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+} from "../models/reflections/index";
+import type { Logger } from "../utils/loggers";
+import { normalizePath, readFile } from "../utils/fs";
+
+/**
+ * An entry point of the project which examples may import.
+ */
+export interface ExampleEntryPoint {
+    /** The name of the module converted from the entry point. */
+    displayName: string;
+    fileName: string;
+}
+
+export interface ExampleOptions {
+    compilerOptions: ts.CompilerOptions;
+    /** The root files of the project, so that global declarations are available to examples. */
+    rootNames: readonly string[];
+    entryPoints: readonly ExampleEntryPoint[];
+    readmeFile?: string;
+    /** The directory `[[include:file]]` paths are relative to. */
+    includes?: string;
+    /** Whether to run examples which contain `// =>` assertions. */
+    run: boolean;
+}
+
+/**
+ * A fenced `ts` code block in an `@example` tag, the readme or an included file.
+ */
+export interface Example {
+    /** The file the example is written in, or a name for it if the file is unknown. */
+    fileName: string;
+    /** The 0 based line of the first line of code in the file, if known. */
+    line?: number;
+    /** Whether the file is a source file, so each line of the example is prefixed with `*`. */
+    inComment: boolean;
+    code: string;
+    /** The entry point of the module the example documents. */
+    entryPoint?: ExampleEntryPoint;
+    /** The names exported from the module the example documents. */
+    exports: string[];
+}
+
+const codeBlocks = /^[ \t]*```(?:ts|typescript)\b[^\n]*\n([^]*?)^[ \t]*```/gm;
+const includePattern = /\[\[include:([^\]]+?)\]\]/g;
+const commentPrefix = /^\s*\*? ?/;
+const assertion = /^(\s*)(.+?);?\s*\/\/\s*=>\s*(.+?)\s*$/;
+
+function getCodeBlocks(text: string): string[] {
+    const blocks: string[] = [];
+    text.replace(codeBlocks, (_match: string, code: string) => {
+        blocks.push(code);
+        return "";
+    });
+    return blocks;
+}
+
+/**
+ * Find the 0 based line of the first line of the given code in the file, preferring the last
+ * occurrence before `before` since comments precede their declaration.
+ */
+function findCodeLine(
+    text: string,
+    code: string,
+    inComment: boolean,
+    before = Infinity
+): number | undefined {
+    const strip = (line: string) =>
+        (inComment ? line.replace(commentPrefix, "") : line).replace(
+            /\s+$/,
+            ""
+        );
+    const lines = text.split(/\r\n?|\n/).map(strip);
+    const codeLines = code.replace(/\n$/, "").split("\n").map(strip);
+
+    let found: number | undefined;
+    for (let i = 0; i + codeLines.length <= lines.length; i++) {
+        if (codeLines.every((line, k) => lines[i + k] === line)) {
+            if (found !== undefined && i > before) {
+                break;
+            }
+            found = i;
+        }
+    }
+    return found;
+}
+
+function getSource(reflection: Reflection) {
+    for (
+        let current: Reflection | undefined = reflection;
+        current;
+        current = current.parent
+    ) {
+        if (current.sources?.length) {
+            return current.sources[0];
+        }
+    }
+}
+
+/**
+ * Get the module the given reflection belongs to, the project if it was converted from a
+ * single entry point.
+ */
+function getModule(reflection: Reflection): Reflection {
+    let current = reflection;
+    while (current.parent && !current.parent.isProject()) {
+        current = current.parent;
+    }
+    return current.kindOf(ReflectionKind.Module)
+        ? current
+        : current.parent ?? current;
+}
+
+function getExportedNames(module: Reflection): string[] {
+    if (!(module instanceof DeclarationReflection || module.isProject())) {
+        return [];
+    }
+    return (module.children ?? [])
+        .map((child) => child.name)
+        .filter((name) => name !== "default" && /^[\w$]+$/.test(name));
+}
+
+/**
+ * Collect the examples of the project. Only code blocks marked as TypeScript are collected.
+ */
+export function getExamples(
+    project: ProjectReflection,
+    options: Pick<ExampleOptions, "entryPoints" | "readmeFile" | "includes">
+): Example[] {
+    const examples: Example[] = [];
+    const included = new Set<string>();
+    const mainEntryPoint =
+        options.entryPoints.length === 1 ? options.entryPoints[0] : undefined;
+    const mainExports = mainEntryPoint ? getExportedNames(project) : [];
+
+    const addIncludes = (text: string) => {
+        if (!options.includes) {
+            return;
+        }
+        text.replace(includePattern, (_match: string, path: string) => {
+            included.add(Path.resolve(options.includes!, path.trim()));
+            return "";
+        });
+    };
+
+    const addMarkdownFile = (fileName: string) => {
+        const text = readFile(fileName);
+        for (const code of getCodeBlocks(text)) {
+            examples.push({
+                fileName,
+                line: findCodeLine(text, code, false),
+                inComment: false,
+                code,
+                entryPoint: mainEntryPoint,
+                exports: mainExports,
+            });
+        }
+    };
+
+    for (const reflection of Object.values(project.reflections)) {
+        const comment = reflection.comment;
+        if (!comment) {
+            continue;
+        }
+        [
+            comment.shortText,
+            comment.text,
+            ...comment.tags.map((tag) => tag.text),
+        ]
+            .filter(Boolean)
+            .forEach(addIncludes);
+
+        const blocks = comment.tags
+            .filter((tag) => tag.tagName === "example")
+            .map((tag) => getCodeBlocks(tag.text))
+            .reduce((all, codes) => all.concat(codes), []);
+        if (!blocks.length) {
+            continue;
+        }
+
+        const module = getModule(reflection);
+        const entryPoint = module.isProject()
+            ? mainEntryPoint
+            : options.entryPoints.find(
+                  (entry) => entry.displayName === module.name
+              );
+        const source = getSource(reflection);
+        const sourceText = source?.file && readFile(source.file.fullFileName);
+        for (const code of blocks) {
+            examples.push({
+                fileName: source?.file
+                    ? source.file.fullFileName
+                    : Path.resolve(reflection.getFullName()),
+                line: sourceText
+                    ? findCodeLine(sourceText, code, true, source!.line - 1)
+                    : undefined,
+                inComment: true,
+                code,
+                entryPoint,
+                exports: getExportedNames(module),
+            });
+        }
+    }
+
+    if (options.readmeFile) {
+        addIncludes(readFile(options.readmeFile));
+        addMarkdownFile(options.readmeFile);
+    }
+    for (const fileName of included) {
+        if (FS.existsSync(fileName)) {
+            addMarkdownFile(fileName);
+        }
+    }
+
+    return examples;
+}
+
+function stripExtension(fileName: string) {
+    return fileName.replace(/(\.d)?\.[cm]?[jt]sx?$/, "");
+}
+
+/**
+ * Get the code of the example which is compiled. The first line imports the exports of the
+ * documented module which are used by the example, if the example doesn't import anything.
+ */
+function getExampleSource(example: Example, code = example.code) {
+    let header = "";
+    if (example.entryPoint && !/^\s*import\b/m.test(code)) {
+        const used = example.exports.filter((name) => {
+            const escaped = name.replace(/\$/g, "\\$");
+            return (
+                new RegExp(`(^|[^\\w$.])${escaped}\\b`).test(code) &&
+                !new RegExp(
+                    `\\b(const|let|var|function|class|interface|type|enum)\\s+${escaped}\\b`
+                ).test(code)
+            );
+        });
+        if (used.length) {
+            header = `import { ${used.join(", ")} } from ${JSON.stringify(
+                stripExtension(normalizePath(example.entryPoint.fileName))
+            )};`;
+        }
+    }
+    // Each example is a module so that declarations of different examples don't conflict.
+    return `${header}\n${code}\nexport {};\n`;
+}
+
+function getLocation(example: Example, line: number) {
+    const fileName = normalizePath(
+        Path.relative(process.cwd(), example.fileName)
+    );
+    return example.line === undefined
+        ? fileName
+        : `${fileName}:${example.line + line + 1}`;
+}
+
+/**
+ * Moves diagnostics reported for the compiled example to the location of the example in
+ * the file it was written in.
+ */
+class DiagnosticMapper {
+    private files = new Map<string, ts.SourceFile>();
+
+    map(example: Example, diagnostic: ts.Diagnostic): ts.Diagnostic {
+        if (!diagnostic.file || diagnostic.start === undefined) {
+            return diagnostic;
+        }
+        if (example.line === undefined) {
+            return diagnostic;
+        }
+
+        const file = this.getFile(example.fileName);
+        const position = ts.getLineAndCharacterOfPosition(
+            diagnostic.file,
+            diagnostic.start
+        );
+        // The first line of the compiled example contains the generated import.
+        const codeLine = Math.max(position.line - 1, 0);
+        const character = position.line === 0 ? 0 : position.character;
+        const line = Math.min(
+            example.line + codeLine,
+            file.getLineStarts().length - 1
+        );
+        const lineText = file.text
+            .substring(
+                file.getLineStarts()[line],
+                file.getLineEndOfPosition(file.getLineStarts()[line])
+            )
+            .replace(/\s+$/, "");
+        const prefix = example.inComment
+            ? commentPrefix.exec(lineText)![0].length
+            : 0;
+        const column = Math.min(prefix + character, lineText.length);
+
+        return {
+            ...diagnostic,
+            file,
+            start: file.getLineStarts()[line] + column,
+            length: Math.min(
+                diagnostic.length ?? 0,
+                Math.max(lineText.length - column, 0)
+            ),
+        };
+    }
+
+    private getFile(fileName: string) {
+        let file = this.files.get(fileName);
+        if (!file) {
+            file = ts.createSourceFile(
+                fileName,
+                readFile(fileName),
+                ts.ScriptTarget.Latest
+            );
+            this.files.set(fileName, file);
+        }
+        return file;
+    }
+}
+
+function createHost(
+    options: ts.CompilerOptions,
+    files: ReadonlyMap<string, string>
+): ts.CompilerHost {
+    const host = ts.createCompilerHost(options);
+    const { getSourceFile, fileExists, readFile } = host;
+    return {
+        ...host,
+        getSourceFile(fileName, languageVersion, ...rest) {
+            const text = files.get(normalizePath(fileName));
+            return text === undefined
+                ? getSourceFile.call(host, fileName, languageVersion, ...rest)
+                : ts.createSourceFile(fileName, text, languageVersion);
+        },
+        fileExists(fileName) {
+            return (
+                files.has(normalizePath(fileName)) ||
+                fileExists.call(host, fileName)
+            );
+        },
+        readFile(fileName) {
+            return (
+                files.get(normalizePath(fileName)) ??
+                readFile.call(host, fileName)
+            );
+        },
+    };
+}
+
+function getCompilerOptions(options: ExampleOptions): ts.CompilerOptions {
+    const paths: ts.MapLike<string[]> = {
+        ...options.compilerOptions.paths,
+    };
+    // Examples usually import the package they document by its name.
+    const packageName = (() => {
+        const manifest = Path.join(
+            Path.dirname(options.entryPoints[0]?.fileName ?? "."),
+            "package.json"
+        );
+        try {
+            return JSON.parse(readFile(manifest)).name as string | undefined;
+        } catch {
+            return undefined;
+        }
+    })();
+    if (packageName && options.entryPoints.length) {
+        paths[packageName] = [options.entryPoints[0].fileName];
+        for (const entry of options.entryPoints) {
+            paths[`${packageName}/${entry.displayName}`] = [entry.fileName];
+        }
+    }
+
+    return {
+        ...options.compilerOptions,
+        paths,
+        noEmit: true,
+        composite: false,
+        incremental: false,
+        declaration: false,
+        noUnusedLocals: false,
+        noUnusedParameters: false,
+    };
+}
+
+/**
+ * Create a function requiring modules relative to the given file. `createRequire` was added
+ * in Node 12.2, older versions resolve the module with the paths option of `require.resolve`.
+ */
+function createFileRequire(fileName: string): (request: string) => unknown {
+    if (NodeModule.createRequire) {
+        return NodeModule.createRequire(fileName);
+    }
+    return (request) =>
+        require(require.resolve(request, { paths: [Path.dirname(fileName)] }));
+}
+
+/**
+ * Runs the examples containing `// =>` assertions, the result of the expression before
+ * each assertion must be equal to the value after it.
+ */
+class ExampleRunner {
+    private program: ts.Program;
+    private modules = new Map<string, { exports: unknown }>();
+    private context = vm.createContext({
+        console,
+        process,
+        setTimeout,
+        clearTimeout,
+    });
+
+    constructor(
+        rootNames: readonly string[],
+        private options: ts.CompilerOptions,
+        files: ReadonlyMap<string, string>,
+        private logger: Logger
+    ) {
+        this.options = {
+            ...options,
+            noEmit: false,
+            module: ts.ModuleKind.CommonJS,
+            outDir: undefined,
+            outFile: undefined,
+            emitDeclarationOnly: false,
+            sourceMap: false,
+            inlineSourceMap: false,
+            importHelpers: false,
+            noEmitOnError: false,
+        };
+        this.program = ts.createProgram(
+            rootNames,
+            this.options,
+            createHost(this.options, files)
+        );
+    }
+
+    run(example: Example, fileName: string) {
+        const expect = (
+            actual: unknown,
+            expectedSource: string,
+            line: number
+        ) => {
+            let expected: unknown;
+            try {
+                expected = vm.runInContext(`(${expectedSource})`, this.context);
+            } catch {
+                expected = expectedSource;
+            }
+            if (
+                !isDeepStrictEqual(actual, expected) &&
+                inspect(actual) !== inspect(expected)
+            ) {
+                this.logger.error(
+                    `${getLocation(example, line)}: Example returned ${inspect(
+                        actual
+                    )}, expected ${expectedSource}.`
+                );
+            }
+        };
+
+        try {
+            this.require(fileName, { __expect: expect });
+        } catch (error) {
+            this.logger.error(
+                `${getLocation(example, 0)}: Example threw ${String(error)}`
+            );
+        }
+    }
+
+    private require(fileName: string, globals: Record<string, unknown> = {}) {
+        const key = normalizePath(fileName);
+        const cached = this.modules.get(key);
+        if (cached) {
+            return cached.exports;
+        }
+
+        const sourceFile = this.program.getSourceFile(fileName);
+        let js = "";
+        this.program.emit(sourceFile, (name, text) => {
+            if (/\.[cm]?js$/.test(name)) {
+                js = text;
+            }
+        });
+
+        const module = { exports: {} };
+        this.modules.set(key, module);
+        const nodeRequire = createFileRequire(fileName);
+        const require = (request: string) => {
+            const resolved = ts.resolveModuleName(
+                request,
+                fileName,
+                this.options,
+                ts.sys
+            ).resolvedModule;
+            if (
+                resolved &&
+                !resolved.isExternalLibraryImport &&
+                /\.tsx?$/.test(resolved.resolvedFileName) &&
+                !resolved.resolvedFileName.endsWith(".d.ts")
+            ) {
+                return this.require(resolved.resolvedFileName);
+            }
+            return nodeRequire(request);
+        };
+
+        const wrapper = vm.runInContext(
+            `(function (exports, require, module, __filename, __dirname, ${Object.keys(
+                globals
+            ).join(", ")}) {${js}\n})`,
+            this.context,
+            { filename: fileName }
+        );
+        wrapper(
+            module.exports,
+            require,
+            module,
+            fileName,
+            Path.dirname(fileName),
+            ...Object.values(globals)
+        );
+        return module.exports;
+    }
+}
+
+/**
+ * Rewrite lines like `add(1, 2); // => 3` into calls to `__expect` which check the result.
+ * Lines are not added or removed, so line numbers are kept.
+ */
+function addAssertions(code: string) {
+    return code
+        .split("\n")
+        .map((line, index) => {
+            const match = assertion.exec(line);
+            return match
+                ? `${match[1]}__expect(${match[2]}, ${JSON.stringify(
+                      match[3]
+                  )}, ${index});`
+                : line;
+        })
+        .join("\n");
+}
+
+/**
+ * Type check the examples of the project against its entry points and report errors to
+ * the logger. If `run` is set, examples with `// =>` assertions are also executed.
+ *
+ * @param project  The converted project.
+ * @param logger  The logger errors are reported to.
+ * @param options  How the examples should be compiled.
+ */
+export function checkExamples(
+    project: ProjectReflection,
+    logger: Logger,
+    options: ExampleOptions
+) {
+    const examples = getExamples(project, options);
+    if (!examples.length) {
+        return;
+    }
+    logger.verbose(`Checking ${examples.length} examples`);
+
+    const counts = new Map<string, number>();
+    const files = new Map<string, string>();
+    const named = examples.map((example) => {
+        const count = (counts.get(example.fileName) ?? 0) + 1;
+        counts.set(example.fileName, count);
+        const fileName = normalizePath(
+            `${example.fileName}.example-${count}.ts`
+        );
+        files.set(fileName, getExampleSource(example));
+        return { example, fileName };
+    });
+
+    const compilerOptions = getCompilerOptions(options);
+    const program = ts.createProgram(
+        [...options.rootNames, ...files.keys()],
+        compilerOptions,
+        createHost(compilerOptions, files)
+    );
+
+    const mapper = new DiagnosticMapper();
+    const failed = new Set<string>();
+    for (const { example, fileName } of named) {
+        const sourceFile = program.getSourceFile(fileName);
+        const diagnostics = [
+            ...program.getSyntacticDiagnostics(sourceFile),
+            ...program.getSemanticDiagnostics(sourceFile),
+        ];
+        if (diagnostics.length) {
+            failed.add(fileName);
+        }
+        logger.diagnostics(
+            diagnostics.map((diagnostic) => mapper.map(example, diagnostic))
+        );
+    }
+
+    const runnable = named.filter(
+        ({ example, fileName }) =>
+            !failed.has(fileName) &&
+            example.code.split("\n").some((line) => assertion.test(line))
+    );
+    if (options.run && runnable.length) {
+        const runFiles = new Map(files);
+        for (const { example, fileName } of runnable) {
+            runFiles.set(
+                fileName,
+                getExampleSource(example, addAssertions(example.code))
+            );
+        }
+        const runner = new ExampleRunner(
+            runnable.map(({ fileName }) => fileName),
+            compilerOptions,
+            runFiles,
+            logger
+        );
+        for (const { example, fileName } of runnable) {
+            runner.run(example, fileName);
+        }
+    }
+}
@@ -0,0 +1,238 @@
+import * as ts from "typescript";
+import { relative } from "path";
+
+import {
+    DeclarationReflection,
+    ParameterReflection,
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+    SignatureReflection,
+    TypeParameterReflection,
+} from "../models/reflections/index";
+import {
+    ArrayType,
+    ConditionalType,
+    IndexedAccessType,
+    IntersectionType,
+    MappedType,
+    NamedTupleMember,
+    OptionalType,
+    PredicateType,
+    QueryType,
+    ReferenceType,
+    RestType,
+    TemplateLiteralType,
+    TupleType,
+    Type,
+    TypeOperatorType,
+    TypeParameterType,
+    UnionType,
+} from "../models/types/index";
+import type { Logger } from "../utils/loggers";
+import { normalizePath } from "../utils/fs";
+
+/**
+ * Get the types directly contained in the given type. Reflection types are not descended into
+ * as the reflections of their declaration are part of the project.
+ */
+function getChildTypes(type: Type): (Type | undefined)[] {
+    if (
+        type instanceof ArrayType ||
+        type instanceof OptionalType ||
+        type instanceof RestType
+    ) {
+        return [type.elementType];
+    }
+    if (type instanceof ConditionalType) {
+        return [
+            type.checkType,
+            type.extendsType,
+            type.trueType,
+            type.falseType,
+        ];
+    }
+    if (type instanceof IndexedAccessType) {
+        return [type.objectType, type.indexType];
+    }
+    if (type instanceof IntersectionType || type instanceof UnionType) {
+        return type.types;
+    }
+    if (type instanceof MappedType) {
+        return [type.parameterType, type.templateType, type.nameType];
+    }
+    if (type instanceof NamedTupleMember) {
+        return [type.element];
+    }
+    if (type instanceof PredicateType) {
+        return [type.targetType];
+    }
+    if (type instanceof QueryType) {
+        return [type.queryType];
+    }
+    if (type instanceof ReferenceType) {
+        return type.typeArguments ?? [];
+    }
+    if (type instanceof TemplateLiteralType) {
+        return type.tail.map(([type]) => type);
+    }
+    if (type instanceof TupleType) {
+        return type.elements;
+    }
+    if (type instanceof TypeOperatorType) {
+        return [type.target];
+    }
+    if (type instanceof TypeParameterType) {
+        return [type.constraint, type.default];
+    }
+    return [];
+}
+
+function forEachReferenceType(
+    type: Type | undefined,
+    callback: (type: ReferenceType) => void
+) {
+    if (!type) {
+        return;
+    }
+    if (type instanceof ReferenceType) {
+        callback(type);
+    }
+    for (const child of getChildTypes(type)) {
+        forEachReferenceType(child, callback);
+    }
+}
+
+/**
+ * Get the types written in the declaration of the given reflection. Types which TypeDoc
+ * creates to link reflections, such as `inheritedFrom`, are not included.
+ */
+function getDeclaredTypes(reflection: Reflection): (Type | undefined)[] {
+    if (reflection instanceof DeclarationReflection) {
+        return [
+            reflection.type,
+            ...(reflection.extendedTypes ?? []),
+            ...(reflection.implementedTypes ?? []),
+        ];
+    }
+    if (
+        reflection instanceof SignatureReflection ||
+        reflection instanceof ParameterReflection
+    ) {
+        return [reflection.type];
+    }
+    if (reflection instanceof TypeParameterReflection) {
+        return [reflection.type, reflection.default];
+    }
+    return [];
+}
+
+/**
+ * Get the declaration which exposes the given reflection in the documentation, skipping
+ * signatures, parameters and type literals.
+ */
+function getExposingReflection(reflection: Reflection): Reflection {
+    let current = reflection;
+    while (
+        current.parent &&
+        !(
+            current instanceof DeclarationReflection &&
+            !current.kindOf(ReflectionKind.TypeLiteral)
+        )
+    ) {
+        current = current.parent;
+    }
+    return current;
+}
+
+function formatPosition(fileName: string, line: number) {
+    return `${normalizePath(relative(process.cwd(), fileName))}:${line}`;
+}
+
+function getDeclarationPosition(declaration: ts.Declaration) {
+    const sourceFile = declaration.getSourceFile();
+    const { line } = ts.getLineAndCharacterOfPosition(
+        sourceFile,
+        declaration.getStart()
+    );
+    return formatPosition(sourceFile.fileName, line + 1);
+}
+
+/**
+ * Declarations from the default library and installed packages are not expected to be
+ * documented by the project.
+ */
+function isExternalDeclaration(declaration: ts.Declaration) {
+    const sourceFile = declaration.getSourceFile();
+    return (
+        sourceFile.hasNoDefaultLib ||
+        /[\\/]node_modules[\\/]/.test(sourceFile.fileName)
+    );
+}
+
+/**
+ * Warn about every type which is referenced by a documented reflection, but is not
+ * exported from any entry point and is therefore not included in the documentation.
+ *
+ * @param project  The converted project.
+ * @param logger  The logger warnings are reported to.
+ * @param intentionallyNotExported  The names of types which should not be reported.
+ */
+export function validateExports(
+    project: ProjectReflection,
+    logger: Logger,
+    intentionallyNotExported: readonly string[]
+) {
+    const allowed = new Set(intentionallyNotExported);
+    const usedAllowed = new Set<string>();
+    const warned = new Set<ts.Symbol>();
+
+    for (const reflection of Object.values(project.reflections)) {
+        const exposing = getExposingReflection(reflection);
+        if (exposing.flags.isExternal) {
+            continue;
+        }
+
+        for (const type of getDeclaredTypes(reflection)) {
+            forEachReferenceType(type, (reference) => {
+                const symbol = reference.getSymbol();
+                if (!symbol || reference.reflection || warned.has(symbol)) {
+                    return;
+                }
+                if (allowed.has(symbol.name)) {
+                    usedAllowed.add(symbol.name);
+                    return;
+                }
+
+                const declaration = symbol.getDeclarations()?.[0];
+                if (!declaration || isExternalDeclaration(declaration)) {
+                    return;
+                }
+
+                warned.add(symbol);
+                const source = exposing.sources?.[0];
+                const location = source?.file
+                    ? ` (${formatPosition(
+                          source.file.fullFileName,
+                          source.line
+                      )})`
+                    : "";
+                logger.warn(
+                    `${symbol.name}, defined at ${getDeclarationPosition(
+                        declaration
+                    )}, is referenced by ${exposing.getFullName()}${location} but is not exported from any entry point.`
+                );
+            });
+        }
+    }
+
+    const unused = intentionallyNotExported.filter(
+        (name) => !usedAllowed.has(name)
+    );
+    if (unused.length) {
+        logger.warn(
+            "The following names were marked as intentionally not exported, but were not referenced by any documented type or were exported:\n\t" +
+                unused.join("\n\t")
+        );
+    }
+}
@@ -0,0 +1,151 @@
+import { relative } from "path";
+
+import {
+    ProjectReflection,
+    Reflection,
+    ReflectionKind,
+    resolveLinkTarget,
+} from "../models/reflections/index";
+import type { CommentDisplayPart } from "../models/comments/index";
+import type { SourceReference } from "../models/sources/index";
+import { filterMap, flatMap } from "../utils/array";
+import { normalizePath } from "../utils/fs";
+import type { Logger } from "../utils/loggers";
+
+/**
+ * How symbol links which cannot be resolved are reported when converting.
+ */
+export enum LinkValidation {
+    Off,
+    Warn,
+    Error,
+}
+
+const urlPrefix = /^(http|ftp)s?:\/\//;
+
+/**
+ * A symbol link in a comment which does not resolve to a reflection.
+ */
+export interface BrokenLink {
+    /** The reflection whose comment contains the link. */
+    reflection: Reflection;
+    /** Where the reflection is declared, not set if sources are disabled. */
+    source?: SourceReference;
+    /** The link as written in the comment, for example `[[Foo]]`. */
+    link: string;
+    /** The name which could not be resolved. */
+    target: string;
+}
+
+/**
+ * Get the links in the given comment parts and the names they link to.
+ */
+function getLinks(
+    parts: CommentDisplayPart[]
+): { link: string; target: string }[] {
+    return filterMap(parts, (part) =>
+        part.kind === "inline-tag" && part.target
+            ? { link: part.original, target: part.target }
+            : undefined
+    );
+}
+
+function getSource(reflection: Reflection) {
+    for (
+        let current: Reflection | undefined = reflection;
+        current;
+        current = current.parent
+    ) {
+        if (current.sources?.length) {
+            return current.sources[0];
+        }
+    }
+}
+
+/**
+ * Find all symbol links in the comments of the project's reflections which do not resolve
+ * to a reflection. Links are resolved like they are when rendering, by searching for the
+ * target name starting at the reflection with the comment and moving up its parents.
+ *
+ * @param project  The converted project.
+ */
+export function getBrokenLinks(project: ProjectReflection): BrokenLink[] {
+    const broken: BrokenLink[] = [];
+
+    for (const reflection of Object.values(project.reflections)) {
+        const comment = reflection.comment;
+        if (!comment) {
+            continue;
+        }
+
+        const parts = [
+            comment.shortTextParts,
+            comment.textParts,
+            comment.returnsParts,
+            ...comment.tags.map((tag) => tag.textParts),
+            ...(comment.see ?? []).map((see) => see.textParts),
+            ...(comment.throws ?? []).map((throws) => throws.textParts),
+        ];
+        // Thrown types are not checked as they are often built in errors, like RangeError.
+        const seeLinks = filterMap(comment.see ?? [], ({ target }) =>
+            target ? { link: `@see ${target}`, target } : undefined
+        );
+        for (const { link, target } of [
+            ...flatMap(parts, getLinks),
+            ...seeLinks,
+        ]) {
+            if (
+                !urlPrefix.test(target) &&
+                !resolveLinkTarget(reflection, target).length
+            ) {
+                broken.push({
+                    reflection,
+                    source: getSource(reflection),
+                    link,
+                    target,
+                });
+            }
+        }
+    }
+
+    return broken;
+}
+
+/**
+ * Report every symbol link which cannot be resolved to the logger.
+ *
+ * @param project  The converted project.
+ * @param logger  The logger broken links are reported to.
+ * @param mode  Whether broken links are reported as warnings or errors.
+ * @returns The broken links, empty if `mode` is [[LinkValidation.Off]].
+ */
+export function validateLinks(
+    project: ProjectReflection,
+    logger: Logger,
+    mode: LinkValidation
+): BrokenLink[] {
+    if (mode === LinkValidation.Off) {
+        return [];
+    }
+
+    const broken = getBrokenLinks(project);
+    for (const { reflection, source, link, target } of broken) {
+        const location = source?.file
+            ? ` (${normalizePath(
+                  relative(process.cwd(), source.file.fullFileName)
+              )}:${source.line})`
+            : "";
+        // Signatures share the name of their declaration, which is what users will recognize.
+        const owner =
+            reflection.kindOf(ReflectionKind.SomeSignature) && reflection.parent
+                ? reflection.parent
+                : reflection;
+        const message = `Failed to resolve ${target} in ${link}, used in the comment of ${owner.getFullName()}${location}.`;
+        if (mode === LinkValidation.Error) {
+            logger.error(message);
+        } else {
+            logger.warn(message);
+        }
+    }
+    return broken;
+}
@@ -0,0 +1,103 @@
+/**
+ * Entry point of the worker threads started by [[Application.convertInWorkers]].
+ * Each worker converts the packages it is sent one at a time and responds with
+ * the serialized project for each of them.
+ */
+import { relative } from "path";
+import { parentPort, workerData } from "worker_threads";
+
+import { Application } from "./application";
+import type { ProjectReflection } from "./models/index";
+import { resetReflectionID } from "./models/reflections/abstract";
+import type { JSONOutput } from "./serialization";
+import type { TypeDocOptions } from "./utils/options/declaration";
+import type { LogLevel } from "./utils/loggers";
+import { normalizePath } from "./utils/fs";
+
+/**
+ * The data each worker is started with.
+ */
+export interface WorkerData {
+    options: Partial<TypeDocOptions>;
+    /**
+     * The directory source file names are made relative to. Each worker only sees the files
+     * of its own packages, so this is determined by the main thread.
+     */
+    basePath: string;
+}
+
+/**
+ * A package to convert, sent from the main thread. `undefined` is sent once there
+ * are no packages left, telling the worker to exit.
+ */
+export interface WorkerRequest {
+    /** The index of the package in the list of packages being converted. */
+    index: number;
+    displayName: string;
+    packagePath: string;
+}
+
+export type WorkerResponse =
+    | { type: "log"; message: string; level: LogLevel }
+    | {
+          type: "done";
+          index: number;
+          /** Not set if the package could not be converted. */
+          project?: JSONOutput.ProjectReflection;
+      };
+
+function respond(response: WorkerResponse) {
+    parentPort!.postMessage(response);
+}
+
+/**
+ * Make the file names of all sources in the project relative to the given path rather than
+ * to the common directory of the files in the project.
+ */
+function rebaseSources(project: ProjectReflection, basePath: string) {
+    for (const reflection of Object.values(project.reflections)) {
+        for (const source of reflection.sources ?? []) {
+            if (source.file) {
+                source.fileName = normalizePath(
+                    relative(basePath, source.file.fullFileName)
+                );
+            }
+        }
+    }
+}
+
+function convert(
+    { options, basePath }: WorkerData,
+    { index, displayName, packagePath }: WorkerRequest
+) {
+    // Ids only depend on the package, the main thread shifts them when merging.
+    resetReflectionID();
+
+    const app = new Application();
+    app.bootstrap({
+        ...options,
+        logger: (message: string, level: LogLevel) =>
+            respond({ type: "log", message, level }),
+        name: displayName,
+        packages: [packagePath],
+        workers: 0,
+    });
+
+    const project = app.logger.hasErrors() ? undefined : app.convert();
+    if (project) {
+        rebaseSources(project, basePath);
+    }
+    respond({
+        type: "done",
+        index,
+        project: project && app.serializer.projectToObject(project),
+    });
+}
+
+parentPort!.on("message", (request: WorkerRequest | undefined) => {
+    if (request) {
+        convert(workerData, request);
+    } else {
+        parentPort!.close();
+    }
+});
@@ -0,0 +1,198 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    ReflectionKind,
+} from "../lib/models";
+import { diffProjects } from "../lib/diff/diff";
+import { getDiffJson, getDiffMarkdown, getDiffText } from "../lib/diff/format";
+
+describe("API diff", () => {
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    // Revived from JSON, so that reflections with the same name have different ids.
+    function convert(name: string): ProjectReflection {
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths([
+                join(__dirname, "converter2", "api-diff", name),
+            ])
+        );
+        ok(project, "Failed to convert");
+        return app.deserializer.reviveProject(
+            JSON.parse(JSON.stringify(app.serializer.toObject(project)))
+        );
+    }
+
+    let oldProject: ProjectReflection;
+    let newProject: ProjectReflection;
+    before(() => {
+        oldProject = convert("old.ts");
+        newProject = convert("new.ts");
+    });
+
+    it("Reports no changes for the same project", () => {
+        equal(diffProjects(oldProject, oldProject).changes, []);
+    });
+
+    it("Reports added, removed and changed declarations", () => {
+        const diff = getDiffJson(diffProjects(oldProject, newProject));
+        equal(diff.changes, [
+            {
+                change: "removed",
+                target: "declaration",
+                name: "removed",
+                oldValue: "Function",
+            },
+            {
+                change: "added",
+                target: "declaration",
+                name: "Added",
+                newValue: "Class",
+            },
+            {
+                change: "changed",
+                target: "typeParameter",
+                name: "Store",
+                location: "type parameter T",
+                oldValue: "T",
+                newValue: "T extends object",
+            },
+            {
+                change: "changed",
+                target: "typeParameter",
+                name: "Store.constructor",
+                location: "constructor, type parameter T",
+                oldValue: "T",
+                newValue: "T extends object",
+            },
+            {
+                change: "changed",
+                target: "optional",
+                name: "Store.limit",
+                oldValue: "true",
+                newValue: "false",
+            },
+            {
+                change: "added",
+                target: "declaration",
+                name: "Store.clear",
+                newValue: "Method",
+            },
+            {
+                change: "changed",
+                target: "type",
+                name: "version",
+                oldValue: '"1.0.0"',
+                newValue: "number",
+            },
+            {
+                change: "added",
+                target: "parameter",
+                name: "format",
+                location: "parameter digits",
+                newValue: "number",
+            },
+            {
+                change: "changed",
+                target: "parameterType",
+                name: "parse",
+                location: "parameter text",
+                oldValue: "string",
+                newValue: "string | number",
+            },
+            {
+                change: "changed",
+                target: "optional",
+                name: "parse",
+                location: "parameter radix",
+                oldValue: "false",
+                newValue: "true",
+            },
+        ]);
+    });
+
+    it("Keys merged declarations by their kind", () => {
+        function createProject(kinds: ReflectionKind[]) {
+            const project = new ProjectReflection("merged");
+            project.children = kinds.map(
+                (kind) => new DeclarationReflection("merged", kind, project)
+            );
+            return project;
+        }
+        equal(
+            diffProjects(
+                createProject([
+                    ReflectionKind.Function,
+                    ReflectionKind.Namespace,
+                ]),
+                createProject([
+                    ReflectionKind.Namespace,
+                    ReflectionKind.Function,
+                ])
+            ).changes,
+            []
+        );
+        equal(
+            getDiffJson(
+                diffProjects(
+                    createProject([ReflectionKind.Function]),
+                    createProject([
+                        ReflectionKind.Namespace,
+                        ReflectionKind.Function,
+                    ])
+                )
+            ).changes,
+            [
+                {
+                    change: "added",
+                    target: "declaration",
+                    name: "merged (Namespace)",
+                    newValue: "Namespace",
+                },
+            ]
+        );
+    });
+
+    it("Formats the changes as text and Markdown", () => {
+        const diff = diffProjects(oldProject, newProject);
+        diff.changes = diff.changes.filter((change) =>
+            ["removed", "parse", "format"].includes(change.name)
+        );
+
+        equal(
+            getDiffText(diff),
+            [
+                "- Removed function removed",
+                "+ Added parameter digits of type number to format",
+                "~ Type of parameter text of parse changed from string to string | number",
+                "~ Parameter radix of parse is now optional",
+            ].join("\n")
+        );
+        equal(
+            getDiffMarkdown(diff),
+            [
+                "### Added",
+                "",
+                "- Added parameter digits of type `number` to `format`",
+                "",
+                "### Changed",
+                "",
+                "- Type of parameter text of `parse` changed from `string` to `string | number`",
+                "- Parameter radix of `parse` is now optional",
+                "",
+                "### Removed",
+                "",
+                "- Removed function `removed`",
+                "",
+            ].join("\n")
+        );
+    });
+});
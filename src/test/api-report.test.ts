@@ -0,0 +1,100 @@
+import { join } from "path";
+import * as FS from "fs";
+import { tmpdir } from "os";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import type { ProjectReflection } from "../lib/models";
+import { getApiReport } from "../lib/validation/api-report";
+
+describe("API report", () => {
+    const base = join(__dirname, "converter2");
+    const outDir = FS.mkdtempSync(join(tmpdir(), "typedoc-api-report-"));
+    const out = join(outDir, "api.txt");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "api-report",
+        excludeExternals: true,
+        disableSources: true,
+        tsconfig: join(base, "tsconfig.json"),
+        apiReport: out,
+        logger: "none",
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "api-report", "index.ts")])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    after(() => {
+        if (FS.existsSync(out)) {
+            FS.unlinkSync(out);
+        }
+        FS.rmdirSync(outDir);
+    });
+
+    afterEach(() => {
+        app.options.setValue("checkApiReport", false);
+    });
+
+    it("Lists exported declarations with their members", () => {
+        equal(getApiReport(project).split("\n"), [
+            "abstract class Base {",
+            "    new (): Base;",
+            "    protected id: number;",
+            "    abstract run(): void;",
+            "}",
+            "type Handler<T> = ((event: T) => boolean);",
+            "enum Level {",
+            "    High = 2,",
+            "    Low = 1,",
+            "}",
+            "type Mapper = (<T extends object>(value: T, count?: number) => T);",
+            "interface Options {",
+            "    callback(value: string): void;",
+            "    readonly count?: number;",
+            "    name: string;",
+            "}",
+            "export { Level as Priority };",
+            "class Worker<T extends object> extends Base implements Options {",
+            "    callback(value: string): void;",
+            "    new <T extends object>(options: T): Worker<T>;",
+            "    static instances: number;",
+            "    name: string;",
+            "    readonly options: T;",
+            "    run(): void;",
+            "    get size(): number;",
+            "}",
+            "function create(name: string): Worker<Options>;",
+            "const defaults: { count: number; name: string };",
+            "const handlers: { map<T extends object>(value: T, count?: number): T };",
+            "namespace utils {",
+            "    let enabled: boolean;",
+            "}",
+            "",
+        ]);
+    });
+
+    it("Fails the check if the report is missing", async () => {
+        app.options.setValue("checkApiReport", true);
+        equal(await app.generateApiReport(project), false);
+    });
+
+    it("Writes the report and passes the check if it is up to date", async () => {
+        equal(await app.generateApiReport(project), true);
+        equal(FS.readFileSync(out, "utf-8"), getApiReport(project));
+
+        app.options.setValue("checkApiReport", true);
+        equal(await app.generateApiReport(project), true);
+    });
+
+    it("Fails the check if the report is out of date", async () => {
+        FS.writeFileSync(out, "class Worker {}\n");
+        app.options.setValue("checkApiReport", true);
+        equal(await app.generateApiReport(project), false);
+    });
+});
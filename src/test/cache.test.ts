@@ -0,0 +1,83 @@
+import {
+    Application,
+    resetReflectionID,
+    normalizePath,
+    ProjectReflection,
+} from "..";
+import * as FS from "fs";
+import * as Path from "path";
+import { tmpdir } from "os";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Converter } from "../lib/converter";
+import { TSConfigReader } from "../lib/utils/options";
+
+describe("Conversion cache", function () {
+    const base = Path.join(__dirname, "converter");
+    const cacheDir = FS.mkdtempSync(Path.join(tmpdir(), "typedoc-cache-"));
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        logger: "none",
+        name: "typedoc",
+        excludeExternals: true,
+        disableSources: true,
+        tsconfig: Path.join(base, "tsconfig.json"),
+        externalPattern: ["**/node_modules/**"],
+        cacheDir,
+    });
+
+    // Reflections revived from the cache are not created by the converter.
+    let created = 0;
+    app.converter.on(Converter.EVENT_CREATE_DECLARATION, () => created++);
+
+    function clearCacheDir() {
+        for (const file of FS.readdirSync(cacheDir)) {
+            FS.unlinkSync(Path.join(cacheDir, file));
+        }
+    }
+
+    after(() => {
+        clearCacheDir();
+        FS.rmdirSync(cacheDir);
+    });
+
+    function convert(path: string) {
+        created = 0;
+        resetReflectionID();
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths([path])
+        );
+        ok(project instanceof ProjectReflection, "No reflection returned");
+        return project;
+    }
+
+    function toSpecs(project: ProjectReflection) {
+        const data = JSON.stringify(app.serializer.toObject(project));
+        return JSON.parse(data.split(normalizePath(base)).join("%BASE%"));
+    }
+
+    FS.readdirSync(base).forEach(function (directory) {
+        const path = Path.join(base, directory);
+        const specsFile = Path.join(path, "specs.json");
+        if (!FS.lstatSync(path).isDirectory() || !FS.existsSync(specsFile)) {
+            return;
+        }
+
+        it(`Converts ${directory} from the cache`, function () {
+            clearCacheDir();
+
+            convert(path);
+            ok(created > 0, "Did not convert the fixtures");
+            const files = FS.readdirSync(cacheDir);
+            ok(files.length > 0, "Did not write to the cache");
+
+            const cached = convert(path);
+            equal(created, 0, "Did not use the cache");
+            equal(FS.readdirSync(cacheDir), files);
+            equal(
+                toSpecs(cached),
+                JSON.parse(FS.readFileSync(specsFile, "utf-8"))
+            );
+        });
+    });
+});
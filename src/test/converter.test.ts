@@ -97,6 +97,20 @@ describe("Converter", function () {
 
                     equal(JSON.parse(data), specs);
                 });
+
+                it(`[${file}] survives a round trip through JSON`, function () {
+                    const serialized = JSON.parse(
+                        JSON.stringify(app.serializer.toObject(result))
+                    );
+                    const revived = app.deserializer.reviveProject(serialized);
+
+                    equal(
+                        JSON.parse(
+                            JSON.stringify(app.serializer.toObject(revived))
+                        ),
+                        serialized
+                    );
+                });
             }
         });
     });
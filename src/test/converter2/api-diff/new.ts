@@ -0,0 +1,28 @@
+export function unchanged(value: string): string {
+    return value;
+}
+
+export function parse(text: string | number, radix = 10): number {
+    return parseInt(String(text), radix);
+}
+
+export function format(value: number, digits?: number): string {
+    return value.toFixed(digits);
+}
+
+export class Store<T extends object> {
+    items: T[] = [];
+    limit!: number;
+
+    add(item: T) {
+        this.items.push(item);
+    }
+
+    clear() {
+        this.items = [];
+    }
+}
+
+export class Added {}
+
+export const version: number = 2;
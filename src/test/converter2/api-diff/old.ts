@@ -0,0 +1,24 @@
+export function unchanged(value: string): string {
+    return value;
+}
+
+export function parse(text: string, radix: number): number {
+    return parseInt(text, radix);
+}
+
+export function format(value: number): string {
+    return value.toString();
+}
+
+export function removed() {}
+
+export class Store<T> {
+    items: T[] = [];
+    limit?: number;
+
+    add(item: T) {
+        this.items.push(item);
+    }
+}
+
+export const version = "1.0.0";
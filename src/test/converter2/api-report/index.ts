@@ -0,0 +1,60 @@
+export interface Options {
+    name: string;
+    readonly count?: number;
+    callback(value: string): void;
+}
+
+export abstract class Base {
+    protected id = 1;
+    private secret = "";
+
+    abstract run(): void;
+}
+
+export class Worker<T extends object> extends Base implements Options {
+    static instances = 0;
+    name = "";
+
+    constructor(readonly options: T) {
+        super();
+    }
+
+    get size(): number {
+        return 0;
+    }
+
+    run() {}
+
+    callback(value: string) {}
+}
+
+export enum Level {
+    Low = 1,
+    High = 2,
+}
+
+export type Handler<T> = (event: T) => boolean;
+
+export const defaults: { name: string; count: number } = {
+    name: "",
+    count: 0,
+};
+
+export function create(name: string): Worker<Options>;
+export function create(name: string, count?: number): Worker<Options> {
+    return new Worker({ name, count, callback() {} });
+}
+
+export namespace utils {
+    export let enabled = true;
+}
+
+export { Level as Priority };
+
+export type Mapper = <T extends object>(value: T, count?: number) => T;
+
+export const handlers = {
+    map<T extends object>(value: T, count = 1) {
+        return value;
+    },
+};
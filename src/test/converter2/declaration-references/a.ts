@@ -0,0 +1,16 @@
+export interface Options {
+    a: string;
+}
+
+export class Foo {
+    static bar = 1;
+    bar = 2;
+
+    constructor(public x: number) {}
+
+    overloaded(x: string): string;
+    overloaded(x: number): number;
+    overloaded(x: string | number) {
+        return x;
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * @deprecated Use [[Current]] instead.
+ */
+export class Legacy {
+    /**
+     * @deprecated
+     */
+    legacyMethod() {}
+}
+
+export class Current {
+    /**
+     * @deprecated Pass a number instead.
+     */
+    overloaded(value: string): void;
+    overloaded(value: number): void;
+    overloaded() {}
+}
+
+/**
+ * @deprecated Use [[Current]] instead.
+ */
+export function legacy(value: string): void;
+/**
+ * @deprecated Use [[Current]] instead.
+ */
+export function legacy(value: number): void;
+export function legacy() {}
+
+/** @deprecated */
+export const legacyValue = 1;
+
+export const currentValue = 2;
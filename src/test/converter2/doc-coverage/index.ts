@@ -0,0 +1,21 @@
+/**
+ * Adds two numbers.
+ * @param a The first number.
+ * @returns The sum.
+ */
+export function add(a: number, b: number): number {
+    return a + b;
+}
+
+export function log(message: string): void {
+    console.log(message);
+}
+
+/** A documented class. */
+export class Documented {
+    /** A documented property. */
+    documented = 1;
+    undocumented = 2;
+}
+
+export interface Undocumented {}
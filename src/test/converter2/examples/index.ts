@@ -0,0 +1,28 @@
+/**
+ * Adds two numbers.
+ *
+ * @example
+ * ```ts
+ * add(1, 2); // => 3
+ * ```
+ *
+ * @example
+ * ```ts
+ * const result: string = add(1, 2);
+ * ```
+ */
+export function add(a: number, b: number) {
+    return a + b;
+}
+
+/**
+ * Doubles a number.
+ *
+ * @example
+ * ```ts
+ * double(2); // => 5
+ * ```
+ */
+export function double(x: number) {
+    return x * 2;
+}
@@ -0,0 +1,17 @@
+interface Hidden {
+    value: string;
+}
+
+interface Allowed {
+    value: number;
+}
+
+export interface Exported {
+    hidden: Hidden;
+}
+
+export function expose(value: Hidden): Promise<Allowed[]> {
+    return Promise.resolve([{ value: value.value.length }]);
+}
+
+export type Wrapped = { inner: Hidden[] };
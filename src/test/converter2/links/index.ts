@@ -0,0 +1,19 @@
+/**
+ * Links to [[Target]], {@link Target.value} and [[Missing]].
+ */
+export function source() {
+    return Target.value;
+}
+
+/**
+ * See {@link https://typedoc.org} and {@link Other the other target}, `[[Code]]` is not a link.
+ *
+ * @returns [[`source`]]
+ */
+export function other() {
+    return source();
+}
+
+export class Target {
+    static value = 1;
+}
@@ -0,0 +1,3 @@
+export class Base {
+    value = 1;
+}
@@ -0,0 +1,7 @@
+import { Lib } from "../lib";
+
+export { Lib };
+
+export function createLib(): Lib {
+    return new Lib();
+}
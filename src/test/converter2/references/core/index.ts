@@ -0,0 +1,3 @@
+export class Core {
+    value = 1;
+}
@@ -0,0 +1,3 @@
+import { Core } from "../core";
+
+export class Lib extends Core {}
@@ -0,0 +1,36 @@
+export class Stable {
+    /** @beta */
+    betaMethod() {}
+
+    /** @alpha */
+    alphaMethod() {}
+}
+
+/** @beta */
+export class BetaClass {
+    /** @alpha */
+    alphaMethod() {}
+
+    inheritedMethod() {}
+
+    /** @public */
+    publicMethod() {}
+}
+
+/** @experimental */
+export namespace ExperimentalNamespace {
+    export const value = 1;
+}
+
+/** @alpha */
+export function alphaFunction() {}
+
+/** @internal */
+export function internalFunction() {}
+
+/**
+ * @beta
+ */
+export function overloaded(value: string): void;
+export function overloaded(value: number): void;
+export function overloaded() {}
@@ -0,0 +1,26 @@
+export class ParseError extends Error {}
+
+/**
+ * Parses the given text.
+ *
+ * @param text  The text to parse.
+ * @throws {@link ParseError} If the text is not valid.
+ * @throws {RangeError} If the text is too long.
+ * @see {@link format | The inverse function}
+ * @see https://example.com/grammar - The grammar.
+ * @see format
+ * @see The section on parsing in the README.
+ */
+export function parse(text: string) {
+    return text;
+}
+
+/**
+ * Formats the given value.
+ *
+ * @see parse
+ * @see missing
+ */
+export function format(value: string) {
+    return value;
+}
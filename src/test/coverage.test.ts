@@ -0,0 +1,67 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import type { ProjectReflection } from "../lib/models";
+import {
+    getCoverage,
+    getCoverageMarkdown,
+    getCoveragePercent,
+} from "../lib/validation/coverage";
+
+describe("Coverage", () => {
+    const base = join(__dirname, "converter2");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "coverage",
+        excludeExternals: true,
+        disableSources: true,
+        tsconfig: join(base, "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "doc-coverage", "index.ts")])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    it("Counts documented declarations by kind", () => {
+        const { total, modules } = getCoverage(project);
+
+        equal(total.reflections, { documented: 3, total: 6 });
+        equal(total.kinds, {
+            Class: { documented: 1, total: 1 },
+            Function: { documented: 1, total: 2 },
+            Interface: { documented: 0, total: 1 },
+            Property: { documented: 1, total: 2 },
+        });
+        equal(getCoveragePercent(total.reflections), 50);
+
+        equal(
+            modules.map((module) => module.name),
+            ["coverage"]
+        );
+        equal(modules[0].undocumented, [
+            "Documented.undocumented",
+            "Undocumented",
+            "log",
+        ]);
+    });
+
+    it("Counts documented parameters and return values", () => {
+        const { total } = getCoverage(project);
+
+        equal(total.parameters, { documented: 1, total: 3 });
+        equal(total.returns, { documented: 1, total: 1 });
+    });
+
+    it("Lists undocumented declarations in the Markdown report", () => {
+        const markdown = getCoverageMarkdown(getCoverage(project));
+
+        ok(markdown.includes("| Function | 1/2 (50.00%) |"));
+        ok(markdown.includes("- Documented.undocumented\n"));
+    });
+});
@@ -0,0 +1,159 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    findReflectionsByReference,
+    parseDeclarationReference,
+    ProjectReflection,
+    Reflection,
+    resolveLinkTarget,
+} from "../lib/models";
+
+describe("parseDeclarationReference", () => {
+    it("Parses dotted names", () => {
+        equal(parseDeclarationReference("Foo.bar"), {
+            symbolPath: [
+                { navigation: ".", name: "Foo" },
+                { navigation: ".", name: "bar" },
+            ],
+        });
+    });
+
+    it("Parses module sources and instance members", () => {
+        equal(parseDeclarationReference("@scope/pkg/sub!Foo#bar"), {
+            moduleSource: "@scope/pkg/sub",
+            symbolPath: [
+                { navigation: ".", name: "Foo" },
+                { navigation: "#", name: "bar" },
+            ],
+        });
+        equal(parseDeclarationReference("pkg!"), {
+            moduleSource: "pkg",
+            symbolPath: [],
+        });
+    });
+
+    it("Parses meanings", () => {
+        equal(parseDeclarationReference("Foo.(bar:static)"), {
+            symbolPath: [
+                { navigation: ".", name: "Foo" },
+                {
+                    navigation: ".",
+                    name: "bar",
+                    meaning: { keyword: "static" },
+                },
+            ],
+        });
+        equal(parseDeclarationReference("Foo.(constructor)"), {
+            symbolPath: [
+                { navigation: ".", name: "Foo" },
+                { navigation: ".", name: "constructor" },
+            ],
+        });
+        equal(parseDeclarationReference("foo(:2)"), {
+            symbolPath: [
+                { navigation: ".", name: "foo", meaning: { index: 2 } },
+            ],
+        });
+        equal(parseDeclarationReference("foo:function(1)"), {
+            symbolPath: [
+                {
+                    navigation: ".",
+                    name: "foo",
+                    meaning: { keyword: "function", index: 1 },
+                },
+            ],
+        });
+    });
+
+    it("Rejects invalid references", () => {
+        equal(parseDeclarationReference(""), undefined);
+        equal(parseDeclarationReference("Foo."), undefined);
+        equal(parseDeclarationReference("Foo:unknown"), undefined);
+        equal(parseDeclarationReference("Foo bar"), undefined);
+    });
+});
+
+describe("findReflectionsByReference", () => {
+    const base = join(__dirname, "converter2", "declaration-references");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "a.ts"), join(base, "b.ts")])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    function find(context: Reflection, reference: string) {
+        const parsed = parseDeclarationReference(reference);
+        ok(parsed, `Failed to parse ${reference}`);
+        return findReflectionsByReference(context, parsed).map((refl) =>
+            refl.getFullName()
+        );
+    }
+
+    it("Prefers reflections close to the comment", () => {
+        const foo = project.getChildByName(["a", "Foo"]);
+        ok(foo);
+        equal(find(foo, "Options"), ["a.Options"]);
+    });
+
+    it("Returns all matches of ambiguous references", () => {
+        equal(find(project, "Options"), ["a.Options", "b.Options"]);
+    });
+
+    it("Resolves references starting at a module", () => {
+        equal(find(project, "b!Options"), ["b.Options"]);
+        equal(find(project, "b!"), ["b"]);
+        equal(find(project, "c!Options"), []);
+    });
+
+    it("Selects members by navigation and meaning", () => {
+        const bar = (reference: string) =>
+            findReflectionsByReference(
+                project,
+                parseDeclarationReference(reference)!
+            ).map((refl) => refl.flags.isStatic);
+
+        equal(bar("a!Foo.bar"), [false, true]);
+        equal(bar("a!Foo#bar"), [false]);
+        equal(bar("a!Foo.(bar:static)"), [true]);
+        equal(bar("a!Foo.bar:instance"), [false]);
+        equal(find(project, "a!Foo.(constructor)"), ["a.Foo.constructor"]);
+    });
+
+    it("Selects overloads by index", () => {
+        const signatures = findReflectionsByReference(
+            project,
+            parseDeclarationReference("Foo.overloaded(:2)")!
+        );
+        equal(signatures.length, 1);
+        const foo = project.getChildByName(["a", "Foo", "overloaded"]);
+        ok(foo && "signatures" in foo);
+        equal(signatures[0], (foo as any).signatures[1]);
+    });
+
+    it("Falls back to names which are not declaration references", () => {
+        equal(
+            resolveLinkTarget(project, "Foo bar").map((refl) =>
+                refl.getFullName()
+            ),
+            []
+        );
+        equal(
+            resolveLinkTarget(project, "a.Foo").map((refl) =>
+                refl.getFullName()
+            ),
+            ["a.Foo"]
+        );
+    });
+});
@@ -0,0 +1,143 @@
+import { join } from "path";
+import * as FS from "fs";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    ReflectionKind,
+} from "../lib/models";
+import { DeprecatedIndex } from "../lib/output/models/DeprecatedIndex";
+import { DefaultTheme } from "../lib/output/themes/DefaultTheme";
+import { Renderer } from "../lib/output/renderer";
+
+function convert(app: Application) {
+    const project = app.converter.convert(
+        app.getEntrypointsForPaths([
+            join(__dirname, "converter2", "deprecated", "index.ts"),
+        ])
+    );
+    ok(project, "Failed to convert");
+    return project;
+}
+
+function query(project: ProjectReflection, name: string) {
+    const reflection = project.getChildByName(name);
+    ok(reflection instanceof DeclarationReflection, `Failed to find ${name}`);
+    return reflection;
+}
+
+describe("@deprecated", () => {
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        project = convert(app);
+    });
+
+    it("Sets the deprecated flag", () => {
+        ok(query(project, "Legacy").flags.isDeprecated);
+        ok(query(project, "Legacy.legacyMethod").flags.isDeprecated);
+        ok(query(project, "legacyValue").flags.isDeprecated);
+        ok(!query(project, "Current").flags.isDeprecated);
+        ok(!query(project, "currentValue").flags.isDeprecated);
+    });
+
+    it("Keeps the @deprecated tag", () => {
+        equal(
+            query(project, "Legacy").comment?.getTag("deprecated")?.text,
+            "Use [[Current]] instead.\n"
+        );
+    });
+
+    it("Only deprecates declarations if all signatures are deprecated", () => {
+        const legacy = query(project, "legacy");
+        ok(legacy.flags.isDeprecated);
+
+        const overloaded = query(project, "Current.overloaded");
+        ok(!overloaded.flags.isDeprecated);
+        equal(
+            overloaded.signatures?.map((sig) => sig.flags.isDeprecated),
+            [true, false]
+        );
+    });
+
+    it("Serializes the deprecated flag", () => {
+        const json = app.serializer.toObject(project);
+        const legacy = json.children?.find((child) => child.name === "Legacy");
+        equal(legacy?.flags.isDeprecated, true);
+    });
+
+    it("Adds a css class to deprecated reflections", () => {
+        const legacy = query(project, "Legacy");
+        DefaultTheme.applyReflectionClasses(legacy);
+        ok(legacy.cssClasses?.split(" ").includes("tsd-is-deprecated"));
+    });
+
+    it("Lists deprecated reflections with urls", () => {
+        project.getReflectionsByKind(ReflectionKind.All).forEach((refl) => {
+            refl.url = undefined;
+        });
+        for (const name of [
+            "Legacy",
+            "Legacy.legacyMethod",
+            "legacy",
+            "Current.overloaded",
+        ]) {
+            query(project, name).url = `${name}.html`;
+        }
+
+        const items = DeprecatedIndex.getItems(project);
+        equal(
+            items.map((item) => [item.name, item.signature?.kind, item.reason]),
+            [
+                [
+                    "Current.overloaded",
+                    ReflectionKind.CallSignature,
+                    "Pass a number instead.",
+                ],
+                ["legacy", undefined, "Use [[Current]] instead."],
+                ["Legacy", undefined, "Use [[Current]] instead."],
+                ["Legacy.legacyMethod", undefined, ""],
+            ]
+        );
+    });
+
+    it("Supports --excludeDeprecated", () => {
+        app.options.setValue("excludeDeprecated", true);
+        const project = convert(app);
+        app.options.setValue("excludeDeprecated", false);
+        equal(
+            project.children?.map((child) => child.name),
+            ["Current", "currentValue"]
+        );
+        const overloaded = query(project, "Current.overloaded");
+        equal(overloaded.signatures?.length, 1);
+    });
+
+    it("Provides the template and styles of the deprecated index", () => {
+        const theme = new DefaultTheme(
+            app.renderer,
+            Renderer.getDefaultTheme()
+        );
+        const { templates, layouts } = theme.resources;
+        ok(templates.getOrigin("typedoc")?.hasResource("deprecated"));
+
+        // The layout links the stylesheet striking through deprecated reflections.
+        equal(
+            layouts.getResource("default"),
+            layouts.getOrigin("typedoc")?.getResource("default")
+        );
+        ok(
+            FS.existsSync(
+                join(DefaultTheme.RESOURCES_PATH, "assets/css/typedoc.css")
+            )
+        );
+    });
+});
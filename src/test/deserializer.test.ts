@@ -0,0 +1,84 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, resetReflectionID, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    ReferenceType,
+    Reflection,
+} from "../lib/models";
+import type { JSONOutput } from "../lib/serialization";
+
+describe("Deserializer", () => {
+    const base = join(__dirname, "converter2");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        disableSources: true,
+        tsconfig: join(base, "tsconfig.json"),
+    });
+
+    function convert(name: string): JSONOutput.ProjectReflection {
+        resetReflectionID();
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "merge", `${name}.ts`)])
+        );
+        ok(project, `Failed to convert ${name}`);
+        return {
+            ...JSON.parse(JSON.stringify(app.serializer.toObject(project))),
+            name,
+        };
+    }
+
+    it("Merges projects into one module per input", () => {
+        const project = app.deserializer.mergeProjects("merged", [
+            convert("base"),
+            convert("derived"),
+        ]);
+
+        equal(project.name, "merged");
+        equal(
+            project.children?.map((child) => child.name),
+            ["base", "derived"]
+        );
+        equal(
+            project.groups?.map((group) => group.title),
+            ["Modules"]
+        );
+    });
+
+    it("Reassigns ids so that inputs do not collide", () => {
+        const project = app.deserializer.mergeProjects("merged", [
+            convert("base"),
+            convert("derived"),
+        ]);
+
+        const reflections: Reflection[] = [];
+        project.traverse(function collect(child) {
+            reflections.push(child);
+            child.traverse(collect);
+        });
+
+        equal(new Set(reflections.map((r) => r.id)).size, reflections.length);
+        for (const reflection of reflections) {
+            equal(project.getReflectionById(reflection.id), reflection);
+        }
+    });
+
+    it("Links references between inputs", () => {
+        const project = app.deserializer.mergeProjects("merged", [
+            convert("base"),
+            convert("derived"),
+        ]);
+
+        const baseClass = project.findReflectionByName("base.Base");
+        const derived = project.findReflectionByName("derived.Derived");
+        ok(derived instanceof DeclarationReflection);
+
+        const [extended] = derived.extendedTypes ?? [];
+        ok(extended instanceof ReferenceType);
+        ok(baseClass, "Failed to find Base");
+        equal(extended.reflection, baseClass);
+    });
+});
@@ -1,7 +1,33 @@
 import * as github from "../lib/converter/plugins/GitHubPlugin";
+import {
+    createTemplateProvider,
+    SourceLinkProvider,
+} from "../lib/converter/utils/source-links";
+import { BasePath } from "../lib/converter/utils/base-path";
 import Assert = require("assert");
+import * as ShellJS from "shelljs";
 
 describe("GitHubRepository", function () {
+    // Like GitHubPlugin, keep ShellJS from printing the directory stack
+    before(() => {
+        ShellJS.config.silent = true;
+    });
+
+    function getURL(
+        remote: string,
+        line?: number,
+        providers?: SourceLinkProvider[]
+    ) {
+        const root = BasePath.normalize(process.cwd());
+        const repository = new github.Repository(
+            root,
+            "abc1234",
+            [remote],
+            providers
+        );
+        return repository.getURL(root + "/src/index.ts", line);
+    }
+
     describe("constructor", function () {
         it("must default to github.com hostname", function () {
             const repository = new github.Repository("", "", []);
@@ -16,5 +42,125 @@ describe("GitHubRepository", function () {
 
             Assert.equal(repository.gitHubHostname, "github.acme.com");
         });
+
+        it("must not link repositories without a known remote", function () {
+            const repository = new github.Repository("", "", []);
+
+            Assert.strictEqual(repository.provider, undefined);
+            Assert.strictEqual(
+                getURL("git@example.com:joebloggs/foobar.git"),
+                undefined
+            );
+        });
+
+        it("must set the provider and remote of an enterprise github URL", function () {
+            const mockRemotes = ["git@github.acme.com:joebloggs/foobar.git"];
+
+            const repository = new github.Repository("", "", mockRemotes);
+
+            Assert.strictEqual(repository.provider?.name, "GitHub");
+            Assert.strictEqual(repository.remote?.hostname, "github.acme.com");
+        });
+
+        it("must keep the GitHub specific members", function () {
+            const root = BasePath.normalize(process.cwd());
+            const repository = new github.Repository(root, "abc1234", [
+                "https://github.com/joebloggs/foobar.git",
+            ]);
+
+            Assert.strictEqual(repository.gitHubUser, "joebloggs");
+            Assert.strictEqual(repository.gitHubProject, "foobar");
+            Assert.strictEqual(
+                repository.getGitHubURL(root + "/src/index.ts"),
+                "https://github.com/joebloggs/foobar/blob/abc1234/src/index.ts"
+            );
+        });
+    });
+
+    describe("getURL", function () {
+        it("Links to GitHub", function () {
+            Assert.strictEqual(
+                getURL("https://github.com/joebloggs/foobar.git", 4),
+                "https://github.com/joebloggs/foobar/blob/abc1234/src/index.ts#L4"
+            );
+        });
+
+        it("Links to self-hosted GitLab with nested groups", function () {
+            Assert.strictEqual(
+                getURL("git@gitlab.acme.com:group/sub/foobar.git", 4),
+                "https://gitlab.acme.com/group/sub/foobar/-/blob/abc1234/src/index.ts#L4"
+            );
+        });
+
+        it("Links to Bitbucket Cloud", function () {
+            Assert.strictEqual(
+                getURL("git@bitbucket.org:joebloggs/foobar.git", 4),
+                "https://bitbucket.org/joebloggs/foobar/src/abc1234/src/index.ts#lines-4"
+            );
+        });
+
+        it("Links to Bitbucket Server", function () {
+            const url =
+                "https://bitbucket.acme.com/projects/PROJ/repos/foobar/browse/src/index.ts?at=abc1234";
+            Assert.strictEqual(
+                getURL("https://bitbucket.acme.com/scm/PROJ/foobar.git"),
+                url
+            );
+            Assert.strictEqual(
+                getURL("ssh://git@bitbucket.acme.com:7999/PROJ/foobar.git", 4),
+                url + "#4"
+            );
+        });
+
+        it("Links to Azure Repos", function () {
+            const url =
+                "https://dev.azure.com/org/project/_git/foobar?path=%2Fsrc%2Findex.ts&version=GCabc1234";
+            Assert.strictEqual(
+                getURL("https://org@dev.azure.com/org/project/_git/foobar"),
+                url
+            );
+            Assert.strictEqual(
+                getURL("git@ssh.dev.azure.com:v3/org/project/foobar", 4),
+                url + "&line=4&lineEnd=5&lineStartColumn=1&lineEndColumn=1"
+            );
+        });
+
+        it("Links to Gitea", function () {
+            Assert.strictEqual(
+                getURL("https://codeberg.org/joebloggs/foobar.git", 4),
+                "https://codeberg.org/joebloggs/foobar/src/commit/abc1234/src/index.ts#L4"
+            );
+        });
+
+        it("Links with a template", function () {
+            const providers = [
+                createTemplateProvider(
+                    "https://git.corp/{path}?rev={gitRevision}#L{line}"
+                ),
+            ];
+            Assert.strictEqual(
+                getURL("", 4, providers),
+                "https://git.corp/src/index.ts?rev=abc1234#L4"
+            );
+            Assert.strictEqual(
+                getURL("", undefined, providers),
+                "https://git.corp/src/index.ts?rev=abc1234"
+            );
+        });
+
+        it("Encodes the path of a template", function () {
+            const provider = createTemplateProvider(
+                "https://git.corp/{path}?rev={gitRevision}#L{line}"
+            );
+            Assert.strictEqual(
+                provider.getUrl(
+                    { hostname: "", owner: "", project: "" },
+                    "abc1234",
+                    "src/a file#1.ts",
+                    4
+                ),
+                "https://git.corp/src/a%20file%231.ts?rev=abc1234#L4"
+            );
+        });
     });
 });
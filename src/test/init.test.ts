@@ -0,0 +1,84 @@
+import { join } from "path";
+import * as FS from "fs";
+import { tmpdir } from "os";
+import { deepStrictEqual as equal } from "assert";
+import { Application } from "..";
+import { Logger } from "../lib/utils";
+import { getInitialConfig } from "../lib/utils/options/init";
+
+describe("typedoc init", () => {
+    const packages = join(__dirname, "packages");
+    const tempDir = FS.mkdtempSync(join(tmpdir(), "typedoc-init-"));
+
+    after(() => {
+        for (const file of [
+            "package.json",
+            "tsconfig.build.json",
+            "types/index.d.ts",
+        ]) {
+            FS.unlinkSync(join(tempDir, file));
+        }
+        FS.rmdirSync(join(tempDir, "types"));
+        FS.rmdirSync(tempDir);
+    });
+
+    it("Guesses the entry point from the main field and the outDir", () => {
+        equal(
+            getInitialConfig(
+                new Logger(),
+                join(packages, "typedoc-single-package-example")
+            ),
+            {
+                $schema: "./node_modules/typedoc/dist/schema.json",
+                name: "typedoc-single-package-example",
+                tsconfig: "tsconfig.json",
+                entryPoints: ["src/index.ts"],
+                out: "docs",
+            }
+        );
+    });
+
+    it("Uses the packages of workspaces", () => {
+        const logger = new Logger();
+        equal(getInitialConfig(logger, join(packages, "option-overrides")), {
+            $schema: "./node_modules/typedoc/dist/schema.json",
+            name: "option-overrides",
+            packages: ["."],
+            out: "docs",
+        });
+        equal(logger.hasWarnings(), false);
+    });
+
+    it("Documents declaration files without sources", () => {
+        FS.mkdirSync(join(tempDir, "types"));
+        FS.writeFileSync(
+            join(tempDir, "package.json"),
+            JSON.stringify({ name: "types-only", types: "types/index.d.ts" })
+        );
+        FS.writeFileSync(
+            join(tempDir, "types", "index.d.ts"),
+            "export declare const a: number;"
+        );
+        FS.writeFileSync(join(tempDir, "tsconfig.build.json"), "{}");
+
+        equal(getInitialConfig(new Logger(), tempDir), {
+            $schema: "./node_modules/typedoc/dist/schema.json",
+            name: "types-only",
+            tsconfig: "tsconfig.build.json",
+            entryPoints: ["types/index.d.ts"],
+            out: "docs",
+        });
+    });
+
+    it("Does not overwrite existing config files", async () => {
+        const app = new Application();
+        app.bootstrap({ logger: "none", plugin: ["none"] });
+        equal(
+            await app.generateConfig(
+                join(packages, "typedoc-single-package-example")
+            ),
+            false
+        );
+        equal(app.logger.hasErrors(), true);
+    });
+});
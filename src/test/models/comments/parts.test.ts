@@ -0,0 +1,129 @@
+import { deepStrictEqual as equal } from "assert";
+import { parseCommentParts } from "../../../lib/models/comments/parts";
+import { parseComment } from "../../../lib/converter/factories/comment";
+
+describe("parseCommentParts", () => {
+    it("Returns no parts for empty text", () => {
+        equal(parseCommentParts(""), []);
+    });
+
+    it("Parses code spans and fenced code blocks", () => {
+        equal(parseCommentParts("Use `foo` or:\n```ts\nfoo();\n```"), [
+            { kind: "text", text: "Use " },
+            { kind: "code", text: "`foo`" },
+            { kind: "text", text: " or:\n" },
+            { kind: "code", text: "```ts\nfoo();\n```" },
+        ]);
+        equal(parseCommentParts("``a ` b`` and ` alone"), [
+            { kind: "code", text: "``a ` b``" },
+            { kind: "text", text: " and ` alone" },
+        ]);
+    });
+
+    it("Parses link tags with their targets", () => {
+        equal(
+            parseCommentParts(
+                "See {@link Foo}, {@linkcode Foo.bar | bar} and [the docs]{@link https://typedoc.org}."
+            ),
+            [
+                { kind: "text", text: "See " },
+                {
+                    kind: "inline-tag",
+                    tag: "@link",
+                    text: "Foo",
+                    target: "Foo",
+                    original: "{@link Foo}",
+                },
+                { kind: "text", text: ", " },
+                {
+                    kind: "inline-tag",
+                    tag: "@linkcode",
+                    text: "bar",
+                    target: "Foo.bar",
+                    original: "{@linkcode Foo.bar | bar}",
+                },
+                { kind: "text", text: " and " },
+                {
+                    kind: "inline-tag",
+                    tag: "@link",
+                    text: "the docs",
+                    target: "https://typedoc.org",
+                    original: "[the docs]{@link https://typedoc.org}",
+                },
+                { kind: "text", text: "." },
+            ]
+        );
+    });
+
+    it("Parses bracket links as link tags", () => {
+        equal(parseCommentParts("[[Foo]] [[`Bar`]] [[include:file.md]]"), [
+            {
+                kind: "inline-tag",
+                tag: "@link",
+                text: "Foo",
+                target: "Foo",
+                original: "[[Foo]]",
+            },
+            { kind: "text", text: " " },
+            {
+                kind: "inline-tag",
+                tag: "@linkcode",
+                text: "Bar",
+                target: "Bar",
+                original: "[[`Bar`]]",
+            },
+            { kind: "text", text: " [[include:file.md]]" },
+        ]);
+    });
+
+    it("Parses other inline tags without targets", () => {
+        equal(parseCommentParts("{@inheritDoc}"), [
+            {
+                kind: "inline-tag",
+                tag: "@inheritDoc",
+                text: "",
+                original: "{@inheritDoc}",
+            },
+        ]);
+    });
+
+    it("Does not parse tags in code", () => {
+        equal(parseCommentParts("`{@link Foo}`"), [
+            { kind: "code", text: "`{@link Foo}`" },
+        ]);
+    });
+});
+
+describe("Comment parts", () => {
+    it("Stores the parts of the parsed comment and its tags", () => {
+        const comment = parseComment(
+            "/**\n * Short `[[Foo]]`\n *\n * Text [[Foo]]\n * @param a The {@link Foo}\n */"
+        );
+        equal(comment.shortTextParts, [
+            { kind: "text", text: "Short " },
+            { kind: "code", text: "`[[Foo]]`" },
+        ]);
+        equal(comment.textParts[1], {
+            kind: "inline-tag",
+            tag: "@link",
+            text: "Foo",
+            target: "Foo",
+            original: "[[Foo]]",
+        });
+        equal(comment.tags[0].textParts[1], {
+            kind: "inline-tag",
+            tag: "@link",
+            text: "Foo",
+            target: "Foo",
+            original: "{@link Foo}",
+        });
+    });
+
+    it("Updates the parts when the text is changed", () => {
+        const comment = parseComment("/** Short */");
+        comment.shortText = "`code`";
+        equal(comment.shortTextParts, [{ kind: "code", text: "`code`" }]);
+        comment.returns = undefined;
+        equal(comment.returnsParts, []);
+    });
+});
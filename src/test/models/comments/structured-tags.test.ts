@@ -0,0 +1,81 @@
+import { deepStrictEqual as equal } from "assert";
+import {
+    parseSeeTag,
+    parseThrowsTag,
+} from "../../../lib/models/comments/structured-tags";
+
+// Descriptions without code or inline tags are a single text part.
+function description(text: string) {
+    return { text, textParts: text ? [{ kind: "text", text }] : [] };
+}
+
+describe("parseSeeTag", () => {
+    it("Parses link targets", () => {
+        equal(parseSeeTag("{@link Foo.bar}"), {
+            target: "Foo.bar",
+            ...description(""),
+        });
+        equal(parseSeeTag("{@link Foo | the foo} for details\n"), {
+            target: "Foo",
+            caption: "the foo",
+            ...description("for details"),
+        });
+        equal(parseSeeTag("[[`Foo`]] - for details"), {
+            target: "Foo",
+            ...description("for details"),
+        });
+    });
+
+    it("Parses URLs and bare names", () => {
+        equal(parseSeeTag("https://typedoc.org the website"), {
+            target: "https://typedoc.org",
+            ...description("the website"),
+        });
+        equal(parseSeeTag("Foo#bar"), {
+            target: "Foo#bar",
+            ...description(""),
+        });
+        equal(parseSeeTag("Foo - for details"), {
+            target: "Foo",
+            ...description("for details"),
+        });
+    });
+
+    it("Splits the description into parts", () => {
+        equal(parseSeeTag("Foo - like [[Bar]]").textParts, [
+            { kind: "text", text: "like " },
+            {
+                kind: "inline-tag",
+                tag: "@link",
+                text: "Bar",
+                target: "Bar",
+                original: "[[Bar]]",
+            },
+        ]);
+    });
+
+    it("Does not treat the first word of a description as a target", () => {
+        equal(parseSeeTag("The section on parsing."), {
+            ...description("The section on parsing."),
+        });
+    });
+});
+
+describe("parseThrowsTag", () => {
+    it("Parses the thrown type", () => {
+        equal(parseThrowsTag("{RangeError} If too long."), {
+            type: "RangeError",
+            ...description("If too long."),
+        });
+        equal(parseThrowsTag("{@link ParseError | the error} - If invalid."), {
+            type: "ParseError",
+            ...description("If invalid."),
+        });
+    });
+
+    it("Supports descriptions without a type", () => {
+        equal(parseThrowsTag("If the text is invalid."), {
+            ...description("If the text is invalid."),
+        });
+    });
+});
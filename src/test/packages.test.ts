@@ -1,9 +1,14 @@
-import { ok, strictEqual } from "assert";
+import { deepStrictEqual, ok, strictEqual } from "assert";
+import * as FS from "fs";
+import { tmpdir } from "os";
 import * as Path from "path";
 
 import * as td from "..";
-import { Logger } from "../lib/utils";
-import { expandPackages } from "../lib/utils/package-manifest";
+import { CallbackLogger, Logger } from "../lib/utils";
+import {
+    expandPackages,
+    loadPackageOptions,
+} from "../lib/utils/package-manifest";
 
 describe("Packages support", () => {
     it("handles monorepos", () => {
@@ -24,6 +29,25 @@ describe("Packages support", () => {
         );
     });
 
+    it("handles monorepos in worker threads", async () => {
+        const base = Path.join(__dirname, "packages", "ts-monorepo");
+        const app = new td.Application();
+        app.options.addReader(new td.TypeDocReader());
+        app.bootstrap({
+            options: Path.join(base, "typedoc.json"),
+            workers: 2,
+        });
+        const project = await app.convertInWorkers();
+        ok(project, "Failed to convert");
+        const result = app.serializer.projectToObject(project);
+        ok(result.children !== undefined);
+        strictEqual(
+            result.children.length,
+            4,
+            "incorrect number of packages processed"
+        );
+    });
+
     it("handles single packages", () => {
         const base = Path.join(
             __dirname,
@@ -46,6 +70,120 @@ describe("Packages support", () => {
         );
     });
 
+    describe("package options", () => {
+        const base = Path.join(__dirname, "packages", "option-overrides");
+
+        function checkOverrides(project: td.ProjectReflection) {
+            const alpha = project.getChildByName("Alpha");
+            const beta = project.getChildByName("@overrides/beta");
+            ok(
+                alpha instanceof td.DeclarationReflection &&
+                    beta instanceof td.DeclarationReflection,
+                "Failed to find the packages"
+            );
+
+            // excludePrivate and excludeTags only apply to alpha
+            const counter = alpha.getChildByName("Counter");
+            strictEqual(counter?.getChildByName("count"), undefined);
+            deepStrictEqual(counter?.comment?.tags, []);
+
+            const timer = beta.getChildByName("Timer");
+            ok(timer?.getChildByName("started"));
+            deepStrictEqual(
+                timer?.comment?.tags.map((tag) => tag.tagName),
+                ["note"]
+            );
+
+            return beta;
+        }
+
+        it("applies the options of each package", () => {
+            const app = new td.Application();
+            app.bootstrap({
+                packages: [base],
+                logger: "none",
+            });
+            const project = app.convert();
+            ok(project, "Failed to convert");
+            const beta = checkOverrides(project);
+
+            strictEqual(
+                beta.comment?.text,
+                "# Beta\n\nThe readme of the beta package.\n"
+            );
+            deepStrictEqual(
+                beta.groups
+                    ?.find((group) => group.title === "Functions")
+                    ?.categories?.map((category) => category.title),
+                ["Second", "First"]
+            );
+        });
+
+        it("applies the options of each package in worker threads", async () => {
+            const app = new td.Application();
+            app.bootstrap({
+                packages: [base],
+                logger: "none",
+                workers: 2,
+            });
+            const project = await app.convertInWorkers();
+            ok(project, "Failed to convert");
+            checkOverrides(project);
+        });
+
+        it("prefers typedoc.json to the typedoc key of package.json", () => {
+            const app = new td.Application();
+            app.bootstrap();
+            const packagePath = Path.join(base, "packages", "beta");
+            const options = loadPackageOptions(
+                new Logger(),
+                app.options,
+                Path.join(packagePath, "package.json"),
+                {
+                    typedoc: {
+                        name: "Beta",
+                        entryPoints: ["src/other.ts"],
+                        excludeTags: "note",
+                    },
+                }
+            );
+            deepStrictEqual(options, {
+                name: "Beta",
+                entryPoints: [Path.join(packagePath, "src", "index.ts")],
+                readme: Path.join(packagePath, "README.md"),
+                excludeTags: ["note"],
+                categoryOrder: ["Second", "*"],
+            });
+        });
+
+        it("reports typedoc.json files which fail to parse", () => {
+            const app = new td.Application();
+            app.bootstrap();
+            const packagePath = FS.mkdtempSync(
+                Path.join(tmpdir(), "typedoc-packages-")
+            );
+            const typedocJsonPath = Path.join(packagePath, "typedoc.json");
+            FS.writeFileSync(typedocJsonPath, "{");
+            const messages: string[] = [];
+            try {
+                const options = loadPackageOptions(
+                    new CallbackLogger((message: string) =>
+                        messages.push(message)
+                    ),
+                    app.options,
+                    Path.join(packagePath, "package.json"),
+                    { typedoc: { name: "Package" } }
+                );
+                deepStrictEqual(options, { name: "Package" });
+            } finally {
+                FS.unlinkSync(typedocJsonPath);
+                FS.rmdirSync(packagePath);
+            }
+            strictEqual(messages.length, 1);
+            ok(messages[0].startsWith(`Failed to parse ${typedocJsonPath}: `));
+        });
+    });
+
     describe("expandPackages", () => {
         it("handles a glob", () => {
             const base = Path.join(__dirname, "packages", "ts-monorepo");
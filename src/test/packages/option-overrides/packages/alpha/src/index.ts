@@ -0,0 +1,11 @@
+/**
+ * A counter.
+ * @note Not shown in the documentation of this package.
+ */
+export class Counter {
+    private count = 0;
+
+    increment() {
+        return ++this.count;
+    }
+}
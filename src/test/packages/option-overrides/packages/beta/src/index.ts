@@ -0,0 +1,21 @@
+/**
+ * A timer.
+ * @note Shown in the documentation of this package.
+ */
+export class Timer {
+    private started = 0;
+}
+
+/**
+ * @category First
+ */
+export function first() {
+    return 1;
+}
+
+/**
+ * @category Second
+ */
+export function second() {
+    return 2;
+}
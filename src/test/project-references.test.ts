@@ -0,0 +1,57 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    ReferenceReflection,
+    ReferenceType,
+} from "../lib/models";
+
+describe("Project references", () => {
+    const base = join(__dirname, "converter2", "references");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        disableSources: true,
+        tsconfig: join(base, "tsconfig.json"),
+    });
+
+    const entryPoints = ["app", "lib", "core"].map((name) =>
+        join(base, name, "index.ts")
+    );
+
+    it("Creates a program for each nested project", () => {
+        const entrypoints = app.getEntrypointsForPaths(entryPoints);
+
+        equal(
+            entrypoints.map((entry) => entry.displayName),
+            ["app", "lib", "core"]
+        );
+        equal(new Set(entrypoints.map((entry) => entry.program)).size, 3);
+        for (const entry of entrypoints) {
+            equal(entry.program.getRootFileNames(), [
+                entry.sourceFile.fileName,
+            ]);
+        }
+    });
+
+    it("Converts declarations shared between programs once", () => {
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths(entryPoints)
+        );
+        ok(project);
+
+        const core = project.getChildByName(["core", "Core"]);
+        const lib = project.getChildByName(["lib", "Lib"]);
+        ok(lib instanceof DeclarationReflection);
+        const extended = lib.extendedTypes?.[0];
+        ok(extended instanceof ReferenceType);
+        equal(extended.reflection, core);
+
+        const reexport = project.getChildByName(["app", "Lib"]);
+        ok(reexport instanceof ReferenceReflection);
+        equal(reexport.tryGetTargetReflection(), lib);
+    });
+});
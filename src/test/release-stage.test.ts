@@ -0,0 +1,117 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok, throws } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    getReleaseStage,
+    ProjectReflection,
+    ReleaseStage,
+} from "../lib/models";
+import { DefaultTheme } from "../lib/output/themes/DefaultTheme";
+
+describe("Release stages", () => {
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    function convert() {
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths([
+                join(__dirname, "converter2", "release-stages", "index.ts"),
+            ])
+        );
+        ok(project, "Failed to convert");
+        return project;
+    }
+
+    function query(project: ProjectReflection, name: string) {
+        const reflection = project.getChildByName(name);
+        ok(
+            reflection instanceof DeclarationReflection,
+            `Failed to find ${name}`
+        );
+        return reflection;
+    }
+
+    let project: ProjectReflection;
+    before(() => {
+        project = convert();
+    });
+
+    it("Sets release stage flags", () => {
+        const stage = (name: string) => getReleaseStage(query(project, name));
+
+        equal(stage("Stable"), ReleaseStage.Public);
+        equal(stage("Stable.betaMethod"), ReleaseStage.Beta);
+        equal(stage("Stable.alphaMethod"), ReleaseStage.Alpha);
+        equal(stage("alphaFunction"), ReleaseStage.Alpha);
+        equal(
+            getReleaseStage(query(project, "internalFunction").signatures![0]),
+            ReleaseStage.Internal
+        );
+        ok(query(project, "ExperimentalNamespace").flags.isExperimental);
+        equal(stage("ExperimentalNamespace"), ReleaseStage.Beta);
+
+        // Only the first overload is marked as beta
+        const overloaded = query(project, "overloaded");
+        ok(!overloaded.flags.isBeta);
+        ok(overloaded.signatures?.[0].flags.isBeta);
+    });
+
+    it("Inherits release stages from parents", () => {
+        ok(query(project, "BetaClass.inheritedMethod").flags.isBeta);
+        ok(query(project, "ExperimentalNamespace.value").flags.isExperimental);
+
+        const alphaMethod = query(project, "BetaClass.alphaMethod");
+        ok(alphaMethod.flags.isAlpha);
+        ok(!alphaMethod.flags.isBeta);
+    });
+
+    it("Does not inherit release stages for @public reflections", () => {
+        const publicMethod = query(project, "BetaClass.publicMethod");
+        ok(!publicMethod.flags.isBeta);
+        equal(getReleaseStage(publicMethod), ReleaseStage.Public);
+    });
+
+    it("Adds css classes for release stages", () => {
+        const reflection = query(project, "BetaClass");
+        DefaultTheme.applyReflectionClasses(reflection);
+        ok(reflection.cssClasses?.split(" ").includes("tsd-is-beta"));
+    });
+
+    it("Removes reflections below the release stage", () => {
+        app.options.setValue("releaseStage", "beta");
+        const project = convert();
+        app.options.setValue("releaseStage", ReleaseStage.Internal);
+
+        equal(project.children?.map((child) => child.name).sort(), [
+            "BetaClass",
+            "ExperimentalNamespace",
+            "Stable",
+            "overloaded",
+        ]);
+        equal(
+            query(project, "Stable").children?.map((child) => child.name),
+            ["constructor", "betaMethod"]
+        );
+        equal(
+            query(project, "BetaClass").children?.map((child) => child.name),
+            ["constructor", "inheritedMethod", "publicMethod"]
+        );
+    });
+
+    it("Validates the release stage option", () => {
+        app.options.setValue("releaseStage", "Public");
+        equal(app.options.getValue("releaseStage"), ReleaseStage.Public);
+        app.options.setValue("releaseStage", ReleaseStage.Internal);
+
+        throws(
+            () => app.options.setValue("releaseStage", "stable"),
+            /releaseStage must be one of internal, alpha, beta, public/
+        );
+    });
+});
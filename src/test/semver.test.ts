@@ -0,0 +1,194 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import * as FS from "fs";
+import { tmpdir } from "os";
+import { Application, TSConfigReader } from "..";
+import {
+    Comment,
+    DeclarationReflection,
+    ProjectReflection,
+    ReflectionFlag,
+    ReflectionKind,
+} from "../lib/models";
+import {
+    IntrinsicType,
+    LiteralType,
+    ReferenceType,
+    UnionType,
+} from "../lib/models/types";
+import { describeChange } from "../lib/diff/format";
+import {
+    getChangeBump,
+    getSemverReport,
+    incrementVersion,
+    isAssignableTo,
+    isValidBump,
+    SemverBump,
+} from "../lib/diff/semver";
+
+describe("Semver", () => {
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    function convert(name: string): ProjectReflection {
+        const project = app.converter.convert(
+            app.getEntrypointsForPaths([
+                join(__dirname, "converter2", "api-diff", name),
+            ])
+        );
+        ok(project, "Failed to convert");
+        return project;
+    }
+
+    let oldProject: ProjectReflection;
+    let newProject: ProjectReflection;
+    before(() => {
+        oldProject = convert("old.ts");
+        newProject = convert("new.ts");
+    });
+
+    it("Labels changes with the release they require", () => {
+        const report = getSemverReport(oldProject, newProject);
+        equal(
+            report.changes.map(({ change, bump }) => [
+                SemverBump[bump],
+                describeChange(change),
+            ]),
+            [
+                ["Major", "Removed function removed"],
+                ["Minor", "Added class Added"],
+                [
+                    "Major",
+                    "Type parameter T of Store changed to T extends object",
+                ],
+                [
+                    "Major",
+                    "Type parameter T of Store.constructor changed to T extends object (constructor)",
+                ],
+                ["Major", "Store.limit is now required"],
+                ["Minor", "Added method Store.clear"],
+                ["Major", 'Type of version changed from "1.0.0" to number'],
+                ["Minor", "Added parameter digits of type number to format"],
+                [
+                    "Minor",
+                    "Type of parameter text of parse changed from string to string | number",
+                ],
+                ["Minor", "Parameter radix of parse is now optional"],
+            ]
+        );
+        equal(report.bump, SemverBump.Major);
+        equal(report.documentation, false);
+    });
+
+    it("Requires a patch release for documentation changes", () => {
+        const project = convert("old.ts");
+        equal(getSemverReport(oldProject, project).bump, SemverBump.None);
+
+        project.getChildByName("version")!.comment = new Comment("Changed");
+        const report = getSemverReport(oldProject, project);
+        equal(report.documentation, true);
+        equal(report.bump, SemverBump.Patch);
+    });
+
+    it("Requires a major release for required interface members", () => {
+        const added = (kind: ReflectionKind, optional: boolean) => {
+            const parent = new DeclarationReflection("Options", kind);
+            const member = new DeclarationReflection(
+                "member",
+                ReflectionKind.Property,
+                parent
+            );
+            member.setFlag(ReflectionFlag.Optional, optional);
+            return getChangeBump({
+                change: "added",
+                target: "declaration",
+                name: member.getFullName(),
+                new: member,
+            });
+        };
+
+        equal(added(ReflectionKind.Interface, false), SemverBump.Major);
+        equal(added(ReflectionKind.Interface, true), SemverBump.Minor);
+        equal(added(ReflectionKind.Class, false), SemverBump.Minor);
+    });
+
+    it("Requires a proposed version for breaking changes", () => {
+        const dir = FS.mkdtempSync(join(tmpdir(), "typedoc-semver-"));
+        const files = [oldProject, newProject].map((project, i) => {
+            const file = join(dir, `${i}.json`);
+            FS.writeFileSync(
+                file,
+                JSON.stringify(app.serializer.toObject(project))
+            );
+            return file;
+        });
+
+        const errors = app.logger.errorCount;
+        try {
+            ok(!app.checkSemver(files[0], files[1]));
+            equal(app.logger.errorCount, errors + 1);
+        } finally {
+            app.logger.resetErrors();
+            files.forEach((file) => FS.unlinkSync(file));
+            FS.rmdirSync(dir);
+        }
+    });
+
+    it("Checks assignability of union and literal types", () => {
+        const string = new IntrinsicType("string");
+        const number = new IntrinsicType("number");
+        const union = new UnionType([string, number]);
+
+        ok(isAssignableTo(string, union));
+        ok(!isAssignableTo(union, string));
+        ok(isAssignableTo(new LiteralType("a"), string));
+        ok(!isAssignableTo(new LiteralType(1), string));
+        ok(isAssignableTo(union, new IntrinsicType("unknown")));
+        ok(
+            isAssignableTo(
+                new IntrinsicType("boolean"),
+                new UnionType([
+                    new LiteralType(true),
+                    new LiteralType(false),
+                    string,
+                ])
+            )
+        );
+        ok(
+            !isAssignableTo(
+                ReferenceType.createBrokenReference("Foo", oldProject),
+                string
+            )
+        );
+    });
+
+    it("Checks version bumps", () => {
+        equal(incrementVersion("1.2.3", SemverBump.Major), "2.0.0");
+        equal(incrementVersion("1.2.3", SemverBump.Minor), "1.3.0");
+        equal(incrementVersion("v1.2.3-beta.1", SemverBump.Patch), "1.2.4");
+        equal(incrementVersion("0.2.3", SemverBump.Major), "0.3.0");
+
+        const report = { changes: [], documentation: false };
+        const major = { ...report, bump: SemverBump.Major };
+        ok(isValidBump(major, "1.2.3", "2.0.0"));
+        ok(isValidBump(major, "1.2.3", "3.0.0"));
+        ok(!isValidBump(major, "1.2.3", "1.3.0"));
+        ok(isValidBump(major, "0.2.3", "0.3.0"));
+        ok(!isValidBump(major, "0.2.3", "0.2.4"));
+        ok(
+            isValidBump({ ...report, bump: SemverBump.Patch }, "1.2.3", "1.2.4")
+        );
+        ok(
+            !isValidBump(
+                { ...report, bump: SemverBump.Patch },
+                "1.2.3",
+                "1.2.3"
+            )
+        );
+    });
+});
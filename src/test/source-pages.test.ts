@@ -0,0 +1,79 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import {
+    DeclarationReflection,
+    ProjectReflection,
+    ReflectionKind,
+} from "../lib/models";
+import { SourcePage } from "../lib/output/models/SourcePage";
+import { UrlMapping } from "../lib/output/models/UrlMapping";
+import { DefaultTheme } from "../lib/output/themes/DefaultTheme";
+import { loadHighlighter } from "../lib/utils/highlighter";
+
+function query(project: ProjectReflection, name: string) {
+    const reflection = project.getChildByName(name);
+    ok(reflection instanceof DeclarationReflection, `Failed to find ${name}`);
+    return reflection;
+}
+
+describe("Source pages", () => {
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(async () => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([
+                join(__dirname, "converter2", "deprecated", "index.ts"),
+            ])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+        await loadHighlighter("light-plus");
+    });
+
+    it("Creates a page for each source file", () => {
+        const urls: UrlMapping[] = [];
+        DefaultTheme.buildSourceUrls(project, urls);
+
+        equal(
+            urls.map((mapping) => [mapping.url, mapping.template]),
+            [["sources/index.ts.html", "source.hbs"]]
+        );
+        ok(urls[0].model instanceof SourcePage);
+        equal(project.files[0].url, "sources/index.ts.html");
+    });
+
+    it("Links sources to their line", () => {
+        const legacy = query(project, "Legacy");
+        equal(
+            legacy.sources?.map((source) => source.url),
+            [`sources/index.ts.html#L${legacy.sources?.[0].line}`]
+        );
+    });
+
+    it("Links declarations to their reflections", () => {
+        project.getReflectionsByKind(ReflectionKind.All).forEach((refl) => {
+            refl.url = undefined;
+        });
+        const legacy = query(project, "Legacy");
+        legacy.url = "classes/legacy.html";
+
+        const page = new SourcePage(project, project.files[0]);
+        const lines = page.getLines("light-plus");
+        const line = lines[(legacy.sources?.[0].line ?? 0) - 1];
+
+        equal(line.number, legacy.sources?.[0].line);
+        ok(
+            line.html.includes('<a href="../classes/legacy.html">Legacy</a>'),
+            line.html
+        );
+        equal(lines.filter((line) => line.html.includes("<a href")).length, 1);
+    });
+});
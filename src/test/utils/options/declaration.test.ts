@@ -1,4 +1,5 @@
 import { deepStrictEqual as equal, throws } from "assert";
+import { join, resolve } from "path";
 import {
     ArrayDeclarationOption,
     convert,
@@ -8,6 +9,7 @@ import {
     NumberDeclarationOption,
     ParameterType,
     StringDeclarationOption,
+    validateValueType,
 } from "../../../lib/utils/options/declaration";
 
 describe("Options - Default convert function", () => {
@@ -163,6 +165,60 @@ describe("Options - Default convert function", () => {
         equal(convert(true, optionWithType(ParameterType.Array)), []);
     });
 
+    it("Resolves paths relative to the config directory", () => {
+        const configPath = resolve("config");
+        equal(
+            convert("a/b", optionWithType(ParameterType.Path), configPath),
+            join(configPath, "a/b")
+        );
+        equal(convert("a", optionWithType(ParameterType.Path)), resolve("a"));
+        equal(
+            convert(
+                resolve("a"),
+                optionWithType(ParameterType.Path),
+                configPath
+            ),
+            resolve("a")
+        );
+        equal(convert("", optionWithType(ParameterType.Path)), "");
+    });
+
+    it("Does not resolve the none keyword of path options", () => {
+        equal(
+            convert(
+                "none",
+                optionWithType(ParameterType.Path),
+                resolve("config")
+            ),
+            "none"
+        );
+    });
+
+    it("Resolves path arrays relative to the config directory", () => {
+        const configPath = resolve("config");
+        equal(
+            convert("a,b", optionWithType(ParameterType.PathArray), configPath),
+            [join(configPath, "a"), join(configPath, "b")]
+        );
+    });
+
+    it("Resolves globs relative to the config directory", () => {
+        const configPath = resolve("config");
+        equal(
+            convert(
+                ["src/*.ts", "!test/**", "**/node_modules/**", "!**/*.js"],
+                optionWithType(ParameterType.GlobArray),
+                configPath
+            ),
+            [
+                join(configPath, "src/*.ts"),
+                "!" + join(configPath, "test/**"),
+                "**/node_modules/**",
+                "!**/*.js",
+            ]
+        );
+    });
+
     it("Generates no error for an array option if the validation function doesn't throw one", () => {
         const declaration: ArrayDeclarationOption = {
             name: "test",
@@ -315,3 +371,55 @@ describe("Options - Default convert function", () => {
         );
     });
 });
+
+describe("Options - validateValueType", () => {
+    const optionWithType = (type: ParameterType) =>
+        ({
+            type,
+            name: "test",
+            help: "",
+        } as DeclarationOption);
+
+    it("Accepts values of the option type", () => {
+        validateValueType("a", optionWithType(ParameterType.String));
+        validateValueType("a", optionWithType(ParameterType.Path));
+        validateValueType(1, optionWithType(ParameterType.Number));
+        validateValueType(false, optionWithType(ParameterType.Boolean));
+        validateValueType(["a"], optionWithType(ParameterType.GlobArray));
+        validateValueType("a", optionWithType(ParameterType.PathArray));
+        validateValueType({}, optionWithType(ParameterType.Mixed));
+    });
+
+    it("Does not accept values which would be coerced", () => {
+        throws(
+            () =>
+                validateValueType(
+                    "true",
+                    optionWithType(ParameterType.Boolean)
+                ),
+            new Error("test must be a boolean, got a string")
+        );
+        throws(
+            () => validateValueType("1", optionWithType(ParameterType.Number)),
+            new Error("test must be a number, got a string")
+        );
+        throws(
+            () => validateValueType(null, optionWithType(ParameterType.String)),
+            new Error("test must be a string, got null")
+        );
+        throws(
+            () => validateValueType(1, optionWithType(ParameterType.Array)),
+            new Error("test must be an array of strings, got a number")
+        );
+        throws(
+            () =>
+                validateValueType(
+                    ["a", {}],
+                    optionWithType(ParameterType.PathArray)
+                ),
+            new Error(
+                "test must be an array of strings, got an array containing an object"
+            )
+        );
+    });
+});
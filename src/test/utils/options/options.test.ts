@@ -1,4 +1,10 @@
-import { Logger, Options, ParameterType } from "../../../lib/utils";
+import { join, resolve } from "path";
+import {
+    CallbackLogger,
+    Logger,
+    Options,
+    ParameterType,
+} from "../../../lib/utils";
 import {
     MapDeclarationOption,
     NumberDeclarationOption,
@@ -93,6 +99,53 @@ describe("Options", () => {
         throws(() => options.setValue("mapped" as any, "nonsense" as any));
     });
 
+    it("Suggests similar options when setting an undeclared option", () => {
+        throws(
+            () => options.setValue("excludePrivat" as never, true as never),
+            new Error(
+                "Tried to set an option (excludePrivat) that was not declared. Did you mean excludePrivate?"
+            )
+        );
+        equal(options.getSimilarOptions("ExcludePrivate"), ["excludePrivate"]);
+        equal(options.getSimilarOptions("something else"), []);
+    });
+
+    it("Reports invalid config values with their location", () => {
+        const messages: string[] = [];
+        const configLogger = new CallbackLogger((message: string) =>
+            messages.push(message)
+        );
+        const file = resolve("config", "typedoc.json");
+        options.reset();
+        options.setConfigValues(
+            { excludeProtected: "false", out: "docs", toc: [1] },
+            file,
+            configLogger,
+            "typedoc"
+        );
+        equal(messages, [
+            `excludeProtected must be a boolean, got a string (at typedoc.excludeProtected in ${file})`,
+            `toc must be an array of strings, got an array containing a number (at typedoc.toc in ${file})`,
+        ]);
+        equal(options.isSet("excludeProtected"), false);
+        equal(options.getValue("out"), join(resolve("config"), "docs"));
+    });
+
+    it("Accepts a single string for array options in config files", () => {
+        const configLogger = new Logger();
+        const file = resolve("config", "typedoc.json");
+        options.reset();
+        options.setConfigValues(
+            { entryPoints: "src/index.ts" },
+            file,
+            configLogger
+        );
+        equal(configLogger.hasErrors(), false);
+        equal(options.getValue("entryPoints"), [
+            join(resolve("config"), "src/index.ts"),
+        ]);
+    });
+
     it("Supports directly getting values", () => {
         equal(options.getRawValues().toc, []);
     });
@@ -1,4 +1,5 @@
 import { deepStrictEqual as equal, ok } from "assert";
+import { resolve } from "path";
 
 import { Options, Logger } from "../../../../lib/utils";
 import { ArgumentsReader } from "../../../../lib/utils/options/readers";
@@ -52,11 +53,14 @@ describe("Options - ArgumentsReader", () => {
     }
 
     test("Puts arguments with no flag into inputFiles", ["foo", "bar"], () => {
-        equal(options.getValue("entryPoints"), ["foo", "bar"]);
+        equal(options.getValue("entryPoints"), [
+            resolve("foo"),
+            resolve("bar"),
+        ]);
     });
 
     test("Works with string options", ["--out", "outDir"], () => {
-        equal(options.getValue("out"), "outDir");
+        equal(options.getValue("out"), resolve("outDir"));
     });
 
     test("Works with number options", ["-numOption", "123"], () => {
@@ -90,7 +94,7 @@ describe("Options - ArgumentsReader", () => {
         ["--includeVersion", "foo"],
         () => {
             equal(options.getValue("includeVersion"), true);
-            equal(options.getValue("entryPoints"), ["foo"]);
+            equal(options.getValue("entryPoints"), [resolve("foo")]);
         }
     );
 
@@ -103,14 +107,14 @@ describe("Options - ArgumentsReader", () => {
     });
 
     test("Works with array options", ["--exclude", "a"], () => {
-        equal(options.getValue("exclude"), ["a"]);
+        equal(options.getValue("exclude"), [resolve("a")]);
     });
 
     test(
         "Splits array options (backward compatibility)",
         ["--exclude", "a,b"],
         () => {
-            equal(options.getValue("exclude"), ["a", "b"]);
+            equal(options.getValue("exclude"), [resolve("a"), resolve("b")]);
         }
     );
 
@@ -118,7 +122,7 @@ describe("Options - ArgumentsReader", () => {
         "Works with array options passed multiple times",
         ["--exclude", "a", "--exclude", "b"],
         () => {
-            equal(options.getValue("exclude"), ["a", "b"]);
+            equal(options.getValue("exclude"), [resolve("a"), resolve("b")]);
         }
     );
 
@@ -0,0 +1,85 @@
+import { join } from "path";
+import { deepStrictEqual as equal } from "assert";
+
+import {
+    ConfigFileReader,
+    TypeDocReader,
+} from "../../../../lib/utils/options/readers";
+import { Logger, Options } from "../../../../lib/utils";
+
+// ES modules can only be loaded by versions of Node which support requiring them.
+const itWithEsm = (process.features as Record<string, unknown>).require_module
+    ? it
+    : it.skip;
+
+describe("Options - ConfigFileReader", () => {
+    const options = new Options(new Logger());
+    options.addDefaultDeclarations();
+    options.addReader(new TypeDocReader());
+    options.addReader(new ConfigFileReader());
+
+    async function read(path: string) {
+        options.reset();
+        options.setValue("options", path);
+        const logger = new Logger();
+        await options.readAsync(logger);
+        return logger;
+    }
+
+    itWithEsm(
+        "Reads typedoc.config.mjs files exporting an async function",
+        async () => {
+            const logger = await read(join(__dirname, "data/config-module"));
+            equal(logger.hasErrors(), false);
+            equal(options.getValue("name"), "From typedoc.config.mjs");
+            equal(options.getValue("packages"), [
+                join(__dirname, "data/config-module/packages/*"),
+            ]);
+        }
+    );
+
+    it("Reads typedoc.config.cjs files exporting an object", async () => {
+        const logger = await read(
+            join(__dirname, "data/config-commonjs/typedoc.config.cjs")
+        );
+        equal(logger.hasErrors(), false);
+        equal(options.getValue("name"), "From typedoc.config.cjs");
+    });
+
+    it("Errors if the file does not export an object", async () => {
+        const logger = await read(join(__dirname, "data/invalid.config.mjs"));
+        equal(logger.hasErrors(), true, "No error was logged");
+    });
+
+    it("Errors if the file cannot be found", async () => {
+        const logger = await read(join(__dirname, "data/missing.config.mjs"));
+        equal(logger.hasErrors(), true, "No error was logged");
+    });
+
+    it("Reads config files exporting an object synchronously", () => {
+        options.reset();
+        options.setValue(
+            "options",
+            join(__dirname, "data/config-commonjs/typedoc.config.cjs")
+        );
+        const logger = new Logger();
+        options.read(logger);
+        equal(logger.hasErrors(), false);
+        equal(options.getValue("name"), "From typedoc.config.cjs");
+    });
+
+    itWithEsm(
+        "Errors if a config file exporting a function is read synchronously",
+        async () => {
+            options.reset();
+            options.setValue("options", join(__dirname, "data/config-module"));
+            const logger = new Logger();
+            options.read(logger);
+            equal(logger.hasErrors(), true, "No error was logged");
+
+            // The function is not called, so no options are set later.
+            await new Promise((resolve) => setTimeout(resolve));
+            equal(options.getValue("name"), "");
+        }
+    );
+});
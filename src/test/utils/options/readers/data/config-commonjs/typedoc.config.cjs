@@ -0,0 +1,3 @@
+module.exports = {
+    name: "From typedoc.config.cjs",
+};
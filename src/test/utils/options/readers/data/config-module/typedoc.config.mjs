@@ -0,0 +1,6 @@
+export default async function () {
+    return {
+        name: "From typedoc.config.mjs",
+        packages: ["packages/*"],
+    };
+}
@@ -0,0 +1,74 @@
+import { deepStrictEqual as equal } from "assert";
+import { resolve } from "path";
+
+import { EnvironmentReader } from "../../../../lib/utils/options/readers";
+import { getEnvironmentVariableName } from "../../../../lib/utils/options/readers/environment";
+import { Logger, Options } from "../../../../lib/utils";
+import { LinkValidation } from "../../../../lib/validation/links";
+
+describe("Options - EnvironmentReader", () => {
+    function read(env: Record<string, string>) {
+        const options = new Options(new Logger());
+        options.addDefaultDeclarations();
+        options.addReader(new EnvironmentReader(env));
+        const logger = new Logger();
+        options.read(logger);
+        return { options, logger };
+    }
+
+    it("Names variables in upper snake case", () => {
+        equal(
+            getEnvironmentVariableName("gitRevision"),
+            "TYPEDOC_GIT_REVISION"
+        );
+        equal(getEnvironmentVariableName("out"), "TYPEDOC_OUT");
+    });
+
+    it("Converts values to the type of each option", () => {
+        const { options, logger } = read({
+            TYPEDOC_GIT_REVISION: "v1.0.0",
+            TYPEDOC_OUT: "docs",
+            TYPEDOC_EXCLUDE_PRIVATE: "true",
+            TYPEDOC_INCLUDE_VERSION: "0",
+            TYPEDOC_EXCLUDE_TAGS: "internal,hidden",
+            TYPEDOC_COVERAGE_THRESHOLD: "80",
+            TYPEDOC_VALIDATE_SYMBOL_LINKS: "warn",
+            TYPEDOC_MARKED_OPTIONS: '{"gfm":true}',
+        });
+        equal(logger.hasErrors(), false);
+        equal(options.getValue("gitRevision"), "v1.0.0");
+        equal(options.getValue("out"), resolve("docs"));
+        equal(options.getValue("excludePrivate"), true);
+        equal(options.getValue("includeVersion"), false);
+        equal(options.getValue("excludeTags"), ["internal", "hidden"]);
+        equal(options.getValue("coverageThreshold"), 80);
+        equal(options.getValue("validateSymbolLinks"), LinkValidation.Warn);
+        equal(options.getValue("markedOptions"), { gfm: true });
+    });
+
+    it("Accepts variable names without underscores", () => {
+        const { options } = read({ TYPEDOC_GITREVISION: "main" });
+        equal(options.getValue("gitRevision"), "main");
+    });
+
+    it("Ignores other and empty variables", () => {
+        const { options, logger } = read({
+            GIT_REVISION: "main",
+            TYPEDOC_OUT: "",
+        });
+        equal(logger.hasErrors(), false);
+        equal(options.isSet("gitRevision"), false);
+        equal(options.isSet("out"), false);
+    });
+
+    it("Errors if a boolean option is set to another value", () => {
+        const { logger } = read({ TYPEDOC_EXCLUDE_PRIVATE: "maybe" });
+        equal(logger.hasErrors(), true, "No error was logged");
+    });
+
+    it("Warns about unknown options", () => {
+        const { logger } = read({ TYPEDOC_NOT_AN_OPTION: "1" });
+        equal(logger.hasErrors(), false);
+        equal(logger.hasWarnings(), true, "No warning was logged");
+    });
+});
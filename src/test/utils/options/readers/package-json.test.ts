@@ -0,0 +1,29 @@
+import { join } from "path";
+import { deepStrictEqual as equal } from "assert";
+
+import { PackageJsonReader } from "../../../../lib/utils/options/readers";
+import { Logger, Options } from "../../../../lib/utils";
+
+describe("Options - PackageJsonReader", () => {
+    function read(directory: string) {
+        const options = new Options(new Logger());
+        options.addDefaultDeclarations();
+        options.addReader(new PackageJsonReader(directory));
+        const logger = new Logger();
+        options.read(logger);
+        return { options, logger };
+    }
+
+    it("Reads the typedoc key", () => {
+        const { options, logger } = read(join(__dirname, "data/package-json"));
+        equal(logger.hasErrors(), false);
+        equal(options.getValue("name"), "From package.json");
+        equal(options.getValue("excludeTags"), ["internal"]);
+    });
+
+    it("Does not error if there is no package.json", () => {
+        const { options, logger } = read(join(__dirname, "data"));
+        equal(logger.hasErrors(), false);
+        equal(options.isSet("name"), false);
+    });
+});
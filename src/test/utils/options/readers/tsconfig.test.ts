@@ -67,6 +67,19 @@ describe("Options - TSConfigReader", () => {
         );
     });
 
+    it("Resolves paths in typedocOptions relative to the tsconfig file", () => {
+        options.reset();
+        options.setValue(
+            "tsconfig",
+            join(__dirname, "data/paths.tsconfig.json")
+        );
+        options.read(new Logger());
+        equal(options.getValue("out"), join(__dirname, "data/docs"));
+        equal(options.getValue("entryPoints"), [
+            join(__dirname, "data/file.ts"),
+        ]);
+    });
+
     it("Allows stripInternal to set excludeInternal", () => {
         options.reset();
         options.setValue(
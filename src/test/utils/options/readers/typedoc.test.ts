@@ -23,6 +23,25 @@ describe("Options - TypeDocReader", () => {
         equal(options.getValue("gitRevision"), "master");
     });
 
+    test(
+        "Resolves paths relative to the file they appear in",
+        join(__dirname, "data/extends-paths.json"),
+        () => {
+            equal(options.getValue("out"), join(__dirname, "data/docs"));
+            equal(
+                options.getValue("readme"),
+                join(__dirname, "data/base/README.md")
+            );
+            equal(options.getValue("exclude"), [
+                join(__dirname, "data/base/src/internal/**"),
+                "**/*.test.ts",
+            ]);
+            equal(options.getValue("packages"), [
+                join(__dirname, "data/base/packages/*"),
+            ]);
+        }
+    );
+
     function testError(name: string, file: string) {
         it(name, () => {
             options.reset();
@@ -0,0 +1,44 @@
+import { deepStrictEqual as equal, ok } from "assert";
+
+import { Logger, Options, ParameterType } from "../../../lib/utils";
+import { getOptionsSchema } from "../../../lib/utils/options";
+
+describe("Options - getOptionsSchema", () => {
+    const options = new Options(new Logger());
+    options.addDefaultDeclarations();
+    options.addDeclaration({
+        name: "pluginOption",
+        help: "Declared by a plugin",
+        type: ParameterType.Path,
+    } as never);
+
+    const schema = getOptionsSchema(options);
+    const properties = schema.properties as Record<
+        string,
+        Record<string, unknown>
+    >;
+
+    it("Includes options declared by plugins", () => {
+        equal(properties.pluginOption, {
+            description: "Declared by a plugin",
+            type: "string",
+            default: "",
+        });
+    });
+
+    it("Lists the keys of map options", () => {
+        equal(properties.logLevel.enum, ["Verbose", "Info", "Warn", "Error"]);
+        equal(properties.logLevel.default, "Info");
+    });
+
+    it("Describes array options", () => {
+        equal(properties.externalPattern.type, "array");
+        equal(properties.externalPattern.default, ["**/node_modules/**"]);
+    });
+
+    it("Leaves out command line only options", () => {
+        ok(!("help" in properties));
+        ok(!("validateConfig" in properties));
+        ok("extends" in properties);
+    });
+});
@@ -0,0 +1,62 @@
+import { join } from "path";
+import { deepStrictEqual as equal } from "assert";
+import { Application } from "..";
+import { CallbackLogger, LogLevel } from "../lib/utils";
+
+describe("validateConfig", () => {
+    const base = join(__dirname, "converter2");
+
+    function validate(options: Record<string, unknown>) {
+        const errors: string[] = [];
+        const app = new Application();
+        app.bootstrap({ logger: "none", plugin: ["none"], ...options });
+        app.logger = new CallbackLogger((message: string, level: LogLevel) => {
+            if (level === LogLevel.Error) {
+                errors.push(message);
+            }
+        });
+        return { valid: app.validateConfig(), errors };
+    }
+
+    it("Accepts a valid configuration", () => {
+        equal(
+            validate({
+                entryPoints: [join(base, "api-report", "index.ts")],
+                readme: "none",
+            }),
+            { valid: true, errors: [] }
+        );
+    });
+
+    it("Reports files and directories which do not exist", () => {
+        const missing = join(base, "missing");
+        equal(
+            validate({
+                entryPoints: [join(missing, "index.ts")],
+                readme: join(missing, "README.md"),
+                media: missing,
+            }),
+            {
+                valid: false,
+                errors: [
+                    `The entry point ${join(
+                        missing,
+                        "index.ts"
+                    )} does not exist`,
+                    `The readme file ${join(
+                        missing,
+                        "README.md"
+                    )} does not exist`,
+                    `The media directory ${missing} does not exist`,
+                ],
+            }
+        );
+    });
+
+    it("Requires entry points or packages", () => {
+        equal(validate({}), {
+            valid: false,
+            errors: ["No entry points or packages provided"],
+        });
+    });
+});
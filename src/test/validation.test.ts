@@ -0,0 +1,231 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import { Application, TSConfigReader } from "..";
+import { DeclarationReflection, ProjectReflection } from "../lib/models";
+import { Logger, LogLevel } from "../lib/utils";
+import { validateExports } from "../lib/validation/exports";
+import { LinkValidation, validateLinks } from "../lib/validation/links";
+
+class TestLogger extends Logger {
+    messages: string[] = [];
+
+    log(message: string, level: LogLevel) {
+        super.log(message, level);
+        if (level >= LogLevel.Warn) {
+            this.messages.push(message);
+        }
+    }
+}
+
+function stripColors(message: string) {
+    // eslint-disable-next-line no-control-regex
+    return message.replace(/\x1b\[\d+m/g, "");
+}
+
+describe("validateExports", () => {
+    const base = join(__dirname, "converter2");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(base, "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "exports", "index.ts")])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    it("Warns once about each referenced type which is not exported", () => {
+        const logger = new TestLogger();
+        validateExports(project, logger, ["Allowed"]);
+
+        equal(logger.warningCount, 1);
+        ok(
+            /^Hidden, defined at .*exports\/index\.ts:1, is referenced by expose \(.*exports\/index\.ts:13\) but is not exported from any entry point\.$/.test(
+                logger.messages[0]
+            ),
+            logger.messages[0]
+        );
+    });
+
+    it("Warns about allowed types which are not referenced", () => {
+        const logger = new TestLogger();
+        validateExports(project, logger, ["Allowed", "Hidden", "Missing"]);
+
+        equal(logger.warningCount, 1);
+        ok(logger.messages[0].endsWith("\n\tMissing"), logger.messages[0]);
+    });
+});
+
+describe("validateLinks", () => {
+    const base = join(__dirname, "converter2");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(base, "tsconfig.json"),
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([join(base, "links", "index.ts")])
+        );
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    it("Does nothing if disabled", () => {
+        const logger = new TestLogger();
+        equal(validateLinks(project, logger, LinkValidation.Off), []);
+        equal(logger.messages, []);
+    });
+
+    it("Returns the links which cannot be resolved", () => {
+        const logger = new TestLogger();
+        const broken = validateLinks(project, logger, LinkValidation.Warn);
+
+        equal(
+            broken.map((link) => [
+                link.reflection.name,
+                link.source?.line,
+                link.link,
+                link.target,
+            ]),
+            [
+                ["source", 4, "[[Missing]]", "Missing"],
+                ["other", 13, "{@link Other the other target}", "Other"],
+            ]
+        );
+        equal(logger.warningCount, 2);
+        ok(
+            /^Failed to resolve Missing in \[\[Missing\]\], used in the comment of source \(.*links\/index\.ts:4\)\.$/.test(
+                logger.messages[0]
+            ),
+            logger.messages[0]
+        );
+    });
+
+    it("Reports broken links as errors", () => {
+        const logger = new TestLogger();
+        validateLinks(project, logger, LinkValidation.Error);
+
+        equal(logger.errorCount, 2);
+        equal(logger.warningCount, 0);
+    });
+
+    it("Reports @see targets which cannot be resolved", () => {
+        const converted = app.converter.convert(
+            app.getEntrypointsForPaths([
+                join(base, "structured-tags", "index.ts"),
+            ])
+        );
+        ok(converted, "Failed to convert");
+
+        const parse = converted.getChildByName("parse");
+        ok(parse instanceof DeclarationReflection);
+        const comment = parse.signatures?.[0].comment;
+        equal(comment?.throws, [
+            {
+                type: "ParseError",
+                text: "If the text is not valid.",
+                textParts: [
+                    { kind: "text", text: "If the text is not valid." },
+                ],
+            },
+            {
+                type: "RangeError",
+                text: "If the text is too long.",
+                textParts: [{ kind: "text", text: "If the text is too long." }],
+            },
+        ]);
+        equal(comment?.see?.length, 4);
+        equal(comment?.tags, []);
+
+        const logger = new TestLogger();
+        const broken = validateLinks(converted, logger, LinkValidation.Warn);
+        equal(
+            broken.map((link) => [link.reflection.name, link.link]),
+            [["format", "@see missing"]]
+        );
+    });
+});
+
+describe("checkExamples", () => {
+    const base = join(__dirname, "converter2", "examples");
+    const app = new Application();
+    app.options.addReader(new TSConfigReader());
+    app.bootstrap({
+        name: "typedoc",
+        excludeExternals: true,
+        tsconfig: join(__dirname, "converter2", "tsconfig.json"),
+        entryPoints: [join(base, "index.ts")],
+        readme: join(base, "README.md"),
+        runExamples: true,
+    });
+
+    let project: ProjectReflection;
+    before(() => {
+        const converted = app.convert();
+        ok(converted, "Failed to convert");
+        project = converted;
+    });
+
+    it("Reports type errors at the location of the example", () => {
+        const logger = new TestLogger();
+        app.logger = logger;
+        app.options.setValue("runExamples", false);
+        app.checkExamples(project);
+
+        equal(logger.errorCount, 2);
+        ok(
+            /index\.ts:11:10 - error TS2322: Type 'number' is not assignable to type 'string'/.test(
+                stripColors(logger.messages[0])
+            ),
+            logger.messages[0]
+        );
+        ok(
+            /README\.md:6:5 - error TS2345: Argument of type 'string' is not assignable/.test(
+                stripColors(logger.messages[1])
+            ),
+            logger.messages[1]
+        );
+    });
+
+    it("Runs examples with assertions", () => {
+        const logger = new TestLogger();
+        app.logger = logger;
+        app.options.setValue("runExamples", true);
+        app.checkExamples(project);
+
+        equal(logger.errorCount, 3);
+        ok(
+            /index\.ts:23: Example returned 4, expected 5\.$/.test(
+                logger.messages[2]
+            ),
+            logger.messages[2]
+        );
+    });
+
+    it("Reports that packages are not supported", () => {
+        const logger = new TestLogger();
+        app.logger = logger;
+        app.options.setValue("packages", [base]);
+        try {
+            app.checkExamples(project);
+        } finally {
+            app.options.setValue("packages", []);
+        }
+
+        equal(logger.messages, [
+            "The checkExamples option is not supported with the packages or merge options",
+        ]);
+    });
+});
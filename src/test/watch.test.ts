@@ -0,0 +1,72 @@
+import { join } from "path";
+import { deepStrictEqual as equal, ok } from "assert";
+import * as ts from "typescript";
+
+import { Application, ProjectReflection, TSConfigReader } from "..";
+
+describe("Watch mode", () => {
+    const { watchFile, watchDirectory } = ts.sys;
+
+    // File watchers would keep the process alive, so the programs are only created once.
+    before(() => {
+        ts.sys.watchFile = () => ({ close: () => undefined });
+        ts.sys.watchDirectory = () => ({ close: () => undefined });
+    });
+
+    after(() => {
+        ts.sys.watchFile = watchFile;
+        ts.sys.watchDirectory = watchDirectory;
+    });
+
+    function convertAndWatch(app: Application) {
+        return new Promise<ProjectReflection>((resolve) =>
+            app.convertAndWatch(async (project) => resolve(project))
+        );
+    }
+
+    it("Watches each package in packages mode", async () => {
+        const app = new Application();
+        app.bootstrap({
+            packages: [join(__dirname, "packages", "option-overrides")],
+            logger: "none",
+        });
+
+        const project = await convertAndWatch(app);
+        equal(
+            project.children?.map((child) => child.name),
+            ["@overrides/beta", "Alpha"]
+        );
+    });
+
+    function createReferencesApp() {
+        const base = join(__dirname, "converter2", "references");
+        const app = new Application();
+        app.options.addReader(new TSConfigReader());
+        app.bootstrap({
+            name: "typedoc",
+            logger: "none",
+            excludeExternals: true,
+            tsconfig: join(base, "tsconfig.json"),
+            entryPoints: ["app", "lib", "core"].map((name) =>
+                join(base, name, "index.ts")
+            ),
+        });
+        return app;
+    }
+
+    it("Watches nested project references of solution style tsconfig files", async () => {
+        const project = await convertAndWatch(createReferencesApp());
+        equal(
+            project.children?.map((child) => child.name),
+            ["app", "core", "lib"]
+        );
+        ok(project.getChildByName(["lib", "Lib"]));
+    });
+
+    it("Logs errors of the callback", async () => {
+        const app = createReferencesApp();
+        app.convertAndWatch(() => Promise.reject(new Error("Failed")));
+        await new Promise((resolve) => setTimeout(resolve));
+        equal(app.logger.errorCount, 1);
+    });
+});